@@ -0,0 +1,22 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getLlm } from "@/lib/llm";
+import { runAgentTools } from "@/lib/openai";
+
+export async function POST(req: Request) {
+  try {
+    const { message, state } = await req.json();
+    if (!message || typeof message !== 'string') {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    const llm = getLlm();
+    if (!llm) return NextResponse.json({ available: false }, { status: 200 });
+
+    const data = await runAgentTools(llm, message, typeof state === 'string' ? state : 'greeting');
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: 'ai-agent-failed' }, { status: 200 });
+  }
+}
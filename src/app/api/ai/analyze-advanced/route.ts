@@ -1,6 +1,7 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
+import { isLlmAvailable } from "@/lib/llm";
 import { AdvancedAIDetectionWithLearningControl } from "@/lib/ai-detection/AdvancedAIDetectionWithLearningControl";
 import { FallbackAIDetection } from "@/lib/ai-detection/FallbackAIDetection";
 import { AdvancedAnalysisResult } from "@/types/ai-detection";
@@ -15,10 +16,9 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ 
-        error: "OpenAI API key not configured" 
+    if (!isLlmAvailable("vision")) {
+      return NextResponse.json({
+        error: "Vision model not configured"
       }, { status: 500 });
     }
 
@@ -118,7 +118,7 @@ export async function POST(req: Request) {
       error: "Failed to perform advanced AI analysis",
       details: errorMessage,
       debugInfo: errorDetails,
-      apiKeyConfigured: !!process.env.OPENAI_API_KEY
+      apiKeyConfigured: isLlmAvailable("vision")
     }, { status: 500 });
   }
 }
@@ -1,7 +1,7 @@
 export const runtime = "nodejs";
 
-import OpenAI from "openai";
 import { NextResponse } from "next/server";
+import { getLlm } from "@/lib/llm";
 
 export async function POST(req: Request) {
   try {
@@ -10,12 +10,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return NextResponse.json({ available: false }, { status: 200 });
+    const llm = getLlm('vision');
+    if (!llm) return NextResponse.json({ available: false }, { status: 200 });
 
-    const openai = new OpenAI({ apiKey });
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await llm.client.chat.completions.create({
+      model: llm.models.vision,
       messages: [
         { role: 'system', content: `Analyze image for IP registration metadata. Return JSON: {description, suggestedTitle, detectedObjects[], style?, mood?}` },
         { role: 'user', content: [
@@ -1,16 +1,16 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
+import { getLlm, isLlmAvailable } from "@/lib/llm";
 
 export async function GET() {
   try {
-    const apiKey = process.env.OPENAI_API_KEY;
+    const llm = getLlm();
     
-    if (!apiKey) {
+    if (!llm) {
       return NextResponse.json({
         status: "error",
-        message: "OpenAI API key not configured",
+        message: "LLM provider not configured",
         checks: {
           apiKeyConfigured: false,
           openaiConnection: false,
@@ -19,13 +19,11 @@ export async function GET() {
       });
     }
 
-    // Test OpenAI connection
-    const openai = new OpenAI({ apiKey });
-    
+    // Test provider connection
     try {
       // Simple test call to check if API key works
-      const testResponse = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const testResponse = await llm.client.chat.completions.create({
+        model: llm.models.chat,
         messages: [{ role: "user", content: "Hello, respond with 'OK'" }],
         max_tokens: 10,
         temperature: 0
@@ -49,10 +47,9 @@ export async function GET() {
           "License Recommendations",
           "AI Learning Controls"
         ],
-        models: {
-          primary: "gpt-4o-mini",
-          fallback: "gpt-3.5-turbo"
-        }
+        provider: llm.name,
+        models: llm.models,
+        visionEnabled: isLlmAvailable("vision")
       });
 
     } catch (openaiError) {
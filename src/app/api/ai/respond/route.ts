@@ -1,28 +1,52 @@
 export const runtime = "nodejs";
 
-import OpenAI from "openai";
 import { NextResponse } from "next/server";
+import { getLlm, streamChat } from "@/lib/llm";
 
 export async function POST(req: Request) {
   try {
-    const { userMessage, context, intent } = await req.json();
+    const { userMessage, context, intent, stream } = await req.json();
     if (!userMessage || typeof userMessage !== 'string') {
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return NextResponse.json({ available: false }, { status: 200 });
+    const llm = getLlm();
+    if (!llm) return NextResponse.json({ available: false }, { status: 200 });
 
-    const openai = new OpenAI({ apiKey });
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const params = {
+      model: llm.models.chat,
       messages: [
-        { role: 'system', content: `You are SuperLee, a concise helpful assistant for a DeFi/IP platform. Context: ${context || ''}. Intent: ${intent || 'general'}.` },
-        { role: 'user', content: userMessage }
+        { role: 'system' as const, content: `You are SuperLee, a concise helpful assistant for a DeFi/IP platform. Context: ${context || ''}. Intent: ${intent || 'general'}.` },
+        { role: 'user' as const, content: userMessage }
       ],
       temperature: 0.7,
       max_tokens: 200,
-    });
+    };
+
+    // SSE: `data: {"delta"}` per token, then `data: {"done":true}` or `data: {"error"}`
+    if (stream) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (data: object) => {
+            try { controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`)); } catch {}
+          };
+          try {
+            for await (const delta of streamChat(llm, params, req.signal)) send({ delta });
+            send({ done: true });
+          } catch {
+            send({ error: 'ai-respond-failed' });
+          } finally {
+            try { controller.close(); } catch {}
+          }
+        },
+      });
+      return new Response(body, {
+        headers: { 'content-type': 'text/event-stream', 'cache-control': 'no-cache, no-transform', connection: 'keep-alive' },
+      });
+    }
+
+    const completion = await llm.client.chat.completions.create(params);
 
     const content = completion.choices[0]?.message?.content || '';
     return NextResponse.json({ ok: true, data: content });
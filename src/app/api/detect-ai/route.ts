@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { isLlmAvailable } from "@/lib/llm";
 import { AdvancedAIDetectionWithLearningControl } from "@/lib/ai-detection/AdvancedAIDetectionWithLearningControl";
 import { AdvancedAnalysisResult } from "@/types/ai-detection";
 
@@ -14,10 +15,9 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    if (!isLlmAvailable("vision")) {
       return NextResponse.json({
-        error: "OpenAI API key not configured"
+        error: "Vision model not configured"
       }, { status: 500 });
     }
 
@@ -1,15 +1,16 @@
 export const runtime = "nodejs";
 
-import OpenAI from 'openai';
 import crypto from 'node:crypto';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+import { getLlm } from '@/lib/llm';
 
 const IP_STATUS_CACHE_TTL_MS = Number.parseInt(process.env.IP_STATUS_CACHE_TTL_MS || '21600000', 10);
 const ipStatusCache = new Map<string, { ts: number; payload: any }>();
 
-const ALLOWED = new Set(["image/png", "image/jpeg", "image/webp"]);
+const ALLOWED_IMAGE = new Set(["image/png", "image/jpeg", "image/webp"]);
+// Documents (PDF text, markdown) are sent as extracted plain text; video as a frame
+const ALLOWED_TEXT = new Set(["text/plain", "text/markdown"]);
 const MAX_BYTES = 6 * 1024 * 1024; // 6MB
+const MAX_TEXT_CHARS = 20_000;
 
 function clip(s: string, max = 280) {
   return (s ?? "").replace(/\s+/g, " ").trim().slice(0, max);
@@ -52,9 +53,13 @@ export async function POST(req: Request) {
       try { for (const [k, v] of ((form as any).entries?.() || [])) { if (k === 'file' && v) { file = v as File; break; } } } catch {}
     }
     if (!file) return Response.json({ error: 'No file found.' }, { status: 400 });
-    if (!ALLOWED.has(file.type)) return Response.json({ error: 'File must be PNG/JPEG/WEBP.' }, { status: 415 });
+    const isText = ALLOWED_TEXT.has(file.type);
+    if (!isText && !ALLOWED_IMAGE.has(file.type)) return Response.json({ error: 'File must be PNG/JPEG/WEBP or plain text.' }, { status: 415 });
     if (file.size > MAX_BYTES) return Response.json({ error: 'File too big! Max 6MB.' }, { status: 413 });
 
+    const llm = getLlm(isText ? 'chat' : 'vision');
+    if (!llm) return Response.json({ error: isText ? 'Chat model not configured.' : 'Vision model not configured.' }, { status: 503 });
+
     const ab = await file.arrayBuffer();
     const buf = Buffer.from(ab);
     const hash = crypto.createHash('sha256').update(buf).digest('hex');
@@ -64,10 +69,10 @@ export async function POST(req: Request) {
       return Response.json(cached.payload);
     }
 
-    const dataUrl = `data:${file.type};base64,${buf.toString('base64')}`;
-
     const systemPrompt = [
-      'You are an IP compliance assistant. Decide if an image is safe to register as IP, whether it qualifies as fair use, and whether it is AI-generated.',
+      isText
+        ? 'You are an IP compliance assistant. Decide if a text work (story, poem, lyrics, article, script) is safe to register as IP, whether quoted material qualifies as fair use, and whether it is AI-generated.'
+        : 'You are an IP compliance assistant. Decide if an image is safe to register as IP, whether it qualifies as fair use, and whether it is AI-generated.',
       'Return ONLY a raw JSON object (no backticks, no markdown) with keys exactly:',
       '{',
       '  "status": "...",',
@@ -93,20 +98,26 @@ export async function POST(req: Request) {
       'Rules:',
       '- Be conservative by default. If unsure, set risk to "Medium" and tolerance to a cautionary message.',
       '- Only use tolerance starting with "Good to register" when you are confident and risk is "Low".',
-      '- Evaluate: logos/brands, copyrighted characters, watermarks, visible text, faces/identity, tracing/derivatives, NSFW/illegal.',
+      isText
+        ? '- Evaluate: reproduction of published works or lyrics (derivative_trace), protected characters (copyrighted_character), trademarks (logo_brand), real people (face_identity), NSFW/illegal. watermark and visible_text are always false.'
+        : '- Evaluate: logos/brands, copyrighted characters, watermarks, visible text, faces/identity, tracing/derivatives, NSFW/illegal.',
       '- Consider fair use categories. If incidental/background use is evident, set fair_use=true with brief reason.',
       '- For ai_generated, output boolean. ai_confidence is 0..1 (two decimals max).',
       '- Keep fields ≤ 280 chars. No extra fields, no prose, no code fences.'
     ].join('\n');
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const userContent = isText
+      ? `Analyze this text for IP safety, fair use, and AI-generation. Return only the JSON object.\n\n"""\n${buf.toString('utf8').slice(0, MAX_TEXT_CHARS)}\n"""`
+      : [
+          { type: 'text', text: 'Analyze for IP safety, fair use, and AI-generation. Return only the JSON object.' },
+          { type: 'image_url', image_url: { url: `data:${file.type};base64,${buf.toString('base64')}`, detail: 'low' } }
+        ];
+
+    const completion = await llm.client.chat.completions.create({
+      model: isText ? llm.models.chat : llm.models.vision,
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: [
-          { type: 'text', text: 'Analyze for IP safety, fair use, and AI-generation. Return only the JSON object.' },
-          { type: 'image_url', image_url: { url: dataUrl, detail: 'low' } }
-        ] as any }
+        { role: 'user', content: userContent as any }
       ],
       temperature: 0.1,
       top_p: 0,
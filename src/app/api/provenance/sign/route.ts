@@ -0,0 +1,81 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { isAddress, isHash } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { networkByChainId, networkPublicClient } from "@/lib/chains/networks";
+import { provenanceClaim, supportsProvenance, type ProvenanceSubject } from "@/lib/provenance";
+import { canonicalJson } from "@/lib/utils/crypto";
+import { nextMintIpId } from "@/lib/utils/registry";
+
+function signer() {
+  const key = process.env.PROVENANCE_SIGNING_KEY;
+  if (!key) return null;
+  return privateKeyToAccount((key.startsWith("0x") ? key : `0x${key}`) as `0x${string}`);
+}
+
+// Public address readers compare manifest signatures against
+export async function GET() {
+  return NextResponse.json({ signer: signer()?.address ?? null });
+}
+
+const isStrings = (v: unknown): v is string[] => Array.isArray(v) && v.every(x => typeof x === "string");
+
+// The creator's statement about the work, checked for shape only; the chain confirms it after the mint
+function readSubject(raw: any): Omit<ProvenanceSubject, "ip"> | null {
+  if (typeof raw?.title !== "string" || !Array.isArray(raw.creators) || !Array.isArray(raw.licenses)) return null;
+  const creators = raw.creators.filter((c: any) => typeof c?.name === "string" && typeof c?.address === "string" && isAddress(c.address));
+  const licenses = raw.licenses.filter((l: any) => typeof l?.title === "string" && isStrings(l.terms) && (l.licenseTermsId == null || typeof l.licenseTermsId === "string"));
+  if (!creators.length || creators.length !== raw.creators.length || licenses.length !== raw.licenses.length) return null;
+  const ai = raw.ai;
+  return {
+    title: raw.title,
+    creators: creators.map((c: any) => ({ name: c.name, address: c.address })),
+    licenses: licenses.map((l: any) => ({ ...(l.licenseTermsId ? { licenseTermsId: l.licenseTermsId } : {}), title: l.title, terms: l.terms })),
+    ai: typeof ai?.aiGenerated === "boolean"
+      ? { aiGenerated: ai.aiGenerated, ...(typeof ai.confidence === "number" ? { confidence: ai.confidence } : {}) }
+      : undefined,
+  };
+}
+
+/**
+ * Sign the provenance claim for the next mint into an SPG collection, before the media is
+ * uploaded, so the registered file itself carries it. The ipId is derived here from the chain;
+ * the rest is what the creator states, which verifyProofBundle holds against the registration.
+ */
+export async function POST(req: Request) {
+  try {
+    const account = signer();
+    if (!account) {
+      return NextResponse.json({ error: "Missing PROVENANCE_SIGNING_KEY" }, { status: 503 });
+    }
+
+    const body = (await req.json()) as { chainId?: number; spgNftContract?: string; mimeType?: string; contentHash?: string; subject?: unknown };
+    const { spgNftContract, mimeType, contentHash } = body;
+    if (typeof spgNftContract !== "string" || !isAddress(spgNftContract) || typeof contentHash !== "string" || !isHash(contentHash)) {
+      return NextResponse.json({ error: "spgNftContract and contentHash are required" }, { status: 400 });
+    }
+    if (typeof mimeType !== "string" || !supportsProvenance(mimeType)) {
+      return NextResponse.json({ error: `Provenance manifests cannot be embedded in ${mimeType || "this file type"}` }, { status: 400 });
+    }
+    const subject = readSubject(body.subject);
+    if (!subject) {
+      return NextResponse.json({ error: "subject needs a title, creators with addresses and license wording" }, { status: 400 });
+    }
+    const network = networkByChainId(body.chainId);
+    if (!network) {
+      return NextResponse.json({ error: `Unsupported chain ${body.chainId}` }, { status: 400 });
+    }
+
+    const { tokenId, ipId } = await nextMintIpId(networkPublicClient(network), spgNftContract, network);
+    const claim = provenanceClaim(
+      { ...subject, ip: { ipId, chainId: network.chain.id, tokenContract: spgNftContract, tokenId } },
+      { mimeType, contentHash },
+    );
+
+    const value = await account.signMessage({ message: canonicalJson(claim) });
+    return NextResponse.json({ manifest: { claim, signature: { alg: "eip191-secp256k1", signer: account.address, value } } }, { status: 200 });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.shortMessage || e?.message || String(e) }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 export const runtime = "nodejs";
 
-import OpenAI from "openai";
 import { NextResponse } from "next/server";
+import { getLlm } from "@/lib/llm";
 
 type Chunk = { id: string; text: string };
 
@@ -12,22 +12,20 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "No chunks provided" }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return NextResponse.json({ ok: false, error: "openai-not-configured" }, { status: 200 });
-
-    const openai = new OpenAI({ apiKey });
+    const llm = getLlm("embeddings");
+    if (!llm) return NextResponse.json({ ok: false, error: "openai-not-configured" }, { status: 200 });
 
     // Truncate text to a safe length per chunk
     const inputs = chunks.map((c) => (c.text || "").slice(0, 4000));
 
-    const emb = await openai.embeddings.create({
-      model: "text-embedding-3-small",
+    const emb = await llm.client.embeddings.create({
+      model: llm.models.embeddings,
       input: inputs,
     });
 
     const vectors = emb.data.map((d, i) => ({ id: chunks[i].id, text: inputs[i], embedding: d.embedding }));
 
-    return NextResponse.json({ ok: true, model: emb.model, created: emb.created, vectors });
+    return NextResponse.json({ ok: true, model: emb.model, created: Math.floor(Date.now() / 1000), vectors });
   } catch (e) {
     return NextResponse.json({ ok: false, error: "embed-failed" }, { status: 200 });
   }
@@ -1,10 +1,12 @@
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_NETWORK, NETWORKS, isNetworkKey } from "@/lib/chains/networks";
 
 export async function POST(req: NextRequest) {
   try {
-    const target = process.env.NEXT_PUBLIC_STORY_RPC || "https://aeneid.storyrpc.io";
+    const network = req.nextUrl.searchParams.get("network");
+    const target = NETWORKS[isNetworkKey(network) ? network : DEFAULT_NETWORK].rpcUrl;
     const body = await req.text();
     const r = await fetch(target, {
       method: "POST",
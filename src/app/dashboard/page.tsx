@@ -9,17 +9,20 @@ import {
   useSwitchChain,
 } from "wagmi";
 import { erc721Abi, parseAbiItem, createPublicClient, http } from "viem";
-import { storyAeneid } from "@/lib/chains/story";
+import { relayUrl } from "@/lib/chains/networks";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useSpgCollections } from "@/hooks/useSpgCollections";
+import { ipIdForToken } from "@/lib/license/derivative";
+import { IpLicensingPanel } from "@/components/IpLicensingPanel";
 
 type Item = {
   tokenId: string;
+  ipId?: `0x${string}` | null;
   tokenURI?: string;
   nftMeta?: any | null;
   ipMeta?: any | null;
 };
 
-const AENEID_ID = 1315;
-const SPG = process.env.NEXT_PUBLIC_SPG_COLLECTION as `0x${string}` | undefined;
 const START_BLOCK = BigInt(process.env.NEXT_PUBLIC_SPG_START_BLOCK ?? "0");
 
 // IERC165: ERC721Enumerable = 0x780e9d63
@@ -39,25 +42,29 @@ export default function DashboardPage() {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
   const { switchChainAsync, isPending: switching } = useSwitchChain();
-  const rpcClient = useMemo(() => createPublicClient({ chain: storyAeneid, transport: http('/api/rpc/relay') }), []);
+  // IPs are listed from the collection registrations mint into; switching it here switches it there
+  const { active: spg, collections, defaultCollection, select: selectCollection } = useSpgCollections();
+  const network = useNetwork();
+  const rpcClient = useMemo(() => createPublicClient({ chain: network.chain, transport: http(relayUrl(network.key)) }), [network]);
 
   const [loading, setLoading] = useState(false);
   const [items, setItems] = useState<Item[]>([]);
   const [query, setQuery] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isFullScan, setIsFullScan] = useState(false);
+  const [licensingFor, setLicensingFor] = useState<string | null>(null);
 
   const canQuery = useMemo(
-    () => Boolean(isConnected && SPG && address),
-    [isConnected, address]
+    () => Boolean(isConnected && spg && address),
+    [isConnected, address, spg]
   );
 
   // ---------- Fast path: ERC721Enumerable ----------
   async function tryEnumerableRoute(): Promise<string[] | null> {
-    if (!rpcClient || !SPG || !address) return null;
+    if (!rpcClient || !spg || !address) return null;
     try {
       const supports = (await rpcClient.readContract({
-        address: SPG,
+        address: spg,
         abi: [
           {
             type: "function",
@@ -74,7 +81,7 @@ export default function DashboardPage() {
       if (!supports) return null;
 
       const bal = (await rpcClient.readContract({
-        address: SPG,
+        address: spg,
         abi: erc721Abi,
         functionName: "balanceOf",
         args: [address as `0x${string}`],
@@ -85,7 +92,7 @@ export default function DashboardPage() {
       const tokenIds: string[] = [];
       for (let i = 0n; i < bal; i++) {
         const tid = (await rpcClient.readContract({
-          address: SPG,
+          address: spg,
           abi: [
             {
               type: "function",
@@ -112,7 +119,7 @@ export default function DashboardPage() {
 
   // ---------- Fallback: progressive log scan ----------
   async function fetchLogsProgressive(): Promise<string[]> {
-    if (!rpcClient || !SPG || !address) return [];
+    if (!rpcClient || !spg || !address) return [];
     const latest = await rpcClient.getBlockNumber();
 
     let range = 60_000n; // kecil → cepat tampil
@@ -123,7 +130,7 @@ export default function DashboardPage() {
     while (true) {
       const from = latest > range ? latest - range : 0n;
       const logs = await rpcClient.getLogs({
-        address: SPG,
+        address: spg,
         event: parseAbiItem(
           "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
         ),
@@ -145,7 +152,7 @@ export default function DashboardPage() {
 
   // ---------- Optional: full history scan ----------
   async function fetchLogsFull(): Promise<string[]> {
-    if (!rpcClient || !SPG || !address) return [];
+    if (!rpcClient || !spg || !address) return [];
     const latest = await rpcClient.getBlockNumber();
     const step = 75_000n;
     const tokenIds = new Set<string>();
@@ -153,7 +160,7 @@ export default function DashboardPage() {
     for (let from = START_BLOCK; from <= latest; from += step) {
       const to = from + step - 1n > latest ? latest : from + step - 1n;
       const logs = await rpcClient.getLogs({
-        address: SPG,
+        address: spg,
         event: parseAbiItem(
           "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
         ),
@@ -170,13 +177,13 @@ export default function DashboardPage() {
   }
 
   async function buildItems(tokenIds: string[]) {
-    if (!rpcClient || !SPG) return [];
+    if (!rpcClient || !spg) return [];
     const results: Item[] = await Promise.all(
       tokenIds.map(async (id) => {
         let tokenURI: string | undefined;
         try {
           tokenURI = (await rpcClient.readContract({
-            address: SPG,
+            address: spg,
             abi: erc721Abi,
             functionName: "tokenURI",
             args: [BigInt(id)],
@@ -207,7 +214,9 @@ export default function DashboardPage() {
           } catch {}
         }
 
-        return { tokenId: id, tokenURI, nftMeta, ipMeta };
+        const ipId = await ipIdForToken(rpcClient, spg, id);
+
+        return { tokenId: id, ipId, tokenURI, nftMeta, ipMeta };
       })
     );
     return results;
@@ -239,12 +248,12 @@ export default function DashboardPage() {
     }
     if (canQuery) loadData(false);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [canQuery]);
+  }, [canQuery, spg, network]);
 
-  async function ensureAeneid() {
-    if (chainId !== AENEID_ID) {
+  async function ensureNetwork() {
+    if (chainId !== network.chain.id) {
       try {
-        await switchChainAsync({ chainId: AENEID_ID });
+        await switchChainAsync({ chainId: network.chain.id });
         // reload after switch
         setTimeout(() => loadData(isFullScan), 300);
       } catch (e: any) {
@@ -278,13 +287,13 @@ export default function DashboardPage() {
           </button>
         </div>
 
-        {chainId !== AENEID_ID && (
+        {chainId !== network.chain.id && (
           <button
-            onClick={ensureAeneid}
+            onClick={ensureNetwork}
             disabled={switching}
             className="rounded-full bg-sky-500/90 hover:bg-sky-400 text-white px-3 py-1 text-sm disabled:opacity-60"
           >
-            {switching ? "Switching…" : "Switch to Aeneid"}
+            {switching ? "Switching…" : `Switch to ${network.name}`}
           </button>
         )}
       </div>
@@ -292,27 +301,31 @@ export default function DashboardPage() {
       {/* HEADER PANEL */}
       <div className="card">
         <h2 className="text-lg font-semibold">My Registered IP</h2>
-        <p className="text-sm opacity-70">
-          Collection:{" "}
-          <code className="opacity-90">
-            {SPG || "(set NEXT_PUBLIC_SPG_COLLECTION)"}
-          </code>
-        </p>
+        <label className="text-sm opacity-70 flex items-center gap-2">
+          Collection:
+          <select
+            className="bg-transparent border border-white/20 rounded px-2 py-1 font-mono text-xs opacity-90"
+            value={spg}
+            onChange={(e) => selectCollection(e.target.value as `0x${string}`)}
+          >
+            <option value={defaultCollection}>{defaultCollection} (default)</option>
+            {collections.map((c) => (
+              <option key={c.address} value={c.address}>
+                {c.name} · {c.symbol} — {c.address}
+              </option>
+            ))}
+          </select>
+        </label>
       </div>
 
       {!isConnected && (
         <div className="card">Connect wallet to see registered IP.</div>
       )}
-      {!SPG && (
-        <div className="card">
-          Set <code>NEXT_PUBLIC_SPG_COLLECTION</code> di <code>.env.local</code>.
-        </div>
-      )}
-      {isConnected && SPG && chainId !== AENEID_ID && (
+      {isConnected && spg && chainId !== network.chain.id && (
         <div className="card">
-          You are not currently in the Aeneid. Click{" "}
-          <button onClick={ensureAeneid} className="underline hover:opacity-80">
-            Switch to Aeneid
+          You are not currently on {network.name}. Click{" "}
+          <button onClick={ensureNetwork} className="underline hover:opacity-80">
+            Switch to {network.name}
           </button>{" "}
           then refresh.
         </div>
@@ -320,7 +333,7 @@ export default function DashboardPage() {
 
       {loading && <div className="card">Loading...</div>}
       {error && <div className="card text-red-400">{error}</div>}
-      {!loading && isConnected && SPG && items.length === 0 && (
+      {!loading && isConnected && spg && items.length === 0 && (
         <div className="card">
           There are no registered IPs yet.
           <div className="mt-2 text-xs opacity-70">
@@ -405,7 +418,19 @@ export default function DashboardPage() {
                     IP image
                   </a>
                 )}
+                {it.ipId && (
+                  <button
+                    className="ml-auto text-xs underline opacity-80 hover:opacity-100"
+                    onClick={() => setLicensingFor(licensingFor === it.tokenId ? null : it.tokenId)}
+                  >
+                    {licensingFor === it.tokenId ? "Hide licenses" : "License terms"}
+                  </button>
+                )}
               </div>
+
+              {it.ipId && licensingFor === it.tokenId && (
+                <IpLicensingPanel ipId={it.ipId} />
+              )}
             </div>
           );
         })}
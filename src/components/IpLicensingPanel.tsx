@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useState } from "react";
+import { formatEther, parseEther } from "viem";
+import { RefreshCw, Plus } from "lucide-react";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+import { useIpLicensing } from "@/hooks/useIpLicensing";
+import CustomLicenseTermsSelector from "@/components/CustomLicenseTermsSelector";
+import {
+  DEFAULT_LICENSE_SETTINGS,
+  LICENSE_DESCRIPTIONS,
+  createLicenseTerms,
+  isCommercialLicense,
+  type LicenseType,
+} from "@/lib/license/terms";
+import type { AttachedTerms } from "@/lib/license/attached";
+
+interface IpLicensingPanelProps {
+  ipId: `0x${string}`;
+}
+
+const inputClass = "bg-transparent border border-white/20 rounded p-2 disabled:opacity-50 min-w-0";
+const buttonClass = "rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5 disabled:opacity-50";
+
+const fee = (wei: bigint) => (wei === 0n ? "0" : formatEther(wei));
+
+function TermsRow({ terms, busy, onSave }: {
+  terms: AttachedTerms;
+  busy: boolean;
+  onSave: (patch: { mintingFee: bigint; commercialRevShare: number; disabled: boolean }) => Promise<unknown>;
+}) {
+  const { t } = useI18n();
+  const effectiveFee = terms.config?.mintingFee ?? terms.defaultMintingFee;
+  const effectiveRevShare = terms.config?.commercialRevShare ?? terms.commercialRevShare;
+  const disabled = !!terms.config?.disabled;
+  const [editing, setEditing] = useState(false);
+  const [mintingFee, setMintingFee] = useState(fee(effectiveFee));
+  const [revShare, setRevShare] = useState(effectiveRevShare);
+  const [off, setOff] = useState(disabled);
+
+  const validFee = /^\d*\.?\d*$/.test(mintingFee.trim() || "0");
+  const save = async () => {
+    try {
+      await onSave({ mintingFee: parseEther(mintingFee.trim() || "0"), commercialRevShare: revShare, disabled: off });
+      setEditing(false);
+    } catch {
+      // the hook already surfaces the error
+    }
+  };
+
+  return (
+    <div className={`rounded-xl border border-white/10 bg-white/5 p-3 text-sm space-y-2 ${disabled ? "opacity-60" : ""}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <span className="font-medium">#{terms.licenseTermsId.toString()}</span>{" "}
+          <span className="opacity-80">
+            {terms.commercialUse ? t("licensing.commercial") : t("licensing.nonCommercial")}
+            {" · "}
+            {terms.derivativesAllowed ? t("licensing.remixAllowed") : t("licensing.noRemix")}
+          </span>
+        </div>
+        <button className={buttonClass} disabled={busy} onClick={() => setEditing(v => !v)}>
+          {t("licensing.configure")}
+        </button>
+      </div>
+      <div className="text-xs opacity-70">
+        {t("licensing.summary", {
+          fee: effectiveFee === 0n ? t("licensing.free") : `${fee(effectiveFee)} WIP`,
+          revShare: effectiveRevShare,
+        })}
+        {terms.config ? ` · ${t("licensing.overridden")}` : ""}
+        {disabled ? ` · ${t("licensing.disabled")}` : ""}
+      </div>
+
+      {editing && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1 text-xs">
+            {t("licensing.mintingFee")}
+            <input className={inputClass} value={mintingFee} disabled={busy} onChange={(e) => setMintingFee(e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            {t("licensing.revShare")}
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className={inputClass}
+              value={revShare}
+              disabled={busy || !terms.commercialUse}
+              onChange={(e) => setRevShare(Math.min(100, Math.max(0, Number(e.target.value))))}
+            />
+          </label>
+          <label className="col-span-2 flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={off} disabled={busy} onChange={(e) => setOff(e.target.checked)} />
+            {t("licensing.disable")}
+          </label>
+          <button
+            className="col-span-2 rounded-lg bg-sky-500/90 hover:bg-sky-400 text-white px-3 py-1.5 text-xs disabled:opacity-50"
+            disabled={busy || !validFee}
+            onClick={save}
+          >
+            {busy ? t("licensing.signing") : t("licensing.saveConfig")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function IpLicensingPanel({ ipId }: IpLicensingPanelProps) {
+  const { t } = useI18n();
+  const { attached, loading, busy, error, refresh, attachTerms, setConfig } = useIpLicensing(ipId);
+  const [pilType, setPilType] = useState<LicenseType>("non_commercial_remix");
+  const [price, setPrice] = useState(0);
+  const [revShare, setRevShare] = useState(10);
+  const [showCustom, setShowCustom] = useState(false);
+
+  const commercial = isCommercialLicense(pilType);
+  const attachPreset = () =>
+    attachTerms(
+      createLicenseTerms({
+        ...DEFAULT_LICENSE_SETTINGS,
+        pilType,
+        commercialUse: commercial,
+        derivativesAllowed: pilType !== "commercial_use",
+        revShare: pilType === "commercial_remix" ? revShare : 0,
+        licensePrice: commercial ? price : 0,
+      }),
+    ).catch(() => {});
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">{t("licensing.title", { count: attached.length })}</div>
+        <button className={buttonClass} disabled={loading || busy} onClick={refresh} title={t("licensing.refresh")}>
+          <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {loading && attached.length === 0 && <div className="text-xs opacity-70">{t("licensing.loading")}</div>}
+      {!loading && attached.length === 0 && <div className="text-xs opacity-70">{t("licensing.none")}</div>}
+      {attached.map(terms => (
+        <TermsRow
+          key={terms.licenseTermsId.toString()}
+          terms={terms}
+          busy={busy}
+          onSave={(patch) => setConfig(terms.licenseTermsId, patch)}
+        />
+      ))}
+
+      <div className="rounded-xl border border-white/10 p-3 space-y-2 text-sm">
+        <div className="font-medium">{t("licensing.addTitle")}</div>
+        <div className="grid grid-cols-3 gap-2">
+          <select
+            className={`${inputClass} col-span-3`}
+            value={pilType}
+            disabled={busy}
+            onChange={(e) => setPilType(e.target.value as LicenseType)}
+          >
+            {(Object.keys(LICENSE_DESCRIPTIONS) as LicenseType[]).map(type => (
+              <option key={type} value={type}>{LICENSE_DESCRIPTIONS[type].title}</option>
+            ))}
+          </select>
+          {commercial && (
+            <label className="flex flex-col gap-1 text-xs">
+              {t("licensing.mintingFee")}
+              <input type="number" min={0} step={0.01} className={inputClass} value={price} disabled={busy} onChange={(e) => setPrice(Number(e.target.value))} />
+            </label>
+          )}
+          {pilType === "commercial_remix" && (
+            <label className="flex flex-col gap-1 text-xs">
+              {t("licensing.revShare")}
+              <input type="number" min={0} max={100} className={inputClass} value={revShare} disabled={busy} onChange={(e) => setRevShare(Number(e.target.value))} />
+            </label>
+          )}
+        </div>
+        <div className="text-xs opacity-70">{LICENSE_DESCRIPTIONS[pilType].description}</div>
+        <div className="flex gap-2">
+          <button
+            className="inline-flex items-center gap-1 rounded-lg bg-sky-500/90 hover:bg-sky-400 text-white px-3 py-1.5 text-xs disabled:opacity-50"
+            disabled={busy || price < 0 || revShare < 0 || revShare > 100}
+            onClick={attachPreset}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {busy ? t("licensing.signing") : t("licensing.attach")}
+          </button>
+          <button className={buttonClass} disabled={busy} onClick={() => setShowCustom(true)}>
+            {t("licensing.custom")}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-300">{error}</div>}
+
+      {showCustom && (
+        <CustomLicenseTermsSelector
+          onSubmit={(data) => {
+            setShowCustom(false);
+            attachTerms(data).catch(() => {});
+          }}
+          onClose={() => setShowCustom(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { NETWORKS, setNetwork, type NetworkKey } from "@/lib/chains/networks";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+
+export default function NetworkSwitcher() {
+  const { t } = useI18n();
+  const network = useNetwork();
+  return (
+    <select
+      value={network.key}
+      onChange={(e) => setNetwork(e.target.value as NetworkKey)}
+      title={t("network.title")}
+      className={`rounded-full border px-3 py-1 text-xs bg-white/10 hover:bg-white/15 ${network.testnet ? "border-white/15" : "border-emerald-400/40 text-emerald-200"}`}
+    >
+      {Object.values(NETWORKS).map((n) => (
+        <option key={n.key} value={n.key} className="text-black">
+          {n.name}{n.testnet ? ` (${t("network.testnet")})` : ""}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -6,10 +6,8 @@ import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { useAccount, useBalance, useReadContract } from "wagmi";
 import { erc721Abi } from "@/lib/abi/erc721";
 import ThemeToggle from "@/components/ThemeToggle";
-
-const SPG_COLLECTION =
-  (process.env.NEXT_PUBLIC_SPG_COLLECTION as `0x${string}`) ||
-  "0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc";
+import NetworkSwitcher from "@/components/NetworkSwitcher";
+import { useSpgCollections } from "@/hooks/useSpgCollections";
 
 function Chip({ children }: { children: React.ReactNode }) {
   return (
@@ -42,6 +40,7 @@ function ChipLink({
 
 export default function Topbar() {
   const { address, isConnected } = useAccount();
+  const { active: spgCollection } = useSpgCollections();
 
   const { data: nativeBal } = useBalance({
     address,
@@ -50,7 +49,7 @@ export default function Topbar() {
 
   const { data: ipCount } = useReadContract({
     abi: erc721Abi,
-    address: SPG_COLLECTION,
+    address: spgCollection,
     functionName: "balanceOf",
     args: address ? [address] : undefined,
     query: { enabled: isConnected && !!address },
@@ -84,6 +83,7 @@ export default function Topbar() {
             </>
           )}
 
+          <NetworkSwitcher />
           <ThemeToggle />
           <ConnectButton />
         </div>
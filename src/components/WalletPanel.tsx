@@ -1,26 +1,22 @@
 "use client";
 import { useEffect, useState } from "react";
 import { useAccount } from "wagmi";
-import { formatUnits, createPublicClient, http } from "viem";
-import { storyAeneid } from "@/lib/chains/story";
+import { formatUnits } from "viem";
+import { networkPublicClient } from "@/lib/chains/networks";
 import { erc20Abi } from "@/lib/abi/erc20";
 import { erc721Abi } from "@/lib/abi/erc721";
 import { WIP } from "@/lib/piperx";
+import { getTokenMeta } from "@/lib/tokenlist";
+import { useSpgCollections } from "@/hooks/useSpgCollections";
 
-const SPG_COLLECTION =
-  (process.env.NEXT_PUBLIC_SPG_COLLECTION as `0x${string}`) ||
-  "0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc";
-
-const publicClient = createPublicClient({
-  chain: storyAeneid,
-  transport: http(process.env.NEXT_PUBLIC_STORY_RPC),
-});
+const publicClient = networkPublicClient();
 
 export default function WalletPanel() {
   const { isConnected, address } = useAccount();
   const [ipBalance, setIpBalance] = useState<string>("-");
   const [wipBalance, setWipBalance] = useState<string>("-");
   const [ipCount, setIpCount] = useState<string>("-");
+  const { active: spgCollection } = useSpgCollections();
 
   useEffect(() => {
     if (!isConnected || !address) return;
@@ -31,12 +27,8 @@ export default function WalletPanel() {
       setIpBalance(formatUnits(nativeBal, 18));
 
       // WIP (ERC-20)
-      const [decimals, wRaw] = await Promise.all([
-        publicClient.readContract({
-          address: WIP,
-          abi: erc20Abi,
-          functionName: "decimals",
-        }) as Promise<number>,
+      const [meta, wRaw] = await Promise.all([
+        getTokenMeta(WIP),
         publicClient.readContract({
           address: WIP,
           abi: erc20Abi,
@@ -44,11 +36,11 @@ export default function WalletPanel() {
           args: [address],
         }) as Promise<bigint>,
       ]);
-      setWipBalance(formatUnits(wRaw, Number(decimals)));
+      setWipBalance(formatUnits(wRaw, meta.decimals));
 
-      // Total IP (jumlah NFT di koleksi SPG)
+      // Total IP (jumlah NFT di koleksi SPG aktif)
       const count = (await publicClient.readContract({
-        address: SPG_COLLECTION,
+        address: spgCollection,
         abi: erc721Abi,
         functionName: "balanceOf",
         args: [address],
@@ -56,7 +48,7 @@ export default function WalletPanel() {
 
       setIpCount(count.toString());
     })();
-  }, [isConnected, address]);
+  }, [isConnected, address, spgCollection]);
 
   if (!isConnected) return null;
 
@@ -0,0 +1,227 @@
+import React, { useState } from "react";
+import { Check, X, RotateCcw, SkipForward, Trash2, Loader2 } from "lucide-react";
+import type { BatchItem, RegisterState } from "@/types/agents";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+import { statusText } from "./PlanBox.local";
+
+interface BatchPlanBoxProps {
+  items: BatchItem[];
+  running: boolean;
+  activeId: string | null;
+  activeState?: RegisterState;
+  onChange: (id: string, patch: Partial<BatchItem>) => void;
+  onApplyToAll: (patch: Partial<Pick<BatchItem, 'pilType' | 'revShare' | 'licensePrice' | 'description'>>) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onCancel: () => void;
+  onRetry: (id: string) => void;
+  onSkip: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_STYLE: Record<BatchItem['status'], string> = {
+  analyzing: 'text-white/60',
+  ready: 'text-sky-300',
+  duplicate: 'text-amber-300',
+  registering: 'text-sky-300',
+  success: 'text-emerald-300',
+  error: 'text-red-300',
+  skipped: 'text-white/40',
+};
+
+export function BatchPlanBox({ items, running, activeId, activeState, onChange, onApplyToAll, onStart, onStop, onCancel, onRetry, onSkip, onRemove }: BatchPlanBoxProps) {
+  const { t } = useI18n();
+  const [bulk, setBulk] = useState<{ pilType: 'open_use' | 'commercial_remix'; revShare: number; licensePrice: number }>({
+    pilType: 'commercial_remix',
+    revShare: 0,
+    licensePrice: 0,
+  });
+
+  const readyCount = items.filter(it => it.status === 'ready').length;
+  const doneCount = items.filter(it => ['success', 'error', 'skipped', 'duplicate'].includes(it.status)).length;
+  const analyzing = items.some(it => it.status === 'analyzing');
+  const locked = (it: BatchItem) => running || it.status === 'registering' || it.status === 'success';
+
+  return (
+    <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <div className="font-medium">{t('batch.title')} ({items.length})</div>
+        <div className="text-xs opacity-70">{doneCount}/{items.length} {t('batch.done')}</div>
+      </div>
+
+      {/* Apply to all */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 text-xs items-end">
+        <label className="flex flex-col gap-1">
+          {t('planBox.licenseType')}
+          <select
+            className="bg-transparent border border-white/20 rounded p-2"
+            value={bulk.pilType}
+            onChange={(e) => setBulk(b => ({ ...b, pilType: e.target.value as any }))}
+          >
+            <option value="open_use">{t('license.option.openUse')}</option>
+            <option value="commercial_remix">{t('license.option.commercialRemix')}</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          {t('planBox.revShare')}
+          <input
+            type="number" min={0} max={100} step={1}
+            className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+            value={bulk.revShare}
+            disabled={bulk.pilType !== 'commercial_remix'}
+            onChange={(e) => setBulk(b => ({ ...b, revShare: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          {t('planBox.licenseFee')}
+          <input
+            type="number" min={0} step={0.0001}
+            className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+            value={bulk.licensePrice}
+            disabled={bulk.pilType !== 'commercial_remix'}
+            onChange={(e) => setBulk(b => ({ ...b, licensePrice: Number(e.target.value) }))}
+          />
+        </label>
+        <button
+          className="rounded-xl border border-white/15 px-3 py-2 hover:bg-white/5 disabled:opacity-50"
+          disabled={running}
+          onClick={() => onApplyToAll(bulk)}
+        >
+          {t('batch.applyAll')}
+        </button>
+      </div>
+
+      {/* Items */}
+      <div className="space-y-2 max-h-[420px] overflow-y-auto scrollbar-invisible">
+        {items.map((it) => {
+          const isActive = it.id === activeId;
+          const progress = isActive ? activeState?.progress ?? 0 : it.status === 'success' ? 100 : 0;
+          return (
+            <div key={it.id} className="rounded-xl border border-white/10 bg-white/5 p-3 text-sm space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="truncate text-xs opacity-70">{it.file.name}</div>
+                <div className={`text-xs inline-flex items-center gap-1 ${STATUS_STYLE[it.status]}`}>
+                  {(it.status === 'analyzing' || it.status === 'registering') && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {isActive && activeState ? statusText(t, activeState.status) : t(`batch.status.${it.status}`)}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <input
+                  className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+                  placeholder={t('plan.name')}
+                  value={it.title}
+                  disabled={locked(it)}
+                  onChange={(e) => onChange(it.id, { title: e.target.value })}
+                />
+                <input
+                  className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+                  placeholder={t('plan.description')}
+                  value={it.description}
+                  disabled={locked(it)}
+                  onChange={(e) => onChange(it.id, { description: e.target.value })}
+                />
+                <select
+                  className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+                  value={it.pilType}
+                  disabled={locked(it)}
+                  onChange={(e) => onChange(it.id, { pilType: e.target.value as any })}
+                >
+                  <option value="open_use">{t('license.option.openUse')}</option>
+                  <option value="commercial_remix">{t('license.option.commercialRemix')}</option>
+                </select>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number" min={0} max={100} step={1}
+                    className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+                    title={t('planBox.revShare')}
+                    value={it.revShare}
+                    disabled={locked(it) || it.pilType !== 'commercial_remix'}
+                    onChange={(e) => onChange(it.id, { revShare: Number(e.target.value) })}
+                  />
+                  <input
+                    type="number" min={0} step={0.0001}
+                    className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+                    title={t('planBox.licenseFee')}
+                    value={it.licensePrice}
+                    disabled={locked(it) || it.pilType !== 'commercial_remix'}
+                    onChange={(e) => onChange(it.id, { licensePrice: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              {(isActive || it.status === 'success') && (
+                <div className="w-full bg-white/10 rounded-full h-1.5">
+                  <div className="bg-sky-400 h-1.5 rounded-full transition-all duration-300 ease-out" style={{ width: `${progress}%` }} />
+                </div>
+              )}
+
+              {it.status === 'duplicate' && (
+                <div className="text-xs text-amber-300">{t('batch.duplicate')}{it.duplicateTokenId ? ` (${t('batch.tokenId', { id: it.duplicateTokenId })})` : ''}</div>
+              )}
+              {it.status === 'error' && it.error && (
+                <div className="text-xs text-red-300 break-words">{t('planBox.error')} {it.error}</div>
+              )}
+              {it.status === 'success' && it.ipId && (
+                <div className="text-xs text-emerald-300 break-all">{t('batch.ipId', { ipId: it.ipId })}</div>
+              )}
+
+              <div className="flex gap-2">
+                {it.status === 'error' && (
+                  <button className="text-xs inline-flex items-center gap-1 rounded-lg border border-white/15 px-2 py-1 hover:bg-white/5 disabled:opacity-50" disabled={running} onClick={() => onRetry(it.id)}>
+                    <RotateCcw className="h-3 w-3" /> {t('batch.retry')}
+                  </button>
+                )}
+                {(it.status === 'ready' || it.status === 'error') && (
+                  <button className="text-xs inline-flex items-center gap-1 rounded-lg border border-white/15 px-2 py-1 hover:bg-white/5" onClick={() => onSkip(it.id)}>
+                    <SkipForward className="h-3 w-3" /> {t('batch.skip')}
+                  </button>
+                )}
+                {it.status === 'skipped' && (
+                  <button className="text-xs inline-flex items-center gap-1 rounded-lg border border-white/15 px-2 py-1 hover:bg-white/5" onClick={() => onChange(it.id, { status: 'ready' })}>
+                    <RotateCcw className="h-3 w-3" /> {t('batch.unskip')}
+                  </button>
+                )}
+                {!locked(it) && (
+                  <button className="text-xs inline-flex items-center gap-1 rounded-lg border border-white/15 px-2 py-1 hover:bg-white/5" onClick={() => onRemove(it.id)}>
+                    <Trash2 className="h-3 w-3" /> {t('batch.remove')}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Action buttons */}
+      <div className="flex gap-2">
+        {running ? (
+          <button
+            className="rounded-2xl border border-white/10 px-4 py-2 inline-flex items-center gap-2 hover:bg-white/5"
+            onClick={onStop}
+          >
+            <X className="h-4 w-4" />
+            {t('batch.stop')}
+          </button>
+        ) : (
+          <button
+            className="rounded-2xl bg-sky-500/90 hover:bg-sky-400 text-white px-4 py-2 inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={onStart}
+            disabled={readyCount === 0 || analyzing}
+          >
+            <Check className="h-4 w-4" />
+            {t('batch.start')} ({readyCount})
+          </button>
+        )}
+        <button
+          className="rounded-2xl border border-white/10 px-4 py-2 inline-flex items-center gap-2 hover:bg-white/5 disabled:opacity-50"
+          onClick={onCancel}
+          disabled={running}
+        >
+          <X className="h-4 w-4" />
+          {t('planBox.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
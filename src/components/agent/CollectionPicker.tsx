@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import { Plus } from "lucide-react";
+import { formatEther } from "viem";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+import { useSpgCollections } from "@/hooks/useSpgCollections";
+
+interface CollectionPickerProps {
+  disabled?: boolean;
+}
+
+const short = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+export function CollectionPicker({ disabled }: CollectionPickerProps) {
+  const { t } = useI18n();
+  const { collections, active, defaultCollection, hasDefault, creating, select, create } = useSpgCollections();
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [mintFee, setMintFee] = useState(0);
+  const [publicMinting, setPublicMinting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputClass = "bg-transparent border border-white/20 rounded p-2 disabled:opacity-50 min-w-0";
+  const canCreate = !!name.trim() && /^[A-Za-z0-9]{1,10}$/.test(symbol.trim()) && mintFee >= 0;
+
+  const submit = async () => {
+    setError(null);
+    try {
+      await create({ name, symbol, mintFee, publicMinting });
+      setShowForm(false);
+      setName(""); setSymbol(""); setMintFee(0); setPublicMinting(false);
+    } catch (e: any) {
+      setError(e?.shortMessage || e?.message || String(e));
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <label className="flex flex-col gap-1">
+        {t("collections.label")}
+        <div className="flex gap-2">
+          <select
+            className="flex-1 bg-transparent border border-white/20 rounded p-2 disabled:opacity-50 min-w-0"
+            value={active}
+            disabled={disabled || creating}
+            onChange={(e) => select(e.target.value as `0x${string}`)}
+          >
+            {hasDefault
+              ? <option value={defaultCollection}>{t("collections.default")} ({short(defaultCollection)})</option>
+              : <option value={defaultCollection} disabled>{t("collections.noDefault")}</option>}
+            {collections.map(c => (
+              <option key={c.address} value={c.address}>
+                {c.name} · {c.symbol} ({short(c.address)})
+                {c.mintFee !== "0" ? ` · ${formatEther(BigInt(c.mintFee))} WIP` : ""}
+              </option>
+            ))}
+          </select>
+          <button
+            className="inline-flex items-center gap-1 rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5 disabled:opacity-50"
+            disabled={disabled || creating}
+            onClick={() => setShowForm(v => !v)}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t("collections.new")}
+          </button>
+        </div>
+      </label>
+
+      {showForm && (
+        <div className="rounded-xl border border-white/10 bg-white/5 p-3 space-y-2">
+          <div className="grid grid-cols-[1fr,6rem,6rem] gap-2">
+            <input className={inputClass} placeholder={t("collections.name")} value={name} disabled={creating} onChange={(e) => setName(e.target.value)} />
+            <input className={`${inputClass} uppercase`} placeholder={t("collections.symbol")} value={symbol} disabled={creating} onChange={(e) => setSymbol(e.target.value)} />
+            <input
+              type="number"
+              className={inputClass}
+              min={0}
+              step={0.01}
+              title={t("collections.mintFee")}
+              value={mintFee}
+              disabled={creating}
+              onChange={(e) => setMintFee(Number(e.target.value))}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={publicMinting} disabled={creating} onChange={(e) => setPublicMinting(e.target.checked)} />
+            {t("collections.publicMinting")}
+          </label>
+          <div className="text-xs opacity-70">{t("collections.mintFeeHint")}</div>
+          {error && <div className="text-xs text-red-300">{error}</div>}
+          <button
+            className="rounded-lg bg-sky-500/90 hover:bg-sky-400 text-white px-3 py-1.5 text-xs disabled:opacity-50"
+            disabled={!canCreate || creating}
+            onClick={submit}
+          >
+            {creating ? t("collections.creating") : t("collections.create")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
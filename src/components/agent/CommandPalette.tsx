@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Command, CornerDownLeft } from "lucide-react";
+import { COMMANDS, commandUsage, getCommand } from "@/lib/agent/commands";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  // full command text, e.g. "/status 0x…"; runs exactly as if typed in the chat
+  onRun: (command: string) => void;
+};
+
+export default function CommandPalette({ open, onClose, onRun }: Props) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setSelected(0);
+    const timer = setTimeout(() => inputRef.current?.focus(), 0);
+    return () => clearTimeout(timer);
+  }, [open]);
+
+  // "search cats" → the search command with its argument; otherwise filter the list
+  const { spec, arg, matches } = useMemo(() => {
+    const text = query.replace(/^\//, "");
+    const [word, ...rest] = text.split(/\s+/);
+    const exact = rest.length > 0 ? getCommand(word) : undefined;
+    if (exact) return { spec: exact, arg: rest.join(" ").trim(), matches: [exact] };
+    const q = text.trim().toLowerCase();
+    const list = COMMANDS.filter(c => !q || c.name.includes(q) || t(c.descKey).toLowerCase().includes(q));
+    return { spec: undefined, arg: "", matches: list };
+  }, [query, t]);
+
+  if (!open) return null;
+
+  const choose = (index: number) => {
+    const command = spec || matches[index];
+    if (!command) return;
+    // Commands that need an argument ask for it in the same input first
+    if (command.arg?.required && !arg) {
+      setQuery(`/${command.name} `);
+      inputRef.current?.focus();
+      return;
+    }
+    onRun(arg ? `/${command.name} ${arg}` : `/${command.name}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center p-4 pt-[15vh]">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-lg rounded-2xl border border-white/10 bg-slate-900/95 shadow-xl overflow-hidden">
+        <div className="flex items-center gap-2 border-b border-white/10 px-3">
+          <Command className="h-4 w-4 text-white/50" />
+          <input
+            ref={inputRef}
+            className="flex-1 bg-transparent py-3 text-sm text-white placeholder:text-white/40 focus:outline-none"
+            placeholder={t("commands.palettePlaceholder")}
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setSelected(0); }}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") { e.preventDefault(); onClose(); }
+              if (e.key === "ArrowDown") { e.preventDefault(); setSelected(i => Math.min(i + 1, matches.length - 1)); }
+              if (e.key === "ArrowUp") { e.preventDefault(); setSelected(i => Math.max(i - 1, 0)); }
+              if (e.key === "Enter") { e.preventDefault(); choose(selected); }
+            }}
+          />
+          <kbd className="text-[10px] text-white/40 border border-white/15 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+        <ul className="max-h-72 overflow-y-auto py-1">
+          {matches.length === 0 && (
+            <li className="px-3 py-2 text-sm text-white/50">{t("commands.noMatch")}</li>
+          )}
+          {matches.map((c, i) => (
+            <li key={c.name}>
+              <button
+                className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm ${i === selected ? "bg-sky-500/20 text-white" : "text-white/80 hover:bg-white/5"}`}
+                onMouseEnter={() => setSelected(i)}
+                onClick={() => choose(i)}
+              >
+                <span>
+                  <span className="font-mono text-sky-300">{commandUsage(c, t)}</span>
+                  <span className="ml-2 text-white/60">{t(c.descKey)}</span>
+                </span>
+                {i === selected && <CornerDownLeft className="h-3.5 w-3.5 text-white/40 shrink-0" />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
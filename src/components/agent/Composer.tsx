@@ -1,7 +1,10 @@
 import React, { useRef, useEffect, useState } from "react";
 import Image from "next/image";
 import { useAccount } from "wagmi";
-import { Send, X, Image as ImageIcon, Smile } from "lucide-react";
+import { Send, X, Image as ImageIcon, Smile, Music, Film, FileText } from "lucide-react";
+import { isSupportedMedia, mediaKindOf } from "@/lib/utils/media";
+import { commandUsage, getCommand, matchCommands, type CommandSpec } from "@/lib/agent/commands";
+import { useI18n } from "@/lib/i18n/I18nProvider";
 
 interface ComposerProps {
   onSubmit: (prompt: string) => void;
@@ -9,6 +12,9 @@ interface ComposerProps {
   file?: File | null;
   onFileSelect?: (file: File) => void;
   onFileRemove?: () => void;
+  onFilesSelect?: (files: File[]) => void;
+  queuedFiles?: { id: string; name: string }[];
+  onQueueRemove?: (id: string) => void;
   previewUrl?: string | null;
   isTyping?: boolean;
   awaitingInput?: string | null;
@@ -23,13 +29,19 @@ export function Composer({
   file,
   onFileSelect,
   onFileRemove,
+  onFilesSelect,
+  queuedFiles,
+  onQueueRemove,
   previewUrl,
   isTyping,
   awaitingInput,
   messages
 }: ComposerProps) {
   const { isConnected } = useAccount();
+  const { t } = useI18n();
   const [prompt, setPrompt] = useState("");
+  const [selectedCommand, setSelectedCommand] = useState(0);
+  const [commandsDismissed, setCommandsDismissed] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -109,6 +121,20 @@ export function Composer({
   };
 
 
+  // Slash command autocomplete while the first word is typed, argument hint after it
+  const commandMatches = commandsDismissed ? [] : matchCommands(prompt);
+  const typedCommand = /^\/\S+\s/.test(prompt) ? getCommand(prompt.slice(1).split(/\s+/)[0]) : undefined;
+
+  const completeCommand = (spec: CommandSpec) => {
+    if (spec.arg) {
+      setPrompt(`/${spec.name} `);
+      textareaRef.current?.focus();
+      return;
+    }
+    onSubmit(`/${spec.name}`);
+    setPrompt("");
+  };
+
   const addEmoji = (emoji: string) => {
     setPrompt(prev => prev + emoji);
     setShowEmojiPicker(false);
@@ -125,12 +151,19 @@ export function Composer({
           <div className="mb-3 p-3 rounded-2xl bg-white/8 border border-white/15 backdrop-blur-sm animate-slide-up hover-glow transition-smooth">
             <div className="flex items-start gap-3">
               <div className="relative w-16 h-16 rounded-xl overflow-hidden flex-shrink-0">
-                <Image
-                  src={previewUrl}
-                  alt="Preview"
-                  fill
-                  className="object-cover"
-                />
+                {mediaKindOf(file) === "image" ? (
+                  <Image
+                    src={previewUrl}
+                    alt="Preview"
+                    fill
+                    className="object-cover"
+                  />
+                ) : (
+                  // covers for other media are generated during analysis
+                  <div className="w-full h-full flex items-center justify-center bg-white/10 text-white/70">
+                    {mediaKindOf(file) === "audio" ? <Music className="h-7 w-7" /> : mediaKindOf(file) === "video" ? <Film className="h-7 w-7" /> : <FileText className="h-7 w-7" />}
+                  </div>
+                )}
               </div>
               <div className="flex-1 min-w-0">
                 <div className="text-sm font-medium text-white truncate">
@@ -150,6 +183,49 @@ export function Composer({
           </div>
         )}
 
+        {/* Batch queue */}
+        {queuedFiles && queuedFiles.length > 0 && (
+          <div className="mb-3 p-3 rounded-2xl bg-white/8 border border-white/15 backdrop-blur-sm animate-slide-up">
+            <div className="text-xs text-white/60 mb-2">{queuedFiles.length} files queued for batch registration</div>
+            <div className="flex flex-wrap gap-2">
+              {queuedFiles.map((q) => (
+                <span key={q.id} className="inline-flex items-center gap-1 rounded-full bg-white/10 border border-white/15 px-2 py-1 text-xs max-w-[200px]">
+                  <span className="truncate">{q.name}</span>
+                  {onQueueRemove && (
+                    <button onClick={() => onQueueRemove(q.id)} className="text-white/60 hover:text-white" title="Remove from queue">
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Slash command suggestions */}
+        {commandMatches.length > 0 && (
+          <div className="mb-2 rounded-xl border border-white/15 bg-slate-900/95 backdrop-blur-md py-1 shadow-xl animate-slide-up">
+            {commandMatches.map((c, i) => (
+              <button
+                key={c.name}
+                className={`w-full px-3 py-1.5 text-left text-sm ${i === selectedCommand ? "bg-sky-500/20 text-white" : "text-white/80 hover:bg-white/5"}`}
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setSelectedCommand(i)}
+                onClick={() => completeCommand(c)}
+              >
+                <span className="font-mono text-sky-300">{commandUsage(c, t)}</span>
+                <span className="ml-2 text-white/60">{t(c.descKey)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {typedCommand?.arg && (
+          <div className="mb-2 px-3 text-xs text-white/60">
+            <span className="font-mono text-sky-300">{commandUsage(typedCommand, t)}</span>
+            <span className="ml-2">{t(typedCommand.descKey)}</span>
+          </div>
+        )}
+
         {/* Input Area */}
         <div className="relative"
           onDragOver={(e)=>{e.preventDefault(); setIsDragging(true);}}
@@ -157,8 +233,13 @@ export function Composer({
           onDrop={(e)=>{
             e.preventDefault(); setIsDragging(false);
             const items = e.dataTransfer?.files;
+            const supported = items ? Array.from(items).filter(isSupportedMedia) : [];
+            if (supported.length > 1 && onFilesSelect) {
+              onFilesSelect(supported);
+              return;
+            }
             if (items && items.length > 0) {
-              const f = Array.from(items).find(f=>f.type.startsWith('image/')) || items[0];
+              const f = supported[0] || items[0];
               if (f && onFileSelect) onFileSelect(f);
             }
           }}
@@ -171,13 +252,33 @@ export function Composer({
               ref={textareaRef}
               rows={1}
               className="flex-1 resize-none bg-transparent px-2 py-2 text-base placeholder:opacity-50 focus:outline-none scrollbar-invisible"
-              placeholder={file ? "Add a message..." : (isDragging ? "Lepas untuk mengunggah gambar" : "CHAT WITH SUPERLEE...")}
+              placeholder={file ? "Add a message..." : (isDragging ? "Lepas untuk mengunggah berkas" : "CHAT WITH SUPERLEE...")}
               value={prompt}
               onChange={(e) => {
                 setPrompt(e.target.value);
+                setSelectedCommand(0);
+                setCommandsDismissed(false);
                 handleAutoGrow(e.currentTarget);
               }}
               onKeyDown={(e) => {
+                if (commandMatches.length > 0) {
+                  if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                    e.preventDefault();
+                    const step = e.key === "ArrowDown" ? 1 : -1;
+                    setSelectedCommand(i => (i + step + commandMatches.length) % commandMatches.length);
+                    return;
+                  }
+                  if (e.key === "Escape") {
+                    e.preventDefault();
+                    setCommandsDismissed(true);
+                    return;
+                  }
+                  if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+                    e.preventDefault();
+                    completeCommand(commandMatches[Math.min(selectedCommand, commandMatches.length - 1)]);
+                    return;
+                  }
+                }
                 if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
                   e.preventDefault();
                   handleSubmit();
@@ -256,7 +357,7 @@ export function Composer({
               {status ? (
                 <span>{status}</span>
               ) : (
-                <span>Press Enter to send • Shift+Enter for new line</span>
+                <span>Press Enter to send • Shift+Enter for new line • / for commands • Ctrl+K palette</span>
               )}
             </div>
             {!isConnected && (
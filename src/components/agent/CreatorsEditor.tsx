@@ -0,0 +1,137 @@
+import React from "react";
+import { Plus, X } from "lucide-react";
+import { useAccount } from "wagmi";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+import { CREATOR_ROLES, MAX_CREATORS, totalPercent, validateCreators, type Creator } from "@/lib/creators";
+
+interface CreatorsEditorProps {
+  creators: Creator[];
+  splitRoyalties: boolean;
+  disabled?: boolean;
+  onChange: (patch: { creators?: Creator[]; splitRoyalties?: boolean }) => void;
+}
+
+// Equal shares with two decimals; the rounding remainder goes to the first creator
+function splitEvenly(creators: Creator[]): Creator[] {
+  const share = Math.floor((100 / creators.length) * 100) / 100;
+  const first = Math.round((100 - share * (creators.length - 1)) * 100) / 100;
+  return creators.map((c, i) => ({ ...c, contributionPercent: i === 0 ? first : share }));
+}
+
+export function CreatorsEditor({ creators, splitRoyalties, disabled, onChange }: CreatorsEditorProps) {
+  const { t } = useI18n();
+  const { address } = useAccount();
+  const error = validateCreators(creators);
+  const total = totalPercent(creators);
+  const inputClass = "bg-transparent border border-white/20 rounded p-2 disabled:opacity-50 min-w-0";
+
+  const update = (index: number, patch: Partial<Creator>) =>
+    onChange({ creators: creators.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  if (creators.length === 0) {
+    return (
+      <div className="mt-3 flex items-center justify-between gap-2 text-sm">
+        <span className="opacity-70">{t("creators.soleCreator")}</span>
+        <button
+          className="inline-flex items-center gap-1 rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5 disabled:opacity-50"
+          disabled={disabled}
+          onClick={() => onChange({
+            creators: splitEvenly([
+              // the name ends up in the IP metadata, so no localized placeholder; without a wallet it must be typed
+              { name: address || "", address: address || "", role: "author", contributionPercent: 0 },
+              { name: "", address: "", role: "author", contributionPercent: 0 },
+            ]),
+          })}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          {t("creators.addCoCreators")}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <div className="font-medium">{t("creators.title")}</div>
+      {creators.map((c, i) => (
+        <div key={i} className="grid grid-cols-[1fr,1.4fr,auto,5rem,auto] gap-2 items-center">
+          <input
+            className={inputClass}
+            placeholder={t("creators.name")}
+            value={c.name}
+            disabled={disabled}
+            onChange={(e) => update(i, { name: e.target.value })}
+          />
+          <input
+            className={`${inputClass} font-mono text-xs`}
+            placeholder={t("creators.address")}
+            value={c.address}
+            disabled={disabled}
+            onChange={(e) => update(i, { address: e.target.value })}
+          />
+          <select
+            className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+            value={c.role || "author"}
+            disabled={disabled}
+            onChange={(e) => update(i, { role: e.target.value as Creator["role"] })}
+          >
+            {CREATOR_ROLES.map(role => (
+              <option key={role} value={role}>{t(`creators.role.${role}`)}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={100}
+            step={0.01}
+            value={c.contributionPercent}
+            disabled={disabled}
+            onChange={(e) => update(i, { contributionPercent: Number(e.target.value) })}
+          />
+          <button
+            className="p-1 rounded hover:bg-white/10 disabled:opacity-50"
+            title={t("creators.remove")}
+            disabled={disabled}
+            // removing the last co-creator goes back to the wallet as sole creator
+            onClick={() => onChange({ creators: creators.length <= 1 ? [] : creators.filter((_, j) => j !== i) })}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className="inline-flex items-center gap-1 rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5 disabled:opacity-50"
+          disabled={disabled || creators.length >= MAX_CREATORS}
+          onClick={() => onChange({ creators: [...creators, { name: "", address: "", role: "author", contributionPercent: Math.max(0, Math.round((100 - total) * 100) / 100) }] })}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          {t("creators.add")}
+        </button>
+        <button
+          className="rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5 disabled:opacity-50"
+          disabled={disabled}
+          onClick={() => onChange({ creators: splitEvenly(creators) })}
+        >
+          {t("creators.splitEvenly")}
+        </button>
+        <span className={`ml-auto text-xs ${total === 100 ? "opacity-70" : "text-amber-300"}`}>
+          {t("creators.total", { total })}
+        </span>
+      </div>
+      {error && <div className="text-xs text-amber-300">{t(error)}</div>}
+
+      <label className="flex items-center gap-2 text-xs">
+        <input
+          type="checkbox"
+          checked={splitRoyalties}
+          disabled={disabled}
+          onChange={(e) => onChange({ splitRoyalties: e.target.checked })}
+        />
+        {t("creators.splitRoyalties")}
+      </label>
+    </div>
+  );
+}
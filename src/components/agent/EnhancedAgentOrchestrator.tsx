@@ -1,10 +1,13 @@
 import React, { useRef, useEffect, useCallback, useState } from "react";
 import { usePublicClient } from "wagmi";
-import { storyAeneid } from "@/lib/chains/story";
+import { getNetwork, ipExplorerLink } from "@/lib/chains/networks";
 import { waitForTxConfirmation } from "@/lib/utils/transaction";
 import { useChatAgent } from "@/hooks/useChatAgent";
 import { useRegisterIPAgent } from "@/hooks/useRegisterIPAgent";
 import { useFileUpload } from "@/hooks/useFileUpload";
+import { useBatchRegister } from "@/hooks/useBatchRegister";
+import { useSwapAgent } from "@/hooks/useSwapAgent";
+import { useSpgCollections } from "@/hooks/useSpgCollections";
 import { useAdvancedAIDetection } from "@/hooks/useAdvancedAIDetection";
 import { DEFAULT_LICENSE_SETTINGS } from "@/lib/license/terms";
 import type { LicenseSettings } from "@/lib/license/terms";
@@ -12,6 +15,7 @@ import type { AdvancedAnalysisResult, SimpleRecommendation } from "@/types/ai-de
 import { MessageList } from "./MessageList";
 import { Composer } from "./Composer";
 import { PlanBox } from "./PlanBox";
+import { BatchPlanBox } from "./BatchPlanBox";
 import { HistorySidebar } from "./HistorySidebar";
 import { Toast } from "./Toast";
 import { CameraCapture } from "./CameraCapture";
@@ -19,20 +23,95 @@ import { AIStatusIndicator } from "../AIStatusIndicator";
 import { useI18n } from "@/lib/i18n/I18nProvider";
 import SimpleLicenseWizard from "@/components/SimpleLicenseWizard";
 import ManualReviewModal from "@/components/agent/ManualReviewModal";
+import CommandPalette from "@/components/agent/CommandPalette";
 import { loadIndexFromIpfs } from "@/lib/rag";
 import { detectIPStatus } from "@/services";
 import { isWhitelistedImage, computeDHash } from "@/lib/utils/whitelist";
 import { compressImage } from "@/lib/utils/image";
 import { sha256HexOfFile } from "@/lib/utils/crypto";
-import { checkDuplicateQuick, checkDuplicateByImageHash } from "@/lib/utils/registry";
+import { checkDuplicateQuick, checkDuplicateByImageHash, findSimilarText } from "@/lib/utils/registry";
+import { MEDIA_ACCEPT, extractText, generateCover, mediaDuration, mediaHashOf, mediaKindOf, mediaTypeOf, textSignature } from "@/lib/utils/media";
+import { validateCreators } from "@/lib/creators";
+import { ipIdForToken } from "@/lib/license/derivative";
+import { aiSummaryOf, buildProofBundle } from "@/lib/certificate";
+import { assertionOf, readProvenance, supportsProvenance, type ProvenanceReport } from "@/lib/provenance";
 import { getFaceEmbedding, cosineSimilarity, countFaces, preloadFaceModels } from "@/lib/utils/face";
 import type { Hex } from "viem";
 import { useRouter } from "next/navigation";
+import { CHAT_ACTIONS, chatAction, type ChatAction } from "@/lib/agent/actions";
+import type { MessageBlock } from "@/types/agents";
+import type { RegisterIntent } from "@/lib/agent/engine";
+
+// Scores card for an advanced analysis result (upload summary and "Why?")
+function analysisCard(
+  ai: AdvancedAnalysisResult,
+  title: string,
+  tone: "ok" | "warn" | "danger",
+  t: (key: string) => string,
+  extra?: { subtitle?: string; details?: { label: string; value: string }[] }
+): MessageBlock {
+  return {
+    type: "analysis",
+    title,
+    tone,
+    subtitle: extra?.subtitle,
+    scores: [
+      { label: t("blocks.quality"), value: ai.qualityAssessment.overall, max: 10 },
+      { label: t("blocks.ipScore"), value: ai.ipEligibility.score, max: 100 },
+      { label: t("blocks.aiConfidence"), value: Math.round(ai.aiDetection.confidence * 100), max: 100 },
+    ],
+    details: extra?.details,
+  };
+}
+
+// Prompt for the streamed AI commentary under an analysis card
+function analysisNarrationPrompt(ai: AdvancedAnalysisResult): string {
+  return [
+    `AI-generated: ${ai.aiDetection.isAIGenerated ? "yes" : "no"} (${Math.round(ai.aiDetection.confidence * 100)}%)`,
+    `Quality: ${ai.qualityAssessment.overall}/10`,
+    `IP eligibility: ${ai.ipEligibility.score}/100, ${ai.ipEligibility.isEligible ? "eligible" : "not eligible"}`,
+    ai.ipEligibility.reasons.length ? `Reasons: ${ai.ipEligibility.reasons.join("; ")}` : "",
+    ai.ipEligibility.risks.length ? `Risks: ${ai.ipEligibility.risks.join("; ")}` : "",
+    `Recommended license: ${ai.licenseRecommendation.primary}`,
+  ].filter(Boolean).join("\n");
+}
+
+// Provenance manifest found in an attached file (lib/provenance.ts)
+function provenanceCard(report: ProvenanceReport, t: (key: string, vars?: Record<string, string | number>) => string): MessageBlock {
+  const { claim, signature } = report.manifest;
+  const work = assertionOf(claim, "stds.schema-org.CreativeWork");
+  const ip = assertionOf(claim, "story.ip");
+  const ai = assertionOf(claim, "c2pa.actions");
+  const training = assertionOf(claim, "c2pa.training-mining");
+  const licenses = assertionOf(claim, "story.license")?.licenses ?? [];
+  const status = !report.bindingOk ? "modified" : !report.signatureOk ? "badSignature" : report.trusted ? "verified" : "untrusted";
+  return {
+    type: "analysis",
+    title: t("provenance.title"),
+    subtitle: t(`provenance.status.${status}`),
+    tone: status === "verified" ? "ok" : status === "untrusted" ? "warn" : "danger",
+    scores: [],
+    details: [
+      ...(work ? [{ label: t("provenance.work"), value: work.name }] : []),
+      ...(work?.author.length ? [{ label: t("provenance.creators"), value: work.author.map(a => a.identifier).join(", ") }] : []),
+      ...(ip ? [{ label: "IP ID", value: ip.ipId }] : []),
+      { label: t("provenance.aiGenerated"), value: ai ? t(ai.aiGenerated ? "provenance.yes" : "provenance.no") : t("provenance.unknown") },
+      ...(training ? [{ label: t("provenance.aiTraining"), value: t(training.entries["c2pa.ai_training"]?.use === "notAllowed" ? "provenance.optedOut" : "provenance.allowed") }] : []),
+      ...(licenses.length ? [{ label: t("provenance.license"), value: licenses.map(l => l.licenseTermsId ? `${l.title} (#${l.licenseTermsId})` : l.title).join(", ") }] : []),
+      { label: t("provenance.signer"), value: signature.signer },
+      { label: t("provenance.signedAt"), value: new Date(claim.createdAt).toLocaleString() },
+    ],
+  };
+}
 
 export function EnhancedAgentOrchestrator() {
   const chatAgent = useChatAgent();
   const registerAgent = useRegisterIPAgent();
   const fileUpload = useFileUpload();
+  const batch = useBatchRegister();
+  const swapAgent = useSwapAgent();
+  // collection new registrations mint into (picked in PlanBox); duplicate checks scan the same one
+  const spgCollections = useSpgCollections();
   const { analysis, recommendation, analyzeImageFromBase64, reset: resetAIAnalysis } = useAdvancedAIDetection();
   const publicClient = usePublicClient();
   
@@ -42,7 +121,7 @@ export function EnhancedAgentOrchestrator() {
   const [lastDHash, setLastDHash] = useState<string | null>(null);
   const [referenceFile, setReferenceFile] = useState<File | null>(null);
   const [awaitingIdentity, setAwaitingIdentity] = useState<boolean>(false);
-  const [dupCheck, setDupCheck] = useState<{ checked: boolean; found: boolean; tokenId?: string } | null>(null);
+  const [dupCheck, setDupCheck] = useState<{ checked: boolean; found: boolean; tokenId?: string; ipId?: `0x${string}`; similarity?: number } | null>(null);
   const [showCustomLicense, setShowCustomLicense] = useState(false);
   const [customTerms, setCustomTerms] = useState<import("@/lib/license/terms").LicenseTermsData | null>(null);
   const [selectedPilType, setSelectedPilType] = useState<'open_use' | 'commercial_remix'>('commercial_remix');
@@ -56,10 +135,12 @@ export function EnhancedAgentOrchestrator() {
   const [lastAIResult, setLastAIResult] = useState<AdvancedAnalysisResult | null>(null);
   const [lastAIRec, setLastAIRec] = useState<SimpleRecommendation | null>(null);
   const [smartApplied, setSmartApplied] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
   const { t } = useI18n();
 
   const handleNewChat = useCallback(() => {
     chatAgent.newChat();
+    batch.clear();
     try { fileUpload.removeFile(); } catch {}
     setAnalyzedFile(null);
     
@@ -70,7 +151,7 @@ export function EnhancedAgentOrchestrator() {
     setDupCheck(null);
     setToast(null);
     setSmartApplied(false);
-  }, [chatAgent, fileUpload]);
+  }, [chatAgent, fileUpload, batch]);
 
   const handleOpenSession = useCallback((id: string) => {
     chatAgent.openSession(id);
@@ -86,7 +167,19 @@ export function EnhancedAgentOrchestrator() {
     setSmartApplied(false);
   }, [chatAgent, fileUpload]);
 
-  const explorerBase = storyAeneid.blockExplorers?.default.url || "https://aeneid.storyscan.xyz";
+  // Ctrl/⌘+K opens the command palette from anywhere on the page
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setShowPalette(open => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const explorerBase = getNetwork().explorerUrl;
 
   // Load RAG index (from localStorage or env)
   useEffect(() => {
@@ -108,6 +201,25 @@ export function EnhancedAgentOrchestrator() {
     idle(() => { preloadFaceModels().catch(() => {}); });
   }, [chatAgent]);
 
+  // Quote preview as soon as a swap plan shows up
+  const swapPlanIntent = chatAgent.currentPlan?.type === "swap" ? chatAgent.currentPlan.intent : null;
+  useEffect(() => {
+    if (swapPlanIntent) swapAgent.previewQuote(swapPlanIntent);
+    else swapAgent.resetSwap();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [swapPlanIntent]);
+
+  // License chosen through the agent (set_license tool) preselects the PlanBox controls
+  const registerPlanIntent = chatAgent.currentPlan?.type === "register" ? chatAgent.currentPlan.intent : null;
+  useEffect(() => {
+    // revShare is only present on the intent once the agent set the license
+    if (!registerPlanIntent || typeof registerPlanIntent.revShare !== 'number') return;
+    const { pilType, revShare, licensePrice } = registerPlanIntent;
+    if (pilType === 'open_use' || pilType === 'commercial_remix') setSelectedPilType(pilType);
+    setSelectedRevShare(revShare);
+    if (typeof licensePrice === 'number') setSelectedLicensePrice(licensePrice);
+  }, [registerPlanIntent?.pilType, registerPlanIntent?.revShare, registerPlanIntent?.licensePrice]);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     chatScrollRef.current?.scrollTo({
@@ -116,6 +228,11 @@ export function EnhancedAgentOrchestrator() {
     });
   }, [chatAgent.messages]);
 
+  // Rejected uploads (unsupported type, too large)
+  useEffect(() => {
+    if (fileUpload.error) setToast(`${fileUpload.error} ❌`);
+  }, [fileUpload.error]);
+
   // Auto-analyze AI when file is uploaded
   useEffect(() => {
     if (!fileUpload.file) return;
@@ -128,7 +245,14 @@ export function EnhancedAgentOrchestrator() {
       return;
     }
     if (!isAnalyzing) {
-      analyzeImageForChat();
+      const file = fileUpload.file;
+      const analysis = mediaKindOf(file) === 'image' ? analyzeImageForChat() : analyzeMediaForChat();
+      // posted after the analysis, which updates its own loading message in place; only the
+      // containers a manifest can live in are read (no need to load a large video into memory)
+      const provenance = supportsProvenance(file.type) ? readProvenance(file).catch(() => null) : null;
+      Promise.all([provenance, analysis]).then(([report]) => {
+        if (report) chatAgent.addCompleteMessage({ role: "agent", text: t("provenance.found"), ts: Date.now(), blocks: [provenanceCard(report, t)] });
+      });
     }
   }, [fileUpload.file]);
 
@@ -151,6 +275,8 @@ export function EnhancedAgentOrchestrator() {
     // Store file reference before removing preview
     const currentFile = fileUpload.file;
     setAnalyzedFile(currentFile);
+    // a verdict for the previous file must not gate this one
+    setDupCheck(null);
 
     // Create an object URL for preview image in chat (separate from upload preview)
     const previewUrl = URL.createObjectURL(currentFile);
@@ -222,6 +348,8 @@ export function EnhancedAgentOrchestrator() {
 
       // Create simplified chat message
       let ipText = "";
+      // Rendered as an analysis card instead of text when AI results are available
+      let summary: { title: string; subtitle: string; next: string; tone: "ok" | "warn" } | null = null;
 
       if (aiResult && aiRecommendation) {
         const isHighConfidenceAI = aiResult.aiDetection.isAIGenerated && aiResult.aiDetection.confidence >= 0.85;
@@ -234,6 +362,7 @@ export function EnhancedAgentOrchestrator() {
           : 'Share for Free';
 
         ipText = `${mainTitle}\n${subtitle}\nNext: ${nextAction}`;
+        summary = { title: mainTitle, subtitle, next: `Next: ${nextAction}`, tone: isHighConfidenceAI ? 'warn' : 'ok' };
 
       } else {
         // Fallback to basic analysis with more detailed error info
@@ -275,8 +404,9 @@ export function EnhancedAgentOrchestrator() {
       // Duplicate check (after safety analysis)
       let dupFound = false;
       let dupTokenId: string | undefined;
+      let dupIpId: `0x${string}` | undefined;
       try {
-        const spg = process.env.NEXT_PUBLIC_SPG_COLLECTION as `0x${string}` | undefined;
+        const spg = spgCollections.active;
         if (spg && publicClient) {
           const compressed = await compressImage(currentFile);
           const imageHash = (await sha256HexOfFile(compressed)).toLowerCase();
@@ -291,10 +421,13 @@ export function EnhancedAgentOrchestrator() {
             const full = await withTimeout(checkDuplicateByImageHash(publicClient, spg, imageHash));
             if (full?.found) { dupFound = true; dupTokenId = full.tokenId; }
           }
+          if (dupFound && dupTokenId) {
+            dupIpId = (await withTimeout(ipIdForToken(publicClient, spg, dupTokenId))) || undefined;
+          }
         }
       } catch {}
       finally {
-        setDupCheck({ checked: true, found: dupFound, tokenId: dupTokenId });
+        setDupCheck({ checked: true, found: dupFound, tokenId: dupTokenId, ipId: dupIpId });
       }
 
       // Decide next action based on AI analysis and whitelist
@@ -359,47 +492,55 @@ export function EnhancedAgentOrchestrator() {
       }
 
       // Compose buttons based on analysis
-      let buttons: string[] = [];
+      let buttons: ChatAction[] = [];
 
       if (dupFound) {
-        buttons = ["Upload File", "Submit for Review", "Copy dHash"];
+        buttons = [...(dupIpId ? [chatAction("register_remix", { parentIpId: dupIpId as `0x${string}` })] : []), chatAction("upload_file"), chatAction("submit_review"), chatAction("copy_dhash")];
       } else if (isRisky) {
-        buttons = ["Upload File", "Submit for Review", "Copy dHash"];
+        buttons = [chatAction("upload_file"), chatAction("submit_review"), chatAction("copy_dhash")];
       } else {
         // Safe to register - add AI-enhanced options
         const minForCustom = Number.parseInt(process.env.NEXT_PUBLIC_CUSTOM_LICENSE_MIN || '80', 10);
         const allowCustom = !!(aiResult && (aiResult.ipEligibility.score >= minForCustom));
-        buttons = ["Continue Registration", ...(allowCustom ? ["Custom License"] : []), "Copy dHash"];
+        buttons = [chatAction("continue_registration"), ...(allowCustom ? [chatAction("custom_license")] : []), chatAction("copy_dhash")];
 
         // Add AI-specific button if AI analysis was successful
         if (aiResult && aiRecommendation) {
-          buttons = ["🧠 Smart License", "Continue Registration", ...(allowCustom ? ["Custom License"] : []), "Copy dHash"];
+          buttons = [chatAction("smart_license"), ...buttons];
         }
       }
       if (faceDetected || requiresIdentity) {
         const cameraOnly = (process.env.NEXT_PUBLIC_CAMERA_ONLY_ON_FACE ?? 'false') === 'true';
-        if (!buttons.includes("Take Photo")) buttons = ["Take Photo", ...buttons];
+        if (!buttons.some(b => b.id === "take_photo")) buttons = [chatAction("take_photo"), ...buttons];
         if (cameraOnly) {
-          buttons = buttons.filter(b => b !== "Upload File");
+          buttons = buttons.filter(b => b.id !== "upload_file");
         }
       }
       if (requiresIdentity) {
-        buttons = buttons.filter(b => b !== "Continue Registration");
+        buttons = buttons.filter(b => b.id !== "continue_registration");
       }
 
-      if (!buttons.includes("Why?")) buttons.push("Why?");
+      if (!buttons.some(b => b.id === "why")) buttons.push(chatAction("why"));
 
       // If duplicate, hide safe IP text and show remix tolerance guidance
-      const duplicateBlockText = `\n\nDuplicate detected: this image is already registered as IP${dupTokenId ? ` (Token ID: ${dupTokenId})` : ''}. Registration is blocked.\nTolerance: Allowed to register as a remix`;
-      const textToShow = dupFound ? `${ipText}${duplicateBlockText}` : ipText;
+      const duplicateBlockText = `\n\nDuplicate detected: this image is already registered as IP${dupTokenId ? ` (Token ID: ${dupTokenId})` : ''}${dupIpId ? `\nParent IP: ${dupIpId}` : ''}. Registration is blocked.\nTolerance: Allowed to register as a remix`;
+      const card = summary && aiResult && !wl.whitelisted
+        ? analysisCard(aiResult, summary.title, dupFound || isRisky ? 'danger' : summary.tone, t, { subtitle: summary.subtitle })
+        : null;
+      const baseText = card && summary ? summary.next : ipText;
+      const textToShow = dupFound ? `${baseText}${duplicateBlockText}` : baseText;
 
       // Update the loading message to show results with appropriate next step and image preview
       chatAgent.updateLastMessage({
         text: textToShow,
         isLoading: false,
         buttons,
+        blocks: card ? [card] : undefined,
         image: { url: previewUrl, alt: currentFile.name }
       });
+      if (card && aiResult && !dupFound) {
+        void chatAgent.narrate(analysisNarrationPrompt(aiResult), "Analysis summary of an uploaded work: explain the result in 2-3 sentences");
+      }
     } catch (error) {
       console.error('Analysis failed:', error);
       // Update loading message to show error
@@ -414,32 +555,224 @@ export function EnhancedAgentOrchestrator() {
     }
   };
 
+  // Audio, video and text works: exact-hash duplicate check (plus MinHash similarity for text)
+  // and the IP-status check on the extracted text or a video frame
+  const analyzeMediaForChat = async () => {
+    const currentFile = fileUpload.file;
+    if (!currentFile) return;
+    const kind = mediaKindOf(currentFile);
+    if (!kind) {
+      chatAgent.addMessage("agent", t("media.unsupported"));
+      fileUpload.removeFile();
+      return;
+    }
+
+    setIsAnalyzing(true);
+    chatAgent.addCompleteMessage({
+      role: "agent",
+      text: t("media.analyzing", { kind: t(`media.kind.${kind}`) }),
+      ts: Date.now(),
+      isLoading: true
+    });
+    setAnalyzedFile(currentFile);
+    // image-only results from an earlier upload must not leak into this one
+    setLastAIResult(null);
+    setLastAIRec(null);
+    setLastDHash(null);
+    setDupCheck(null);
+    setTimeout(() => {
+      fileUpload.removeFile();
+    }, 100);
+
+    try {
+      const isText = kind === 'text' || kind === 'document';
+      const [cover, duration, status, text] = await Promise.all([
+        generateCover(currentFile),
+        mediaDuration(currentFile),
+        detectIPStatus(currentFile),
+        isText ? extractText(currentFile) : Promise.resolve(""),
+      ]);
+
+      let dupFound = false;
+      let dupTokenId: string | undefined;
+      let dupIpId: `0x${string}` | undefined;
+      let similarity: number | undefined;
+      try {
+        const spg = spgCollections.active;
+        if (spg && publicClient) {
+          const timeoutMs = Number.parseInt(process.env.NEXT_PUBLIC_REGISTRY_DUPCHECK_TIMEOUT_MS || '3000', 10);
+          const withTimeout = <T,>(p: Promise<T>) => new Promise<T>((resolve) => {
+            const t = setTimeout(() => resolve(null as any), timeoutMs);
+            p.then(v => { clearTimeout(t); resolve(v); }).catch(() => { clearTimeout(t); resolve(null as any); });
+          });
+          const hash = (await mediaHashOf(currentFile)).toLowerCase();
+          const exact = await withTimeout(checkDuplicateQuick(publicClient, spg, hash));
+          if (exact?.found) {
+            dupFound = true;
+            dupTokenId = exact.tokenId;
+          } else if (text) {
+            const threshold = Number(process.env.NEXT_PUBLIC_TEXT_SIMILARITY_THRESHOLD || '0.8');
+            const similar = await withTimeout(findSimilarText(publicClient, spg, textSignature(text), threshold));
+            if (similar?.found) {
+              dupFound = true;
+              dupTokenId = similar.tokenId;
+              similarity = similar.similarity;
+            }
+          }
+          if (dupFound && dupTokenId) {
+            dupIpId = (await withTimeout(ipIdForToken(publicClient, spg, dupTokenId))) || undefined;
+          }
+        }
+      } catch {}
+      finally {
+        setDupCheck({ checked: true, found: dupFound, tokenId: dupTokenId, ipId: dupIpId, similarity });
+      }
+
+      // Same Risk/Tolerance lines the image fallback path reads
+      const riskLine = (status.result.split('\n').find(l => l.toLowerCase().startsWith('risk:')) || '').toLowerCase();
+      const toleranceValue = (status.result.split('\n').find(l => l.toLowerCase().startsWith('tolerance:')) || '')
+        .split(':').slice(1).join(':').trim().toLowerCase();
+      // a PDF whose text can't be read was never compared for near-duplicates
+      const unreadable = kind === 'document' && !text;
+      const isRisky = unreadable || !(riskLine.includes('low') && toleranceValue.startsWith('good to register'));
+
+      const facts = [
+        `${t(`media.kind.${kind}`)} · ${(currentFile.size / 1024 / 1024).toFixed(2)} MB · ${mediaTypeOf(currentFile)}`,
+        duration ? `${t("media.duration")} ${Math.floor(duration / 60)}:${String(Math.round(duration % 60)).padStart(2, '0')}` : null,
+        isText ? `${t("media.words")} ${text ? text.split(/\s+/).length : t("media.noText")}` : null,
+      ].filter(Boolean).join('\n');
+      const dupText = dupFound
+        ? `\n\n${similarity !== undefined ? t("media.similar", { percent: Math.round(similarity * 100) }) : t("media.duplicate")}${dupTokenId ? ` (Token ID: ${dupTokenId})` : ''}${dupIpId ? `\nParent IP: ${dupIpId}` : ''}`
+        : unreadable ? `\n\n${t("media.textUnreadable")}` : '';
+
+      let buttons: ChatAction[];
+      if (dupFound) {
+        buttons = [...(dupIpId ? [chatAction("register_remix", { parentIpId: dupIpId })] : []), chatAction("upload_file"), chatAction("submit_review")];
+      } else if (isRisky) {
+        buttons = [chatAction("continue_registration"), chatAction("upload_file"), chatAction("submit_review")];
+      } else {
+        buttons = [chatAction("continue_registration"), chatAction("custom_license")];
+      }
+
+      chatAgent.updateLastMessage({
+        text: `${facts}\n\n${status.result}${dupText}`,
+        isLoading: false,
+        buttons,
+        image: cover ? { url: URL.createObjectURL(cover), alt: currentFile.name } : undefined
+      });
+    } catch (error) {
+      console.error('Media analysis failed:', error);
+      chatAgent.updateLastMessage({
+        text: t("media.analysisFailed"),
+        isLoading: false,
+        buttons: [chatAction("continue_registration")]
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Plan default license, overridden by the PlanBox controls
+  const planLicenseSettings = (intent: RegisterIntent): LicenseSettings => {
+    const merged: LicenseSettings = {
+      ...DEFAULT_LICENSE_SETTINGS,
+      pilType: intent.pilType || DEFAULT_LICENSE_SETTINGS.pilType,
+    };
+    if (selectedPilType) merged.pilType = selectedPilType as any;
+    if (selectedPilType === 'commercial_remix') {
+      if (!isNaN(selectedRevShare)) merged.revShare = selectedRevShare;
+      if (!isNaN(selectedLicensePrice)) merged.licensePrice = selectedLicensePrice;
+    } else {
+      merged.revShare = 0; merged.licensePrice = 0;
+    }
+    return merged;
+  };
+
+  // Dry-run the mint whenever the register plan or its license changes, before any wallet prompt
+  useEffect(() => {
+    if (!registerPlanIntent || registerPlanIntent.kind !== "register") return;
+    const intent = registerPlanIntent;
+    // debounced: creator/license edits arrive per keystroke
+    const timer = setTimeout(() => {
+      registerAgent.simulateRegister(intent, planLicenseSettings(intent), customTerms ? { customTerms } : undefined);
+    }, 400);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [registerPlanIntent, selectedPilType, selectedRevShare, selectedLicensePrice, customTerms, spgCollections.active]);
+
   const executePlan = useCallback(async () => {
     if (!chatAgent.currentPlan) return;
 
     const plan = chatAgent.currentPlan;
 
+    if (plan.type === "swap") {
+      chatAgent.updateStatus("🔁 Swapping via PiperX...");
+      const result = await swapAgent.executeSwap(plan.intent);
+
+      if (result.success) {
+        chatAgent.addCompleteMessage({
+          role: "agent",
+          text: `${t("swap.success")}\n\n${result.amountIn} ${result.symbolIn} → ~${result.amountOut} ${result.symbolOut}\n${t("swap.minReceived")} ${result.minAmountOut} ${result.symbolOut}`,
+          ts: Date.now(),
+          // swap resolves after the receipt, so it is already confirmed
+          blocks: [{
+            type: "tx_status",
+            id: `tx-${result.txHash}`,
+            label: t("tx.swap"),
+            status: "confirmed",
+            txHash: result.txHash,
+            url: `${explorerBase}/tx/${result.txHash}`,
+          }]
+        });
+        setToast("Swap success ✅");
+        chatAgent.clearPlan();
+      } else {
+        // keep the plan open so the user can retry after fixing the cause
+        chatAgent.addMessage("agent", `${t("swap.failed")} ${result.error}`);
+        setToast("Swap error ❌");
+      }
+      return;
+    }
+
     if (plan.type === "register" && plan.intent.kind === "register") {
       // Get file from engine context or fallback to analyzed file
       const fileToUse = chatAgent.getEngineFile() || analyzedFile;
 
-      if (!fileToUse) {
-        chatAgent.addMessage("agent", "❌ Please attach an image first!");
-        setToast("Attach image first 📎");
+      const existingNft = plan.intent.existingNft;
+
+      if (!fileToUse && !existingNft) {
+        chatAgent.addMessage("agent", "❌ Please attach a file first!");
+        setToast("Attach a file first 📎");
+        return;
+      }
+
+      const creatorsError = validateCreators(plan.intent.creators || []);
+      if (creatorsError) {
+        chatAgent.addMessage("agent", `❌ ${t(creatorsError)}`);
         return;
       }
 
-      // Duplicate check before signing (skip if already checked safe during analysis)
-      const alreadyCheckedSafe = dupCheck?.checked && !dupCheck.found;
-      if (!alreadyCheckedSafe) {
+      // A duplicate or near-duplicate found during analysis blocks everything but a remix of it
+      if (dupCheck?.found && !plan.intent.parentIpId && fileToUse) {
+        const reason = dupCheck.similarity !== undefined
+          ? t("media.similar", { percent: Math.round(dupCheck.similarity * 100) })
+          : t("media.duplicate");
+        chatAgent.addMessage("agent", `❌ ${reason}${dupCheck.tokenId ? ` (Token ID: ${dupCheck.tokenId})` : ''}`);
+        setToast("Duplicate detected ❌");
+        chatAgent.clearPlan();
+        return;
+      }
+
+      // Duplicate check before signing (skip if already checked safe during analysis,
+      // or for remixes which are expected to resemble their parent)
+      const alreadyCheckedSafe = (dupCheck?.checked && !dupCheck.found) || !!plan.intent.parentIpId;
+      // an existing NFT is checked for a prior IP registration when it is picked
+      if (!alreadyCheckedSafe && fileToUse) {
         try {
-          const { compressImage } = await import("@/lib/utils/image");
-          const { sha256HexOfFile } = await import("@/lib/utils/crypto");
           const { checkDuplicateByImageHash, checkDuplicateQuick } = await import("@/lib/utils/registry");
-          const spg = process.env.NEXT_PUBLIC_SPG_COLLECTION as `0x${string}` | undefined;
+          const spg = spgCollections.active;
           if (spg && publicClient) {
-            const compressed = await compressImage(fileToUse);
-            const imageHash = (await sha256HexOfFile(compressed)).toLowerCase();
+            const imageHash = (await mediaHashOf(fileToUse)).toLowerCase();
             const timeoutMs = Number.parseInt(process.env.NEXT_PUBLIC_REGISTRY_DUPCHECK_TIMEOUT_MS || '3000', 10);
             const withTimeout = <T,>(p: Promise<T>) => new Promise<T>((resolve, reject) => {
               const t = setTimeout(() => resolve(null as any), timeoutMs);
@@ -447,14 +780,14 @@ export function EnhancedAgentOrchestrator() {
             });
             const quick = await withTimeout(checkDuplicateQuick(publicClient, spg, imageHash));
             if (quick?.found) {
-              chatAgent.addMessage("agent", `❌ This image is already registered as IP (Token ID: ${quick.tokenId}). Registration blocked.`);
+              chatAgent.addMessage("agent", `❌ This file is already registered as IP (Token ID: ${quick.tokenId}). Registration blocked.`);
               setToast("Duplicate image detected ❌");
               chatAgent.clearPlan();
               return;
             }
             const dup = await withTimeout(checkDuplicateByImageHash(publicClient, spg, imageHash));
             if (dup?.found) {
-              chatAgent.addMessage("agent", `❌ This image is already registered as IP (Token ID: ${dup.tokenId}). Registration blocked.`);
+              chatAgent.addMessage("agent", `❌ This file is already registered as IP (Token ID: ${dup.tokenId}). Registration blocked.`);
               setToast("Duplicate image detected ❌");
               chatAgent.clearPlan();
               return;
@@ -467,26 +800,30 @@ export function EnhancedAgentOrchestrator() {
 
       chatAgent.updateStatus("📝 Registering IP...");
 
-      // Use default license settings from the plan
-      const licenseSettings: LicenseSettings = {
-        ...DEFAULT_LICENSE_SETTINGS,
-        pilType: plan.intent.pilType || DEFAULT_LICENSE_SETTINGS.pilType,
-      };
-
-      const merged = { ...licenseSettings };
-      if (selectedPilType) merged.pilType = selectedPilType as any;
-      if (selectedPilType === 'commercial_remix') {
-        if (!isNaN(selectedRevShare)) merged.revShare = selectedRevShare;
-        if (!isNaN(selectedLicensePrice)) merged.licensePrice = selectedLicensePrice;
-      } else {
-        merged.revShare = 0; merged.licensePrice = 0;
-      }
-      const result = await registerAgent.executeRegister(plan.intent, fileToUse, merged, customTerms ? { customTerms } : undefined);
+      const licenseOptions = customTerms ? { customTerms } : undefined;
+      const result = existingNft || !fileToUse
+        ? await registerAgent.registerExistingNft(plan.intent, planLicenseSettings(plan.intent), licenseOptions)
+        : await registerAgent.executeRegister(plan.intent, fileToUse, planLicenseSettings(plan.intent), {
+            ...licenseOptions,
+            aiAnalysis: lastAIResult ? aiSummaryOf(lastAIResult) : undefined,
+          });
 
       if (result.success) {
-        // Show initial success with transaction link
-        const submittedMessage = `Tx submitted ⏳\n↗ View: ${explorerBase}/tx/${result.txHash}`;
-        chatAgent.addMessage("agent", submittedMessage);
+        // Tx status block, updated in place once the receipt arrives
+        const txBlockId = `tx-${result.txHash}`;
+        chatAgent.addCompleteMessage({
+          role: "agent",
+          text: "Tx submitted ⏳",
+          ts: Date.now(),
+          blocks: [{
+            type: "tx_status",
+            id: txBlockId,
+            label: t("tx.register"),
+            status: "pending",
+            txHash: result.txHash,
+            url: `${explorerBase}/tx/${result.txHash}`,
+          }]
+        });
 
         // Wait for confirmation
         try {
@@ -498,11 +835,12 @@ export function EnhancedAgentOrchestrator() {
           );
 
           if (confirmed) {
+            chatAgent.updateBlock(txBlockId, { status: "confirmed" });
             const successText = `Register success ✅
 
-Your image has been successfully registered as IP!
+Your work has been successfully registered as IP!
 
-License Type: ${result.licenseType}`;
+License Type: ${result.licenseType}${result.parentIpId ? `\nRemix of: ${result.parentIpId}` : ''}`;
 
             // Create message with image and links
             const message = {
@@ -516,7 +854,7 @@ License Type: ${result.licenseType}`;
               links: [
                 {
                   text: `📋 View IP: ${result.ipId}`,
-                  url: `https://aeneid.explorer.story.foundation/ipa/${result.ipId}`
+                  url: ipExplorerLink(result.ipId ?? "")
                 },
                 {
                   text: `🔗 View Transaction: ${result.txHash}`,
@@ -527,17 +865,38 @@ License Type: ${result.licenseType}`;
 
             chatAgent.addCompleteMessage(message);
             setToast("IP registered ✅");
+
+            // Certificate + proof bundle; the registration stands even if this read fails
+            if (result.proof) {
+              try {
+                const bundle = await buildProofBundle(result.proof, {
+                  aiAnalysis: !existingNft && lastAIResult ? aiSummaryOf(lastAIResult) : undefined,
+                }, publicClient);
+                chatAgent.addCompleteMessage({
+                  role: "agent",
+                  text: t("cert.ready"),
+                  ts: Date.now(),
+                  blocks: [{ type: "certificate", id: `cert-${result.ipId}`, bundle }],
+                });
+              } catch (e: any) {
+                chatAgent.addMessage("agent", `${t("cert.failed")} ${e?.shortMessage || e?.message || e}`);
+              }
+            }
           } else {
+            chatAgent.updateBlock(txBlockId, { status: "unknown" });
             chatAgent.updateStatus("Tx still pending on network. Check explorer.");
           }
-        } catch {
+        } catch (e: any) {
+          chatAgent.updateBlock(txBlockId, { status: "unknown", error: e?.shortMessage || e?.message || String(e) });
           chatAgent.updateStatus("Tx still pending on network. Check explorer.");
         }
       } else {
         chatAgent.addMessage("agent", `Register error: ${result.error}`);
         setToast("Register error ❌");
+        // keep the plan open: confirming again resumes at the failed step
+        return;
       }
-      
+
       chatAgent.clearPlan();
       registerAgent.resetRegister();
       setAnalyzedFile(null);
@@ -546,108 +905,175 @@ License Type: ${result.licenseType}`;
   }, [
     chatAgent,
     registerAgent,
+    swapAgent,
     analyzedFile,
+    dupCheck,
     publicClient,
-    explorerBase
+    explorerBase,
+    lastAIResult,
+    customTerms,
+    // the duplicate check must look in the collection executeRegister mints into
+    spgCollections.active,
+    // read through planLicenseSettings
+    selectedPilType,
+    selectedRevShare,
+    selectedLicensePrice,
+    t
   ]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const router = useRouter();
-  const handleButtonClick = useCallback((buttonText: string) => {
-    if (buttonText === "Register IP") {
-      // Start register flow by asking for file directly (no chat prompt)
-      fileInputRef.current?.click();
-      return;
-    }
-    if (buttonText === t("buttons.uploadFile") || buttonText === "Upload File") {
-      fileInputRef.current?.click();
-    } else if (buttonText === "🧠 Smart License") {
-      // Apply AI-recommended license settings from last analysis
-      if (lastAIResult && lastAIRec) {
-        const aiLicense = lastAIResult.licenseRecommendation.primary;
-        if (aiLicense === 'commercial') {
-          setSelectedPilType('commercial_remix');
-          setSelectedRevShare(lastAIResult.licenseRecommendation.suggestedTerms.commercialRevShare);
-          setSelectedLicensePrice(lastAIResult.licenseRecommendation.suggestedTerms.mintingFee);
-        } else if (aiLicense === 'remix') {
-          setSelectedPilType('commercial_remix');
-          setSelectedRevShare(lastAIResult.licenseRecommendation.suggestedTerms.commercialRevShare);
-          setSelectedLicensePrice(lastAIResult.licenseRecommendation.suggestedTerms.mintingFee);
+  const handleButtonClick = useCallback((action: ChatAction) => {
+    switch (action.id) {
+      case "register":
+      case "upload_file":
+        // Register starts by asking for the file directly (no chat prompt)
+        fileInputRef.current?.click();
+        return;
+      case "smart_license":
+        // Apply AI-recommended license settings from last analysis
+        if (lastAIResult && lastAIRec) {
+          const aiLicense = lastAIResult.licenseRecommendation.primary;
+          if (aiLicense === 'commercial') {
+            setSelectedPilType('commercial_remix');
+            setSelectedRevShare(lastAIResult.licenseRecommendation.suggestedTerms.commercialRevShare);
+            setSelectedLicensePrice(lastAIResult.licenseRecommendation.suggestedTerms.mintingFee);
+          } else if (aiLicense === 'remix') {
+            setSelectedPilType('commercial_remix');
+            setSelectedRevShare(lastAIResult.licenseRecommendation.suggestedTerms.commercialRevShare);
+            setSelectedLicensePrice(lastAIResult.licenseRecommendation.suggestedTerms.mintingFee);
+          } else {
+            setSelectedPilType('open_use');
+            setSelectedRevShare(0);
+            setSelectedLicensePrice(0);
+          }
+
+          const minForCustom = Number.parseInt(process.env.NEXT_PUBLIC_CUSTOM_LICENSE_MIN || '80', 10);
+          const allowCustom = lastAIResult.ipEligibility.score >= minForCustom;
+          const nextButtons = [chatAction("continue_registration"), ...(allowCustom ? [chatAction("custom_license")] : [])];
+          const st = lastAIResult.licenseRecommendation.suggestedTerms;
+          const body = t("smart.applied.body", {
+            message: lastAIRec.message,
+            license: lastAIRec.license,
+            aiLearning: lastAIRec.aiLearning,
+            mintingFee: st.mintingFee,
+            revShare: st.commercialRevShare,
+            commercialUse: st.commercialUse ? t("yes") : t("no"),
+            derivatives: st.derivativesAllowed ? t("yes") : t("no"),
+          });
+          const msg = `${t("smart.applied.title")}\n\n${body}`;
+          // remove buttons from previous message to avoid duplicate actions showing
+          try { chatAgent.updateLastMessage({ buttons: [] }); } catch {}
+          chatAgent.addMessage("agent", msg, nextButtons);
+          setToast(t("toasts.aiApplied"));
+          setSmartApplied(true);
+        } else {
+          setToast(t("toasts.noAI"));
+        }
+        return;
+      case "why":
+        if (lastAIResult && lastAIRec) {
+          const aiStatus = lastAIResult.aiDetection.isAIGenerated ? `AI-Generated (${Math.round(lastAIResult.aiDetection.confidence * 100)}%)` : 'Human-Created';
+          const qualityScore = `${lastAIResult.qualityAssessment.overall}/10`;
+          const ipScore = `${lastAIResult.ipEligibility.score}/100`;
+          const riskLevel = lastAIResult.ipEligibility.score >= 80 ? 'Low' : lastAIResult.ipEligibility.score >= 60 ? 'Medium' : 'High';
+          const tolerance = lastAIResult.ipEligibility.isEligible ? 'Good to register' : 'Proceed with caution';
+          const card = analysisCard(lastAIResult, t("details.title"), riskLevel === 'Low' ? 'ok' : riskLevel === 'Medium' ? 'warn' : 'danger', t, {
+            details: [
+              { label: t("details.ai"), value: aiStatus },
+              { label: t("details.quality"), value: qualityScore },
+              { label: t("details.ip"), value: `${ipScore} - ${lastAIResult.ipEligibility.isEligible ? 'eligible' : 'not eligible'}` },
+              { label: t("details.license"), value: lastAIRec.license },
+              { label: t("details.risk"), value: riskLevel },
+              { label: t("details.suggestion"), value: tolerance },
+            ],
+          });
+          chatAgent.addCompleteMessage({ role: "agent", text: "", ts: Date.now(), blocks: [card] });
+          void chatAgent.narrate(analysisNarrationPrompt(lastAIResult), "Analysis summary the user asked about: explain why each score came out this way");
         } else {
-          setSelectedPilType('open_use');
-          setSelectedRevShare(0);
-          setSelectedLicensePrice(0);
+          chatAgent.addMessage("agent", t("generic.noMoreDetails"));
         }
+        return;
+      case "custom_license":
+        setSmartApplied(false);
+        setShowCustomLicense(true);
+        return;
+      case "take_photo":
+        if (!referenceFile && analyzedFile) setReferenceFile(analyzedFile);
+        setAwaitingIdentity(true);
+        setShowCamera(true);
+        return;
+      case "submit_review":
+        setShowManualReview(true);
+        return;
+      case "browse":
+        try { router.push('/dashboard'); } catch {}
+        return;
+      case "copy_dhash":
+        if (lastDHash) {
+          navigator.clipboard.writeText(lastDHash).then(() => {
+            setToast("dHash copied ✅");
+          }).catch(() => setToast("Copy failed ❌"));
+        } else {
+          setToast("No dHash available ❌");
+        }
+        return;
+      case "continue_registration":
+        chatAgent.processAction(action, (referenceFile || analyzedFile) || undefined);
+        return;
+      case "register_remix":
+        chatAgent.processAction(action, analyzedFile || undefined);
+        return;
+      case "open_session":
+        if (action.payload) handleOpenSession(action.payload.sessionId);
+        return;
+      default:
+        if (CHAT_ACTIONS[action.id].handler === "engine") chatAgent.processAction(action);
+    }
+  }, [chatAgent, analyzedFile, referenceFile, lastDHash, lastAIResult, lastAIRec, t, router, handleOpenSession]);
+
+  // Inline register-details form: lock it, then hand the values to the engine
+  const handleFormSubmit = useCallback((blockId: string, values: Record<string, string>) => {
+    chatAgent.updateBlock(blockId, { submitted: true });
+    chatAgent.processAction(chatAction("submit_register_details", {
+      name: values.name || "",
+      description: values.description || "",
+    }));
+  }, [chatAgent]);
 
-        const minForCustom = Number.parseInt(process.env.NEXT_PUBLIC_CUSTOM_LICENSE_MIN || '80', 10);
-        const allowCustom = lastAIResult.ipEligibility.score >= minForCustom;
-        const nextButtons = [t("buttons.continue"), ...(allowCustom ? [t("buttons.customLicense")] : [])];
-        const st = lastAIResult.licenseRecommendation.suggestedTerms;
-        const body = t("smart.applied.body", {
-          message: lastAIRec.message,
-          license: lastAIRec.license,
-          aiLearning: lastAIRec.aiLearning,
-          mintingFee: st.mintingFee,
-          revShare: st.commercialRevShare,
-          commercialUse: st.commercialUse ? t("yes") : t("no"),
-          derivatives: st.derivativesAllowed ? t("yes") : t("no"),
-        });
-        const msg = `${t("smart.applied.title")}\n\n${body}`;
-        // remove buttons from previous message to avoid duplicate actions showing
-        try { chatAgent.updateLastMessage({ buttons: [] }); } catch {}
-        chatAgent.addMessage("agent", msg, nextButtons);
-        setToast(t("toasts.aiApplied"));
-        setSmartApplied(true);
-      } else {
-        setToast(t("toasts.noAI"));
-      }
-    } else if (buttonText === "Why?") {
-      if (lastAIResult && lastAIRec) {
-        const aiStatus = lastAIResult.aiDetection.isAIGenerated ? `AI-Generated (${Math.round(lastAIResult.aiDetection.confidence * 100)}%)` : 'Human-Created';
-        const qualityScore = `${lastAIResult.qualityAssessment.overall}/10`;
-        const ipScore = `${lastAIResult.ipEligibility.score}/100`;
-        const riskLevel = lastAIResult.ipEligibility.score >= 80 ? 'Low' : lastAIResult.ipEligibility.score >= 60 ? 'Medium' : 'High';
-        const tolerance = lastAIResult.ipEligibility.isEligible ? 'Good to register' : 'Proceed with caution';
-        const details = `${t("details.title")}\n${t("details.ai")}: ${aiStatus}\n${t("details.quality")}: ${qualityScore}\n${t("details.ip")}: ${ipScore} - ${lastAIResult.ipEligibility.isEligible ? 'eligible' : 'not eligible'}\n${t("details.license")}: ${lastAIRec.license}\n${t("details.risk")}: ${riskLevel}\n${t("details.suggestion")}: ${tolerance}`;
-        chatAgent.addMessage("agent", details);
-      } else {
-        chatAgent.addMessage("agent", t("generic.noMoreDetails"));
-      }
-    } else if (buttonText === t("buttons.continue") || buttonText === "Continue Registration") {
-      chatAgent.processPrompt(buttonText, (referenceFile || analyzedFile) || undefined);
-    } else if (buttonText === t("buttons.customLicense") || buttonText === "Custom License" || buttonText === "🎯 Smart License") {
-      setSmartApplied(false);
-      setShowCustomLicense(true);
-    } else if (buttonText === "Take Photo") {
-      if (!referenceFile && analyzedFile) setReferenceFile(analyzedFile);
-      setAwaitingIdentity(true);
-      setShowCamera(true);
-    } else if (buttonText === "Submit for Review") {
-      setShowManualReview(true);
-    } else if (buttonText === "Browse IP") {
-      try { router.push('/dashboard'); } catch {}
-    } else if (buttonText === "Copy dHash") {
-      if (lastDHash) {
-        navigator.clipboard.writeText(lastDHash).then(() => {
-          setToast("dHash copied ✅");
-        }).catch(() => setToast("Copy failed ❌"));
-      } else {
-        setToast("No dHash available ❌");
-      }
-    } else {
-      chatAgent.processPrompt(buttonText);
+  const handleFilesSelect = useCallback((files: File[]) => {
+    const { accepted, skipped } = batch.addFiles(files);
+    if (accepted === 0) {
+      if (skipped > 0) setToast(t("batch.noneAdded", { skipped }));
+      return;
     }
-  }, [chatAgent, analyzedFile, lastDHash, analysis, recommendation]);
+    chatAgent.clearPlan();
+    chatAgent.addMessage("agent", `📦 ${accepted} ${t("batch.queued")}`);
+    setToast(skipped > 0 ? t("batch.addedSkipped", { accepted, skipped }) : t("batch.added", { accepted }));
+  }, [chatAgent, batch, t]);
+
+  const handleBatchStart = useCallback(async () => {
+    const summary = await batch.start();
+    if (!summary) return;
+    chatAgent.addMessage("agent", `${t("batch.summary")}: ✅ ${summary.success} • ❌ ${summary.failed} • ⏭ ${summary.skipped}`);
+    setToast(summary.failed > 0 ? t("batch.toast.errors") : t("batch.toast.done"));
+  }, [batch, chatAgent, t]);
 
   const handleFileInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const selected = event.target.files ? Array.from(event.target.files) : [];
+    if (selected.length > 1) {
+      handleFilesSelect(selected);
+      event.target.value = '';
+      return;
+    }
+    const file = selected[0];
     if (file) {
       fileUpload.handleFileSelect(file);
       // Reset input for re-selection of same file
       event.target.value = '';
     }
-  }, [fileUpload]);
+  }, [fileUpload, handleFilesSelect]);
 
   const verifyIdentityPhoto = useCallback(async (capture: File) => {
     if (!referenceFile) return;
@@ -659,7 +1085,7 @@ License Type: ${result.licenseType}`;
         const faces = await countFaces(capture);
         if (faces > 1) {
           setToast('Multiple faces detected ❌');
-          chatAgent.addMessage('agent', 'Multiple faces detected in the photo. Please retake with only one face clearly visible.', ['Take Photo', 'Submit for Review']);
+          chatAgent.addMessage('agent', 'Multiple faces detected in the photo. Please retake with only one face clearly visible.', [chatAction('take_photo'), chatAction('submit_review')]);
           return;
         }
       } catch {}
@@ -683,7 +1109,7 @@ License Type: ${result.licenseType}`;
         }
         setToast('Identity mismatch ❌');
         chatAgent.addMessage('agent', `Identity check failed (similarity ${sim.toFixed(3)} < ${simTh}). Please retake photo or upload proof.`);
-        chatAgent.addMessage('agent', 'You can take another photo or submit for review.', ['Take Photo', 'Submit for Review']);
+        chatAgent.addMessage('agent', 'You can take another photo or submit for review.', [chatAction('take_photo'), chatAction('submit_review')]);
         return;
       }
 
@@ -726,7 +1152,7 @@ License Type: ${result.licenseType}`;
       } else {
         setToast('Identity mismatch ❌');
         chatAgent.addMessage('agent', `Identity check failed (distance ${best} > ${th}). Please retake photo or upload proof.`);
-        chatAgent.addMessage('agent', 'You can take another photo or submit for review.', ['Take Photo', 'Submit for Review']);
+        chatAgent.addMessage('agent', 'You can take another photo or submit for review.', [chatAction('take_photo'), chatAction('submit_review')]);
       }
     } catch (e) {
       setToast('Identity check error ❌');
@@ -789,30 +1215,49 @@ License Type: ${result.licenseType}`;
                   messages={chatAgent.messages}
                   onButtonClick={handleButtonClick}
                   isTyping={chatAgent.isTyping}
+                  onCancelStream={chatAgent.cancelStream}
+                  onFormSubmit={handleFormSubmit}
                 />
 
 
                 {/* Plan Box */}
                 {chatAgent.currentPlan && (() => {
                   const base = chatAgent.currentPlan;
+                  if (base.type === "swap") {
+                    return (
+                      <PlanBox
+                        plan={base}
+                        onConfirm={executePlan}
+                        onCancel={chatAgent.clearPlan}
+                        swapState={swapAgent.swapState}
+                      />
+                    );
+                  }
                   const steps = [...base.steps];
                   const idx = steps.findIndex(s => /^License:/i.test(s) || /^Lisensi:/i.test(s));
                   let label = selectedPilType === 'open_use' ? 'Open Use' : 'Commercial Remix';
                   if (smartApplied && lastAIResult?.licenseRecommendation.primary === 'remix') label = 'Remix License';
                   if (smartApplied && lastAIResult?.licenseRecommendation.primary === 'nonCommercial') label = 'Non-Commercial';
                   const line = /^Lisensi:/i.test(steps[idx] || '') ? `Lisensi: ${label}` : `License: ${label}`;
-                  if (idx >= 0) steps[idx] = line; else steps.push(line);
+                  // Remixes keep the parent's terms line from the engine
+                  if (!base.intent.parentIpId) { if (idx >= 0) steps[idx] = line; else steps.push(line); }
                   const planToShow = { ...base, steps } as typeof base;
                   return (
                     <PlanBox
                       plan={planToShow}
                       onConfirm={executePlan}
-                      onCancel={chatAgent.clearPlan}
+                      onCancel={() => {
+                        const file = chatAgent.getEngineFile() || analyzedFile;
+                        if (file) void registerAgent.discardRegisterDraft(file);
+                        chatAgent.clearPlan();
+                        registerAgent.resetRegister();
+                      }}
                       registerState={registerAgent.registerState}
                       selectedPilType={selectedPilType}
                       selectedRevShare={selectedRevShare}
                       selectedLicensePrice={selectedLicensePrice}
-                      hideLicenseControls={smartApplied || !!customTerms}
+                      hideLicenseControls={smartApplied || !!customTerms || !!base.intent.parentIpId}
+                      onEdit={chatAgent.editPlan}
                       onLicenseChange={({ pilType, revShare, licensePrice }) => {
                         if (pilType) setSelectedPilType(pilType);
                         if (typeof revShare === 'number') setSelectedRevShare(revShare);
@@ -821,6 +1266,24 @@ License Type: ${result.licenseType}`;
                     />
                   );
                 })()}
+
+                {/* Batch Plan */}
+                {batch.items.length > 0 && (
+                  <BatchPlanBox
+                    items={batch.items}
+                    running={batch.running}
+                    activeId={batch.activeId}
+                    activeState={batch.activeState}
+                    onChange={batch.updateItem}
+                    onApplyToAll={batch.applyToAll}
+                    onStart={handleBatchStart}
+                    onStop={batch.stop}
+                    onCancel={batch.clear}
+                    onRetry={batch.retryItem}
+                    onSkip={batch.skipItem}
+                    onRemove={batch.removeItem}
+                  />
+                )}
               </div>
             </div>
 
@@ -832,6 +1295,11 @@ License Type: ${result.licenseType}`;
                 file={fileUpload.file}
                 onFileSelect={fileUpload.handleFileSelect}
                 onFileRemove={fileUpload.removeFile}
+                onFilesSelect={handleFilesSelect}
+                queuedFiles={batch.items
+                  .filter(it => it.status !== 'success' && it.status !== 'registering')
+                  .map(it => ({ id: it.id, name: it.file.name }))}
+                onQueueRemove={batch.removeItem}
                 previewUrl={fileUpload.previewUrl}
                 isTyping={chatAgent.isTyping}
                 awaitingInput={chatAgent.awaitingInput}
@@ -846,7 +1314,8 @@ License Type: ${result.licenseType}`;
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={MEDIA_ACCEPT}
+        multiple
         onChange={handleFileInputChange}
         style={{ display: 'none' }}
       />
@@ -892,6 +1361,13 @@ License Type: ${result.licenseType}`;
         onClose={() => setToast(null)}
       />
 
+      {/* Command Palette (Ctrl/⌘+K) */}
+      <CommandPalette
+        open={showPalette}
+        onClose={() => setShowPalette(false)}
+        onRun={(command) => chatAgent.processPrompt(command, fileUpload.file || undefined)}
+      />
+
       {/* Manual Review Modal */}
       <ManualReviewModal
         open={showManualReview}
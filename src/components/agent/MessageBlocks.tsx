@@ -0,0 +1,238 @@
+import React, { useState } from "react";
+import { CheckCircle2, CircleDashed, Loader2, XCircle } from "lucide-react";
+import type { MessageBlock } from "@/types/agents";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+import { certificatePdf, proofBundleBlob, verifyProofBundle, type VerificationResult } from "@/lib/certificate";
+import { downloadBlob } from "@/lib/utils/pdf";
+
+type BlockOf<T extends MessageBlock["type"]> = Extract<MessageBlock, { type: T }>;
+
+interface MessageBlocksProps {
+  blocks: MessageBlock[];
+  onFormSubmit?: (blockId: string, values: Record<string, string>) => void;
+}
+
+const TONE_CLASSES: Record<BlockOf<"analysis">["tone"], string> = {
+  ok: "border-emerald-400/30 bg-emerald-500/10",
+  warn: "border-amber-400/30 bg-amber-500/10",
+  danger: "border-red-400/30 bg-red-500/10",
+};
+
+function AnalysisCard({ block }: { block: BlockOf<"analysis"> }) {
+  return (
+    <div className={`rounded-xl border px-3 py-2 ${TONE_CLASSES[block.tone]}`}>
+      <div className="font-semibold text-sm">{block.title}</div>
+      {block.subtitle && <div className="text-xs text-white/70">{block.subtitle}</div>}
+      {block.scores.length > 0 && (
+        <div className="mt-2 space-y-1.5">
+          {block.scores.map((s, i) => (
+            <div key={i}>
+              <div className="flex justify-between text-xs text-white/70">
+                <span>{s.label}</span>
+                <span>{s.value}/{s.max}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full bg-sky-400" style={{ width: `${Math.max(0, Math.min(100, (s.value / (s.max || 1)) * 100))}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {block.details && block.details.length > 0 && (
+        <dl className="mt-2 grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-xs">
+          {block.details.map((d, i) => (
+            <React.Fragment key={i}>
+              <dt className="text-white/60">{d.label}</dt>
+              <dd className="text-white/90">{d.value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+function TermsTable({ block }: { block: BlockOf<"terms_table"> }) {
+  return (
+    <div>
+      {block.title && <div className="text-xs text-white/60 mb-1">{block.title}</div>}
+      <div className="overflow-x-auto rounded-lg border border-white/10">
+        <table className="w-full text-xs">
+          <thead className="bg-white/5">
+            <tr>
+              {block.columns.map((c, i) => (
+                <th key={i} className="px-2 py-1.5 text-left font-medium text-white/80">{c}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, i) => (
+              <tr key={i} className="border-t border-white/10">
+                {row.map((cell, j) => (
+                  <td key={j} className="px-2 py-1.5 text-white/90">{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function InlineForm({ block, onSubmit }: { block: BlockOf<"form">; onSubmit?: MessageBlocksProps["onFormSubmit"] }) {
+  const { t } = useI18n();
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(block.fields.map(f => [f.name, f.value]))
+  );
+  const disabled = !!block.submitted || !onSubmit;
+  const inputClass = "w-full rounded-md bg-black/30 border border-white/15 px-2 py-1.5 text-sm text-white focus:outline-none focus:border-sky-400 disabled:opacity-60";
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!disabled) onSubmit?.(block.id, values);
+      }}
+    >
+      {block.fields.map(f => (
+        <label key={f.name} className="block">
+          <span className="text-xs text-white/60">{f.label}</span>
+          {f.multiline ? (
+            <textarea
+              className={inputClass}
+              rows={3}
+              value={values[f.name] ?? ""}
+              disabled={disabled}
+              onChange={(e) => setValues(v => ({ ...v, [f.name]: e.target.value }))}
+            />
+          ) : (
+            <input
+              className={inputClass}
+              value={values[f.name] ?? ""}
+              disabled={disabled}
+              onChange={(e) => setValues(v => ({ ...v, [f.name]: e.target.value }))}
+            />
+          )}
+        </label>
+      ))}
+      <button
+        type="submit"
+        disabled={disabled || !values.name?.trim()}
+        className="px-3 py-1.5 text-sm rounded-lg bg-sky-500/90 hover:bg-sky-400 text-white border border-sky-400/30 disabled:opacity-50 disabled:hover:bg-sky-500/90"
+      >
+        {block.submitted ? t("blocks.submitted") : t("buttons.saveDetails")}
+      </button>
+    </form>
+  );
+}
+
+function TxStatus({ block }: { block: BlockOf<"tx_status"> }) {
+  const { t } = useI18n();
+  const icon = block.status === "confirmed"
+    ? <CheckCircle2 className="h-4 w-4 text-emerald-400" />
+    : block.status === "failed"
+    ? <XCircle className="h-4 w-4 text-red-400" />
+    : block.status === "unknown"
+    ? <CircleDashed className="h-4 w-4 text-amber-300" />
+    : <Loader2 className="h-4 w-4 text-sky-300 animate-spin" />;
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-black/20 px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        {icon}
+        <span className="font-medium text-white/90">{block.label}</span>
+        <span className="text-white/60">{t(`tx.${block.status}`)}</span>
+      </div>
+      {block.error && <div className="mt-1 text-red-300 break-words">{block.error}</div>}
+      {block.url && (
+        <a href={block.url} target="_blank" rel="noopener noreferrer" className="mt-1 inline-block text-sky-300 hover:text-sky-200 underline decoration-sky-300/50">
+          {t("tx.view")}{block.txHash ? ` ${block.txHash.slice(0, 10)}…` : ""}
+        </a>
+      )}
+    </div>
+  );
+}
+
+function Certificate({ block }: { block: BlockOf<"certificate"> }) {
+  const { t } = useI18n();
+  const { bundle } = block;
+  const [verifying, setVerifying] = useState(false);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const filename = `superlee-certificate-${bundle.ipId.slice(0, 10)}`;
+
+  const verify = async () => {
+    setVerifying(true);
+    setError(null);
+    try {
+      setResult(await verifyProofBundle(bundle));
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-xs">
+      <div className="font-semibold text-sm">{t("cert.title")}</div>
+      <div className="text-white/60">
+        {t("cert.subtitle", { title: bundle.title, date: new Date(bundle.tx.blockTimestamp * 1000).toLocaleString() })}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button className="rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5" onClick={() => downloadBlob(certificatePdf(bundle), `${filename}.pdf`)}>
+          {t("cert.downloadPdf")}
+        </button>
+        <button className="rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5" onClick={() => downloadBlob(proofBundleBlob(bundle), `${filename}.json`)}>
+          {t("cert.downloadJson")}
+        </button>
+        <button className="rounded-lg border border-white/15 px-2 py-1 text-xs hover:bg-white/5 disabled:opacity-50" onClick={verify} disabled={verifying}>
+          {verifying ? t("cert.verifying") : t("cert.verify")}
+        </button>
+      </div>
+      {error && <div className="mt-1 text-red-300 break-words">{error}</div>}
+      {result && (
+        <div className="mt-2 space-y-1">
+          <div className={result.ok ? "text-emerald-300" : "text-red-300"}>{t(result.ok ? "cert.verified" : "cert.mismatch")}</div>
+          {result.checks.map(c => (
+            <div key={c.id} className="flex items-start gap-2">
+              {c.ok === true
+                ? <CheckCircle2 className="h-3.5 w-3.5 mt-0.5 shrink-0 text-emerald-400" />
+                : c.ok === false
+                ? <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-red-400" />
+                : <CircleDashed className="h-3.5 w-3.5 mt-0.5 shrink-0 text-white/40" />}
+              <span className="text-white/80">{t(`cert.check.${c.id}`)}</span>
+              {c.detail && <span className="text-white/50 break-all">{c.detail}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MessageBlocks({ blocks, onFormSubmit }: MessageBlocksProps) {
+  return (
+    <div className="mt-3 space-y-3">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case "analysis":
+            return <AnalysisCard key={i} block={block} />;
+          case "terms_table":
+            return <TermsTable key={i} block={block} />;
+          case "form":
+            return <InlineForm key={block.id} block={block} onSubmit={onFormSubmit} />;
+          case "tx_status":
+            return <TxStatus key={block.id} block={block} />;
+          case "certificate":
+            return <Certificate key={block.id} block={block} />;
+          default:
+            // unknown block from a newer/older saved chat
+            return null;
+        }
+      })}
+    </div>
+  );
+}
@@ -1,11 +1,16 @@
 import React from "react";
-import { Bot, User, CheckCheck, Clock } from "lucide-react";
+import { Bot, User, CheckCheck, Clock, Square } from "lucide-react";
 import type { Message } from "@/types/agents";
+import type { ChatAction } from "@/lib/agent/actions";
+import { useI18n } from "@/lib/i18n/I18nProvider";
+import { MessageBlocks } from "./MessageBlocks";
 
 interface MessageListProps {
   messages: Message[];
-  onButtonClick?: (buttonText: string) => void;
+  onButtonClick?: (action: ChatAction) => void;
   isTyping?: boolean;
+  onCancelStream?: () => void;
+  onFormSubmit?: (blockId: string, values: Record<string, string>) => void;
 }
 
 function formatTimestamp(ts: number): string {
@@ -51,7 +56,9 @@ function TypingIndicator() {
   );
 }
 
-export function MessageList({ messages, onButtonClick, isTyping }: MessageListProps) {
+export function MessageList({ messages, onButtonClick, isTyping, onCancelStream, onFormSubmit }: MessageListProps) {
+  const { t } = useI18n();
+
   if (messages.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12 px-4">
@@ -145,10 +152,33 @@ export function MessageList({ messages, onButtonClick, isTyping }: MessageListPr
                             }}
                           >
                             {message.text}
+                            {message.streaming && (
+                              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-white/70 animate-pulse" aria-hidden />
+                            )}
                           </pre>
                         )}
                       </div>
 
+                      {/* Stop a reply that is still streaming */}
+                      {message.streaming && onCancelStream && (
+                        <button
+                          onClick={onCancelStream}
+                          className="mt-2 inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-white/10 hover:bg-white/20 text-white/80 border border-white/10 transition-colors"
+                          title="Stop"
+                        >
+                          <Square className="h-3 w-3" />
+                          Stop
+                        </button>
+                      )}
+
+                      {/* Structured blocks (cards, tables, forms, tx status) */}
+                      {message.blocks && message.blocks.length > 0 && (
+                        // form fields need focus, unlike the rest of the bubble
+                        <div onMouseDown={(e) => e.stopPropagation()}>
+                          <MessageBlocks blocks={message.blocks} onFormSubmit={onFormSubmit} />
+                        </div>
+                      )}
+
                       {/* Image display */}
                       {message.image && (
                         <div className="mt-3">
@@ -193,14 +223,14 @@ export function MessageList({ messages, onButtonClick, isTyping }: MessageListPr
                     <div className={`flex flex-wrap gap-2 ${
                       isUser ? "justify-end" : "justify-start"
                     }`}>
-                      {message.buttons.map((button, buttonIndex) => (
+                      {message.buttons.map((action, buttonIndex) => (
                         <button
                           key={buttonIndex}
-                          onClick={() => onButtonClick?.(button)}
+                          onClick={() => onButtonClick?.(action)}
                           className="px-3 py-2 text-sm rounded-lg bg-sky-500/90 hover:bg-sky-400 text-white border border-sky-400/30 transition-bounce hover:scale-105 hover:shadow-xl hover-lift focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-300/80 focus-visible:ring-offset-2 focus-visible:ring-offset-black/40"
-                          title={button}
+                          title={t(action.labelKey)}
                         >
-                          {button}
+                          {t(action.labelKey)}
                         </button>
                       ))}
                     </div>
@@ -3,6 +3,7 @@ export type Localizer = (k: string) => string;
 export function statusText(t: Localizer, status?: string) {
   switch (status) {
     case 'compressing': return t('status.compressing');
+    case 'preparing-media': return t('status.preparingMedia');
     case 'uploading-image': return t('status.uploadingImage');
     case 'creating-metadata': return t('status.creatingMetadata');
     case 'uploading-metadata': return t('status.uploadingMetadata');
@@ -12,3 +13,26 @@ export function statusText(t: Localizer, status?: string) {
     default: return '';
   }
 }
+
+export function registerStepText(t: Localizer, step?: string) {
+  switch (step) {
+    case 'compress': return t('register.step.compress');
+    case 'upload-media': return t('register.step.uploadMedia');
+    case 'ip-metadata': return t('register.step.ipMetadata');
+    case 'nft-metadata': return t('register.step.nftMetadata');
+    case 'mint': return t('register.step.mint');
+    default: return '';
+  }
+}
+
+export function swapStatusText(t: Localizer, status?: string) {
+  switch (status) {
+    case 'quoting': return t('swap.quoting');
+    case 'checking-allowance': return t('swap.status.checkingAllowance');
+    case 'approving': return t('swap.status.approving');
+    case 'swapping': return t('swap.status.swapping');
+    case 'success': return t('swap.status.success');
+    case 'error': return t('swap.status.error');
+    default: return '';
+  }
+}
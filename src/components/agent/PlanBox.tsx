@@ -1,29 +1,71 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Check, X } from "lucide-react";
-import type { Plan, RegisterState } from "@/types/agents";
+import type { Plan, RegisterState, SwapState } from "@/types/agents";
 import { useI18n } from "@/lib/i18n/I18nProvider";
-import { statusText } from "./PlanBox.local";
+import { registerStepText, statusText, swapStatusText } from "./PlanBox.local";
+import { CreatorsEditor } from "./CreatorsEditor";
+import { CollectionPicker } from "./CollectionPicker";
+import { validateCreators } from "@/lib/creators";
+import type { RegisterSlotsPatch } from "@/lib/agent/superlee";
 
 interface PlanBoxProps {
   plan: Plan;
   onConfirm: () => void;
   onCancel: () => void;
   registerState?: RegisterState;
+  swapState?: SwapState;
   onLicenseChange?: (data: { pilType: 'open_use' | 'commercial_remix'; revShare?: number; licensePrice?: number }) => void;
   selectedPilType?: 'open_use' | 'commercial_remix';
   selectedRevShare?: number;
   selectedLicensePrice?: number;
   hideLicenseControls?: boolean;
+  onEdit?: (patch: RegisterSlotsPatch) => void;
 }
 
-export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseChange, selectedPilType, selectedRevShare, selectedLicensePrice, hideLicenseControls }: PlanBoxProps) {
+export function PlanBox({ plan, onConfirm, onCancel, registerState, swapState, onLicenseChange, selectedPilType, selectedRevShare, selectedLicensePrice, hideLicenseControls, onEdit }: PlanBoxProps) {
   const { t } = useI18n();
-  const isExecuting = (plan.type === "register" && registerState?.status !== 'idle' && registerState?.status !== 'error');
+  const editable = plan.type === "register" && !!onEdit;
+  const intentTitle = plan.type === "register" ? plan.intent.title || "" : "";
+  const intentPrompt = plan.type === "register" ? plan.intent.prompt || "" : "";
+  const creators = plan.type === "register" ? plan.intent.creators || [] : [];
+  const creatorsError = validateCreators(creators);
+  const [draftTitle, setDraftTitle] = useState(intentTitle);
+  const [draftDesc, setDraftDesc] = useState(intentPrompt);
+  useEffect(() => { setDraftTitle(intentTitle); }, [intentTitle]);
+  useEffect(() => { setDraftDesc(intentPrompt); }, [intentPrompt]);
+
+  const commitEdit = () => {
+    const patch: RegisterSlotsPatch = {};
+    if (draftTitle.trim() && draftTitle.trim() !== intentTitle) patch.name = draftTitle;
+    if (draftDesc.trim() && draftDesc.trim() !== intentPrompt) patch.description = draftDesc;
+    if (patch.name != null || patch.description != null) onEdit?.(patch);
+  };
+  // name/description/creators lines are rendered as inputs when editable
+  const steps = editable
+    ? plan.steps.filter(step => !step.startsWith(`${t('plan.name')} "`) && !step.startsWith(`${t('plan.description')} "`)
+      && !step.startsWith(t('plan.creators')) && step !== t('plan.royaltySplit'))
+    : plan.steps;
+  const isExecuting = (plan.type === "register" && registerState?.status !== 'idle' && registerState?.status !== 'error')
+    || (plan.type === "swap" && !!swapState && !['idle', 'quoted', 'error'].includes(swapState.status));
+  // preview passed but failed the guard (e.g. price impact above limit)
+  const quoteBlocked = plan.type === "swap" && swapState?.status === 'quoted' && !!swapState.error;
+  // quote preview runs before confirm; it should not look like a pending tx
+  const isQuotePreview = plan.type === "swap" && swapState?.status === 'quoting' && !swapState.quote;
+  const simulation = plan.type === "register" && !isExecuting ? registerState?.simulation : undefined;
+  // the dry run reverted: signing would only burn gas
+  const simulationBlocked = simulation?.status === 'revert';
+  // a failed registration resumes at the step that failed; earlier outputs are reused
+  const failedStep = plan.type === "register" && registerState?.status === 'error'
+    ? registerStepText(t, registerState.failedStep)
+    : "";
 
   const getStatusText = () => {
     if (plan.type === "register" && registerState) {
       return statusText(t, registerState.status);
     }
+    if (plan.type === "swap" && swapState) {
+      return swapStatusText(t, swapState.status);
+    }
     return "";
   };
 
@@ -31,17 +73,83 @@ export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseCha
     if (plan.type === "register" && registerState) {
       return registerState.progress;
     }
+    if (plan.type === "swap" && swapState) {
+      return swapState.progress;
+    }
     return 0;
   };
 
   return (
     <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+      {editable && (
+        <div className="mb-3 grid grid-cols-1 gap-2 text-sm">
+          <label className="flex flex-col gap-1">
+            {t('plan.name')}
+            <input
+              className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
+              value={draftTitle}
+              disabled={isExecuting}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onBlur={commitEdit}
+              onKeyDown={(e) => { if (e.key === 'Enter') commitEdit(); }}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('plan.description')}
+            <textarea
+              rows={2}
+              className="bg-transparent border border-white/20 rounded p-2 resize-none disabled:opacity-50"
+              value={draftDesc}
+              disabled={isExecuting}
+              onChange={(e) => setDraftDesc(e.target.value)}
+              onBlur={commitEdit}
+            />
+          </label>
+        </div>
+      )}
+
       <div className="space-y-1 text-sm">
-        {plan.steps.map((step, index) => (
+        {steps.map((step, index) => (
           <div key={index}>{step}</div>
         ))}
       </div>
 
+      {plan.type === 'swap' && swapState && (
+        <div className="mt-3 rounded-xl border border-white/10 bg-white/5 p-3 text-sm">
+          {swapState.quote ? (
+            <div className="space-y-1">
+              <div>
+                {t('swap.quote')} {swapState.quote.amountIn} {swapState.quote.symbolIn} → ~{swapState.quote.amountOut} {swapState.quote.symbolOut}
+              </div>
+              <div className="text-xs opacity-70">
+                {t('swap.minReceived')} {swapState.quote.minAmountOut} {swapState.quote.symbolOut} · {t('swap.slippage')} {swapState.quote.slippageBps / 100}%
+                {swapState.quote.priceImpactPct != null && <> · {t('swap.priceImpact')} {swapState.quote.priceImpactPct.toFixed(2)}%</>}
+              </div>
+              {quoteBlocked && (
+                <div className="text-xs text-amber-300">{swapState.error?.message}</div>
+              )}
+            </div>
+          ) : swapState.status === 'quoting' ? (
+            <div className="opacity-70">{t('swap.quoting')}</div>
+          ) : swapState.status === 'error' ? (
+            <div className="text-red-300">{t('swap.quoteFailed')} {swapState.error?.message || t('planBox.unknownError')}</div>
+          ) : null}
+        </div>
+      )}
+
+      {editable && plan.type === 'register' && (
+        <CreatorsEditor
+          creators={creators}
+          splitRoyalties={!!plan.intent.splitRoyalties}
+          disabled={isExecuting}
+          onChange={(patch) => onEdit?.(patch)}
+        />
+      )}
+
+      {plan.type === 'register' && !plan.intent.existingNft && (
+        <CollectionPicker disabled={isExecuting} />
+      )}
+
       {plan.type === 'register' && !hideLicenseControls && (
         <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
           <label className="flex flex-col gap-1">
@@ -49,7 +157,7 @@ export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseCha
             <select
               className="bg-transparent border border-white/20 rounded p-2"
               onChange={(e) => onLicenseChange?.({ pilType: (e.target.value as any) })}
-              defaultValue={selectedPilType || 'open_use'}
+              value={selectedPilType || 'open_use'}
             >
               <option value="open_use">{t('license.option.openUse')}</option>
               <option value="commercial_remix">{t('license.option.commercialRemix')}</option>
@@ -63,7 +171,7 @@ export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseCha
               min={0}
               max={100}
               step={1}
-              defaultValue={selectedRevShare ?? 0}
+              value={selectedRevShare ?? 0}
               disabled={(selectedPilType || 'open_use') !== 'commercial_remix'}
               onChange={(e) => onLicenseChange?.({ pilType: selectedPilType || 'open_use', revShare: Number(e.target.value) })}
             />
@@ -75,7 +183,7 @@ export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseCha
               className="bg-transparent border border-white/20 rounded p-2 disabled:opacity-50"
               min={0}
               step={0.0001}
-              defaultValue={selectedLicensePrice ?? 0}
+              value={selectedLicensePrice ?? 0}
               disabled={(selectedPilType || 'open_use') !== 'commercial_remix'}
               onChange={(e) => onLicenseChange?.({ pilType: selectedPilType || 'open_use', licensePrice: Number(e.target.value) })}
             />
@@ -83,8 +191,33 @@ export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseCha
         </div>
       )}
 
+      {simulation && (
+        <div className="mt-3 rounded-xl border border-white/10 bg-white/5 p-3 text-sm">
+          {simulation.status === 'simulating' ? (
+            <div className="opacity-70">{t('simulate.running')}</div>
+          ) : (
+            <div className="space-y-1">
+              {(simulation.gasCost || simulation.mintFee) && (
+                <div className="text-xs opacity-70">
+                  {simulation.gasCost && <>{t('simulate.gas')} ~{simulation.gasCost} IP{simulation.approximate && ` ${t('simulate.approximate')}`} · </>}
+                  {t('simulate.mintFee')} {simulation.mintFee} {simulation.mintFeeSymbol}
+                  {simulation.totalCost && <> · {t('simulate.total')} ~{simulation.totalCost} IP</>}
+                </div>
+              )}
+              {simulation.status === 'ok' && <div className="text-emerald-300">{t('simulate.go')}</div>}
+              {simulation.status === 'revert' && (
+                <div className="text-red-300">{t('simulate.noGo')} {simulation.reasonKey ? t(simulation.reasonKey) : simulation.reason}</div>
+              )}
+              {simulation.status === 'unavailable' && (
+                <div className="text-amber-300">{t('simulate.unavailable')} {simulation.reasonKey ? t(simulation.reasonKey) : simulation.reason}</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Progress indicator */}
-      {isExecuting && (
+      {isExecuting && !isQuotePreview && (
         <div className="mt-3 space-y-2">
           <div className="flex items-center justify-between text-xs">
             <span className="opacity-70">{getStatusText()}</span>
@@ -104,10 +237,10 @@ export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseCha
         <button
           className="rounded-2xl bg-sky-500/90 hover:bg-sky-400 text-white px-4 py-2 inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
           onClick={onConfirm}
-          disabled={isExecuting}
+          disabled={isExecuting || quoteBlocked || !!creatorsError || simulationBlocked}
         >
           <Check className="h-4 w-4" />
-          {isExecuting ? getStatusText() : t('planBox.confirm')}
+          {isExecuting && !isQuotePreview ? getStatusText() : failedStep ? t('planBox.retryStep', { step: failedStep }) : t('planBox.confirm')}
         </button>
         
         <button
@@ -121,11 +254,17 @@ export function PlanBox({ plan, onConfirm, onCancel, registerState, onLicenseCha
       </div>
 
       {/* Error display */}
-      {(registerState?.status === 'error' && registerState.error) && (
+      {(plan.type === 'register' && registerState?.status === 'error' && registerState.error) && (
         <div className="mt-3 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-300 text-sm">
+          {failedStep && <div className="text-xs opacity-80 mb-1">{t('planBox.failedAt', { step: failedStep })}</div>}
           {t('planBox.error')} {registerState?.error?.message || t('planBox.unknownError')}
         </div>
       )}
+      {(plan.type === 'swap' && swapState?.status === 'error' && swapState.quote && swapState.error) && (
+        <div className="mt-3 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-300 text-sm">
+          {t('planBox.error')} {swapState.error?.shortMessage || swapState.error?.message || t('planBox.unknownError')}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,197 @@
+import { useState, useCallback, useRef } from "react";
+import { useAccount, usePublicClient } from "wagmi";
+import { useRegisterIPAgent } from "@/hooks/useRegisterIPAgent";
+import { analyzeImageForIP, imageToBase64 } from "@/lib/openai";
+import { isSupportedMedia, mediaHashOf, mediaKindOf } from "@/lib/utils/media";
+import { checkDuplicateQuick } from "@/lib/utils/registry";
+import { activeCollection } from "@/lib/collections";
+import { DEFAULT_LICENSE_SETTINGS } from "@/lib/license/terms";
+import type { LicenseSettings } from "@/lib/license/terms";
+import type { BatchItem } from "@/types/agents";
+
+const MAX_BATCH = Number.parseInt(process.env.NEXT_PUBLIC_BATCH_MAX_FILES || '50', 10);
+
+export type BatchSummary = { success: number; failed: number; skipped: number };
+// `skipped` counts unsupported files and those past the NEXT_PUBLIC_BATCH_MAX_FILES limit
+export type BatchAddResult = { accepted: number; skipped: number };
+
+export function useBatchRegister() {
+  const registerAgent = useRegisterIPAgent();
+  const publicClient = usePublicClient();
+  const { address } = useAccount();
+
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const itemsRef = useRef<BatchItem[]>([]);
+  const stopRef = useRef(false);
+  // start() and retryItem() must never register side by side; state alone lags a render behind
+  const runningRef = useRef(false);
+
+  const commit = useCallback((updater: (prev: BatchItem[]) => BatchItem[]) => {
+    itemsRef.current = updater(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    commit(prev => prev.map(it => (it.id === id ? { ...it, ...patch } : it)));
+  }, [commit]);
+
+  // Suggest title/description and flag duplicates; one file at a time to spare the API
+  const analyzeItem = useCallback(async (item: BatchItem) => {
+    let patch: Partial<BatchItem> = { status: 'ready' };
+    // Vision suggestions only make sense for images; other kinds keep the file name
+    if (mediaKindOf(item.file) === 'image') {
+      try {
+        const ai = await analyzeImageForIP(await imageToBase64(item.file));
+        if (ai?.suggestedTitle) patch.title = ai.suggestedTitle;
+        if (ai?.description) patch.description = ai.description;
+      } catch {}
+    }
+
+    try {
+      const spg = activeCollection(address);
+      if (publicClient) {
+        const imageHash = (await mediaHashOf(item.file)).toLowerCase();
+        const timeoutMs = Number.parseInt(process.env.NEXT_PUBLIC_REGISTRY_DUPCHECK_TIMEOUT_MS || '3000', 10);
+        const quick = await Promise.race([
+          checkDuplicateQuick(publicClient, spg, imageHash),
+          new Promise<null>(resolve => setTimeout(() => resolve(null), timeoutMs)),
+        ]);
+        if (quick?.found) patch = { ...patch, status: 'duplicate', duplicateTokenId: quick.tokenId };
+      }
+    } catch {}
+
+    // Keep edits the user made while analysis was running
+    const current = itemsRef.current.find(it => it.id === item.id);
+    if (!current) return;
+    if (current.title !== item.title) delete patch.title;
+    if (current.description !== item.description) delete patch.description;
+    updateItem(item.id, patch);
+  }, [publicClient, address, updateItem]);
+
+  const addFiles = useCallback((files: File[]): BatchAddResult => {
+    const room = Math.max(0, MAX_BATCH - itemsRef.current.length);
+    const added: BatchItem[] = files
+      .filter(isSupportedMedia)
+      .slice(0, room)
+      .map((file, i) => ({
+        id: `batch-${Date.now()}-${i}`,
+        file,
+        title: file.name.replace(/\.\w+$/, ''),
+        description: '',
+        pilType: 'commercial_remix',
+        revShare: 0,
+        licensePrice: 0,
+        status: 'analyzing',
+      }));
+    if (added.length > 0) {
+      commit(prev => [...prev, ...added]);
+      // analysis runs in the background, one file at a time
+      void (async () => {
+        for (const item of added) await analyzeItem(item);
+      })();
+    }
+    return { accepted: added.length, skipped: files.length - added.length };
+  }, [analyzeItem, commit]);
+
+  const removeItem = useCallback((id: string) => {
+    commit(prev => prev.filter(it => it.id !== id));
+  }, [commit]);
+
+  const skipItem = useCallback((id: string) => {
+    updateItem(id, { status: 'skipped' });
+  }, [updateItem]);
+
+  const applyToAll = useCallback((patch: Partial<Pick<BatchItem, 'pilType' | 'revShare' | 'licensePrice' | 'description'>>) => {
+    commit(prev => prev.map(it => (it.status === 'success' || it.status === 'registering' ? it : { ...it, ...patch })));
+  }, [commit]);
+
+  const registerItem = useCallback(async (id: string) => {
+    const item = itemsRef.current.find(it => it.id === id);
+    if (!item) return false;
+
+    setActiveId(id);
+    updateItem(id, { status: 'registering', error: undefined });
+
+    const settings: LicenseSettings = {
+      ...DEFAULT_LICENSE_SETTINGS,
+      pilType: item.pilType,
+      revShare: item.pilType === 'commercial_remix' ? item.revShare : 0,
+      licensePrice: item.pilType === 'commercial_remix' ? item.licensePrice : 0,
+    };
+    const result = await registerAgent.executeRegister(
+      { kind: 'register', title: item.title, prompt: item.description, pilType: item.pilType },
+      item.file,
+      settings
+    );
+    registerAgent.resetRegister();
+    setActiveId(null);
+
+    if (result.success) {
+      updateItem(id, { status: 'success', ipId: result.ipId, txHash: result.txHash });
+      return true;
+    }
+    updateItem(id, { status: 'error', error: result.error });
+    return false;
+  }, [registerAgent, updateItem]);
+
+  // Register every ready item in order; a failed item never stops the rest
+  const start = useCallback(async (): Promise<BatchSummary | null> => {
+    if (runningRef.current) return null;
+    stopRef.current = false;
+    runningRef.current = true;
+    setRunning(true);
+    try {
+      for (const item of itemsRef.current) {
+        if (stopRef.current) break;
+        if (item.status !== 'ready') continue;
+        await registerItem(item.id);
+      }
+    } finally {
+      runningRef.current = false;
+      setRunning(false);
+    }
+    const all = itemsRef.current;
+    return {
+      success: all.filter(it => it.status === 'success').length,
+      failed: all.filter(it => it.status === 'error').length,
+      skipped: all.filter(it => it.status === 'skipped' || it.status === 'duplicate').length,
+    };
+  }, [registerItem]);
+
+  const retryItem = useCallback(async (id: string) => {
+    if (runningRef.current) return false;
+    runningRef.current = true;
+    setRunning(true);
+    try {
+      return await registerItem(id);
+    } finally {
+      runningRef.current = false;
+      setRunning(false);
+    }
+  }, [registerItem]);
+
+  const stop = useCallback(() => { stopRef.current = true; }, []);
+
+  const clear = useCallback(() => {
+    stopRef.current = true;
+    commit(() => []);
+  }, [commit]);
+
+  return {
+    items,
+    running,
+    activeId,
+    activeState: registerAgent.registerState,
+    addFiles,
+    updateItem,
+    removeItem,
+    skipItem,
+    applyToAll,
+    retryItem,
+    start,
+    stop,
+    clear,
+  };
+}
@@ -1,6 +1,20 @@
-import { useState, useCallback, useEffect } from "react";
-import { superleeEngine } from "@/lib/agent/superlee";
-import type { Message, Plan, ChatState } from "@/types/agents";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { superleeEngine, type RegisterSlotsPatch, type SuperleeResponse, type SuperleeStreamEvent } from "@/lib/agent/superlee";
+import { chatAction, isChatAction, type ChatAction } from "@/lib/agent/actions";
+import { getCommand, parseCommand } from "@/lib/agent/commands";
+import { t as tt } from "@/lib/i18n/i18n";
+import { CURRENT_SESSION, saveEngineSnapshot, loadEngineSnapshot, deleteEngineSnapshot } from "@/lib/agent/persistence";
+import type { Message, MessageBlock, Plan, ChatState } from "@/types/agents";
+
+// Saved chats may predate structured buttons (plain labels) or end mid-stream
+function normalizeMessages(saved: unknown): Message[] {
+  if (!Array.isArray(saved)) return [];
+  return saved.map((m: Message) => ({
+    ...m,
+    streaming: false,
+    buttons: Array.isArray(m.buttons) ? m.buttons.filter(isChatAction) : undefined,
+  }));
+}
 
 export function useChatAgent() {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -10,14 +24,17 @@ export function useChatAgent() {
   const [awaitingInput, setAwaitingInput] = useState<string | null>(null);
   const [isTyping, setIsTyping] = useState<boolean>(false);
   const [history, setHistory] = useState<Array<{ id: string; title: string; lastMessage: string; timestamp: number; messageCount: number; messages: Message[] }>>([]);
+  // Don't persist engine state until the saved one has been restored
+  const engineRestored = useRef(false);
+  // True while the last message is a streamed reply waiting for its final text
+  const streamingReply = useRef(false);
 
   // Load messages and history from localStorage on mount
   useEffect(() => {
     try {
       const saved = localStorage.getItem("superleeMessages");
       if (saved) {
-        const loadedMessages = JSON.parse(saved);
-        setMessages(loadedMessages);
+        setMessages(normalizeMessages(JSON.parse(saved)));
       }
       const savedHistory = localStorage.getItem("superleeHistory");
       if (savedHistory) {
@@ -27,6 +44,35 @@ export function useChatAgent() {
     } catch {
       // Ignore errors, start with empty chat
     }
+
+    // Resume the engine where it stopped (state, draft, attached file, open plan)
+    (async () => {
+      const snap = await loadEngineSnapshot(CURRENT_SESSION);
+      if (snap) {
+        superleeEngine.restoreContext(snap.context);
+        setCurrentPlan(snap.plan);
+        setAwaitingInput(snap.awaitingInput);
+      }
+      engineRestored.current = true;
+    })();
+  }, []);
+
+  // Render AI replies as they stream in
+  useEffect(() => {
+    superleeEngine.onStream((event: SuperleeStreamEvent) => {
+      if (event.type === "start") {
+        streamingReply.current = true;
+        setIsTyping(false);
+        setMessages((prev) => [...prev, { role: "agent", text: "", ts: Date.now(), streaming: true }]);
+      } else if (event.type === "delta") {
+        setMessages((prev) => {
+          const last = prev[prev.length - 1];
+          if (!last?.streaming) return prev;
+          return [...prev.slice(0, -1), { ...last, text: last.text + event.text }];
+        });
+      }
+    });
+    return () => superleeEngine.onStream(null);
   }, []);
 
   // Show greeting automatically when there's no prior chat
@@ -46,6 +92,19 @@ export function useChatAgent() {
     }
   }, [messages]);
 
+  // Save engine context alongside the chat (messages change on every engine step)
+  useEffect(() => {
+    if (!engineRestored.current) return;
+    // one write when the streamed reply settles, not one per token
+    if (messages[messages.length - 1]?.streaming) return;
+    saveEngineSnapshot(CURRENT_SESSION, {
+      context: superleeEngine.snapshotContext(),
+      plan: currentPlan,
+      awaitingInput,
+      savedAt: Date.now(),
+    });
+  }, [messages, currentPlan, awaitingInput]);
+
   // Helper to persist history
   const persistHistory = useCallback((items: typeof history) => {
     try {
@@ -55,6 +114,8 @@ export function useChatAgent() {
 
   const showGreeting = useCallback(async () => {
     const greeting = await superleeEngine.getGreeting();
+    // the final greeting replaces a streamed one
+    streamingReply.current = false;
     if (greeting.type === "message") {
       setMessages([{
         role: "agent",
@@ -65,7 +126,7 @@ export function useChatAgent() {
     }
   }, []);
 
-  const addMessage = useCallback((role: Message["role"], text: string, buttons?: string[]) => {
+  const addMessage = useCallback((role: Message["role"], text: string, buttons?: ChatAction[]) => {
     setMessages((prev) => [...prev, { role, text, ts: Date.now(), buttons }]);
   }, []);
 
@@ -82,17 +143,123 @@ export function useChatAgent() {
     });
   }, []);
 
-  const simulateTyping = useCallback((callback: () => Promise<void> | void, delay = 500) => {
+  // Typing indicator until the callback finishes (or until a streamed reply starts)
+  const withTyping = useCallback(async (callback: () => Promise<void> | void) => {
     setIsTyping(true);
-    setTimeout(async () => {
-      try {
-        await callback();
-      } finally {
-        setIsTyping(false);
+    try {
+      await callback();
+    } finally {
+      setIsTyping(false);
+    }
+  }, []);
+
+  // Final agent message; replaces the streamed bubble when there is one
+  const addAgentReply = useCallback((message: Omit<Message, "role" | "ts">) => {
+    const wasStreaming = streamingReply.current;
+    streamingReply.current = false;
+    setMessages((prev) => {
+      const last = prev[prev.length - 1];
+      if (wasStreaming && last?.streaming) {
+        return [...prev.slice(0, -1), { ...last, ...message, streaming: false }];
       }
-    }, delay);
+      return [...prev, { role: "agent", ts: Date.now(), ...message }];
+    });
+  }, []);
+
+  // Patch a block (form, tx status) wherever it is in the chat
+  const updateBlock = useCallback((id: string, patch: Partial<MessageBlock>) => {
+    const matches = (b: MessageBlock) => "id" in b && b.id === id;
+    setMessages((prev) => prev.map((m) =>
+      m.blocks?.some(matches)
+        ? { ...m, blocks: m.blocks.map((b) => (matches(b) ? ({ ...b, ...patch } as MessageBlock) : b)) }
+        : m
+    ));
+  }, []);
+
+  // Streamed AI commentary under a result the UI just showed; nothing is added when AI is off
+  const narrate = useCallback(async (prompt: string, context: string) => {
+    const text = await superleeEngine.narrate(prompt, context);
+    if (text) {
+      addAgentReply({ text });
+    } else if (streamingReply.current) {
+      streamingReply.current = false;
+      setMessages((prev) => (prev[prev.length - 1]?.streaming ? prev.slice(0, -1) : prev));
+    }
+  }, [addAgentReply]);
+
+  const cancelStream = useCallback(() => {
+    superleeEngine.cancelStream();
   }, []);
 
+  const handleEngineResponse = useCallback((response: SuperleeResponse) => {
+    if (response.type === "message") {
+      // Only add message if text is not empty (to handle silent responses)
+      if (response.text.trim()) {
+        addAgentReply({
+          text: response.text,
+          buttons: response.buttons,
+          blocks: response.blocks,
+          image: response.image,
+          links: response.links
+        });
+      }
+      setCurrentPlan(null);
+      return;
+    }
+
+    // Non-message result after a stream: keep the streamed text as a plain message
+    if (streamingReply.current) {
+      streamingReply.current = false;
+      updateLastMessage({ streaming: false });
+    }
+
+    if (response.type === "awaiting_file") {
+      setAwaitingFile(true);
+      addMessage("agent", "Unggah berkas untuk melanjutkan.");
+      return;
+    }
+
+    if (response.type === "awaiting_input") {
+      setAwaitingInput(response.prompt);
+      // re-entering a slot closes any open plan; it is rebuilt afterwards
+      setCurrentPlan(null);
+      addAgentReply({ text: response.prompt, buttons: response.buttons, blocks: response.blocks });
+      return;
+    }
+
+    if (response.type === "plan") {
+      // AI has a plan
+      setCurrentPlan(
+        response.intent.kind === "swap"
+          ? { type: "swap", steps: response.plan, intent: response.intent }
+          : { type: "register", steps: response.plan, intent: response.intent }
+      );
+
+      // Plan will be shown in PlanBox only, no need for chat message
+    }
+  }, [addMessage, addAgentReply, updateLastMessage]);
+
+  // `ui` slash commands read hook state the engine doesn't have
+  const runUiCommand = useCallback((name: string) => {
+    if (name === "history") {
+      const recent = history.slice(0, 5);
+      if (recent.length === 0) {
+        addAgentReply({ text: tt("commands.historyEmpty") });
+        return;
+      }
+      addAgentReply({
+        text: tt("commands.historyTitle"),
+        blocks: [{
+          type: "terms_table",
+          columns: [tt("blocks.title"), tt("commands.historyMessages"), tt("commands.historyDate")],
+          rows: recent.map(h => [h.title, String(h.messageCount), new Date(h.timestamp).toLocaleString()]),
+        }],
+        // session titles are user text; t() returns unknown keys unchanged
+        buttons: recent.map(h => chatAction("open_session", { sessionId: h.id }, h.title)),
+      });
+    }
+  }, [history, addAgentReply]);
+
   const processPrompt = useCallback((prompt: string, file?: File) => {
     const trimmedPrompt = prompt.trim();
     if (!trimmedPrompt) return;
@@ -103,57 +270,37 @@ export function useChatAgent() {
     setAwaitingFile(false);
     setAwaitingInput(null);
 
-    // Simulate typing and then process
-    simulateTyping(async () => {
-      // Process with Superlee engine
-      const response = await superleeEngine.processMessage(trimmedPrompt, file);
-
-      if (response.type === "message") {
-        // Only add message if text is not empty (to handle silent responses)
-        if (response.text.trim()) {
-          // If response has image or links, use addCompleteMessage for full Message object
-          if (response.image || response.links) {
-            addCompleteMessage({
-              role: "agent",
-              text: response.text,
-              ts: Date.now(),
-              buttons: response.buttons,
-              image: response.image,
-              links: response.links
-            });
-          } else {
-            // Use regular addMessage for text-only responses
-            addMessage("agent", response.text, response.buttons);
-          }
-        }
-        setCurrentPlan(null);
-        return;
-      }
-
-      if (response.type === "awaiting_file") {
-        setAwaitingFile(true);
-        addMessage("agent", "Unggah berkas untuk melanjutkan.");
-        return;
-      }
+    const command = parseCommand(trimmedPrompt);
+    if (command && getCommand(command.name)?.handler === "ui") {
+      runUiCommand(command.name);
+      return;
+    }
 
-      if (response.type === "awaiting_input") {
-        setAwaitingInput(response.prompt);
-        addMessage("agent", response.prompt);
-        return;
-      }
+    withTyping(async () => {
+      // Process with Superlee engine
+      handleEngineResponse(await superleeEngine.processMessage(trimmedPrompt, file));
+    });
+  }, [addMessage, withTyping, handleEngineResponse, runUiCommand]);
 
-      if (response.type === "plan") {
-        // AI has a plan
-        setCurrentPlan({
-          type: response.intent.kind as "swap" | "register",
-          steps: response.plan,
-          intent: response.intent,
-        });
+  // Engine button actions; the label is echoed as the user's turn
+  const processAction = useCallback((action: ChatAction, file?: File) => {
+    addMessage("you", tt(action.labelKey));
+    setStatus("");
+    setAwaitingFile(false);
+    setAwaitingInput(null);
 
-        // Plan will be shown in PlanBox only, no need for chat message
-      }
+    withTyping(async () => {
+      handleEngineResponse(await superleeEngine.processAction(action, file));
     });
-  }, [addMessage, simulateTyping]);
+  }, [addMessage, withTyping, handleEngineResponse]);
+
+  // Inline edits from PlanBox go through the engine so its draft stays in sync
+  const editPlan = useCallback((patch: RegisterSlotsPatch) => {
+    const response = superleeEngine.editRegisterSlots(patch);
+    if (response?.type === "plan" && response.intent.kind === "register") {
+      setCurrentPlan({ type: "register", steps: response.plan, intent: response.intent });
+    }
+  }, []);
 
   const clearPlan = useCallback(() => {
     setCurrentPlan(null);
@@ -162,10 +309,8 @@ export function useChatAgent() {
 
   const updateStatus = useCallback((newStatus: string) => {
     setStatus(newStatus);
-    simulateTyping(() => {
-      addMessage("agent", `ℹ️ ${newStatus}`);
-    }, 400);
-  }, [addMessage, simulateTyping]);
+    addMessage("agent", `ℹ️ ${newStatus}`);
+  }, [addMessage]);
 
   const newChat = useCallback(() => {
     // Snapshot current session into history (if it has any user message)
@@ -186,10 +331,20 @@ export function useChatAgent() {
           const newHistory = [item, ...history].slice(0, 50);
           setHistory(newHistory);
           persistHistory(newHistory);
+          // Archive engine state with the session so it can be reopened mid-flow
+          saveEngineSnapshot(item.id, {
+            context: superleeEngine.snapshotContext(),
+            plan: currentPlan,
+            awaitingInput,
+            savedAt: Date.now(),
+          });
+          history.slice(49).forEach(h => deleteEngineSnapshot(h.id));
         }
       }
     } catch {}
 
+    superleeEngine.cancelStream();
+    streamingReply.current = false;
     superleeEngine.reset();
     setMessages([]);
     setCurrentPlan(null);
@@ -200,7 +355,7 @@ export function useChatAgent() {
     try {
       localStorage.setItem("superleeMessages", JSON.stringify([]));
     } catch {}
-  }, [messages, history, persistHistory]);
+  }, [messages, history, persistHistory, currentPlan, awaitingInput]);
 
   const getEngineFile = useCallback(() => {
     return superleeEngine.getContext().registerData?.file;
@@ -209,8 +364,10 @@ export function useChatAgent() {
   const openSession = useCallback((id: string) => {
     const sess = history.find(h => h.id === id);
     if (!sess) return;
+    superleeEngine.cancelStream();
+    streamingReply.current = false;
     superleeEngine.reset();
-    setMessages(sess.messages || []);
+    setMessages(normalizeMessages(sess.messages));
     setCurrentPlan(null);
     setStatus("");
     setAwaitingFile(false);
@@ -219,6 +376,24 @@ export function useChatAgent() {
     try {
       localStorage.setItem("superleeMessages", JSON.stringify(sess.messages || []));
     } catch {}
+
+    // Restore the engine as it was when the session was archived
+    engineRestored.current = false;
+    (async () => {
+      const snap = await loadEngineSnapshot(id);
+      if (snap) {
+        superleeEngine.restoreContext(snap.context);
+        setCurrentPlan(snap.plan);
+        setAwaitingInput(snap.awaitingInput);
+      }
+      await saveEngineSnapshot(CURRENT_SESSION, {
+        context: superleeEngine.snapshotContext(),
+        plan: snap?.plan ?? null,
+        awaitingInput: snap?.awaitingInput ?? null,
+        savedAt: Date.now(),
+      });
+      engineRestored.current = true;
+    })();
   }, [history]);
 
   return {
@@ -232,8 +407,13 @@ export function useChatAgent() {
     addMessage,
     addCompleteMessage,
     updateLastMessage,
+    updateBlock,
     processPrompt,
+    processAction,
+    narrate,
+    cancelStream,
     clearPlan,
+    editPlan,
     updateStatus,
     newChat,
     openSession,
@@ -1,14 +1,25 @@
 import { useState, useCallback, useEffect } from "react";
 import type { FileUploadState } from "@/types/agents";
+import { isSupportedMedia, mediaKindOf, MAX_MEDIA_BYTES } from "@/lib/utils/media";
 
 export function useFileUpload() {
   const [file, setFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleFileSelect = useCallback((selectedFile?: File) => {
     if (!selectedFile) return;
+    if (!isSupportedMedia(selectedFile)) {
+      setError(`Unsupported file type: ${selectedFile.name}`);
+      return;
+    }
+    if (selectedFile.size > MAX_MEDIA_BYTES) {
+      setError(`File too large (max ${Math.round(MAX_MEDIA_BYTES / 1024 / 1024)} MB): ${selectedFile.name}`);
+      return;
+    }
 
+    setError(null);
     setFile(selectedFile);
     
     // Create preview URL
@@ -46,6 +57,8 @@ export function useFileUpload() {
   return {
     state,
     file,
+    kind: file ? mediaKindOf(file) : null,
+    error,
     previewUrl,
     uploading,
     setFile,
@@ -0,0 +1,99 @@
+import { useState, useCallback, useEffect } from "react";
+import { useChainId, useSwitchChain } from "wagmi";
+import { getNetwork } from "@/lib/chains/networks";
+import { useStoryClient } from "@/lib/storyClient";
+import { t as tt } from "@/lib/i18n/i18n";
+import { decodeRevert } from "@/lib/utils/simulation";
+import { STORY_CONTRACTS, type LicenseTermsData } from "@/lib/license/terms";
+import {
+  getAttachedTerms,
+  mergeLicensingConfig,
+  type AttachedTerms,
+  type LicensingConfigPatch,
+} from "@/lib/license/attached";
+import { getLicensingConfig } from "@/lib/license/derivative";
+
+/**
+ * License terms of an IP that is already registered: list them, attach more
+ * (e.g. a free non-commercial tier next to a paid commercial one) and override
+ * the per-terms LicensingConfig. Every write is signed by the IP owner.
+ */
+export function useIpLicensing(ipId?: `0x${string}`) {
+  const chainId = useChainId();
+  const { switchChainAsync } = useSwitchChain();
+  const { getClient } = useStoryClient();
+  const [attached, setAttached] = useState<AttachedTerms[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!ipId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setAttached(await getAttachedTerms(ipId));
+    } catch (e: any) {
+      setError(e?.shortMessage || e?.message || "Failed to read license terms");
+    } finally {
+      setLoading(false);
+    }
+  }, [ipId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Wraps a write: network check, readable reverts, reload afterwards
+  const write = useCallback(async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (!ipId) throw new Error("IP ID unknown");
+    setBusy(true);
+    setError(null);
+    try {
+      const { chain } = getNetwork();
+      if (chainId !== chain.id) await switchChainAsync({ chainId: chain.id });
+      const result = await fn();
+      await refresh();
+      return result;
+    } catch (e: any) {
+      const revert = decodeRevert(e);
+      const message = revert.key ? tt(revert.key) : revert.message;
+      setError(message);
+      throw new Error(message);
+    } finally {
+      setBusy(false);
+    }
+  }, [ipId, chainId, switchChainAsync, refresh]);
+
+  const attachTerms = useCallback((data: LicenseTermsData) => write(async () => {
+    const client = await getClient();
+    const rsp = await client.ipAsset.registerPilTermsAndAttach({
+      ipId: ipId!,
+      licenseTermsData: [data],
+    });
+    return { txHash: rsp.txHash, licenseTermsIds: (rsp.licenseTermsIds || []).map(String) };
+  }), [ipId, getClient, write]);
+
+  const setConfig = useCallback((licenseTermsId: bigint, patch: LicensingConfigPatch) => write(async () => {
+    const client = await getClient();
+    // read fresh so hook/group settings changed elsewhere aren't overwritten with stale values
+    const current = await getLicensingConfig(ipId!, licenseTermsId);
+    const rsp = await client.license.setLicensingConfig({
+      ipId: ipId!,
+      licenseTermsId,
+      licenseTemplate: STORY_CONTRACTS.PIL_TEMPLATE,
+      licensingConfig: mergeLicensingConfig(current, patch),
+    });
+    return { txHash: rsp.txHash };
+  }), [ipId, getClient, write]);
+
+  return {
+    attached,
+    loading,
+    busy,
+    error,
+    refresh,
+    attachTerms,
+    setConfig,
+  };
+}
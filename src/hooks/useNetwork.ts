@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_NETWORK, NETWORKS, getNetwork, type NetworkConfig } from "@/lib/chains/networks";
+
+/**
+ * Active network for rendering. The server only knows the default, so the saved
+ * choice is applied after mount to keep hydration consistent.
+ */
+export function useNetwork(): NetworkConfig {
+  const [network, setNetwork] = useState<NetworkConfig>(NETWORKS[DEFAULT_NETWORK]);
+  useEffect(() => {
+    setNetwork(getNetwork());
+  }, []);
+  return network;
+}
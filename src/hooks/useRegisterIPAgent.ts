@@ -1,22 +1,113 @@
-import { useState, useCallback } from "react";
-import { useAccount, useChainId, useSwitchChain } from "wagmi";
+import { useState, useCallback, useRef } from "react";
+import { erc20Abi, zeroHash } from "viem";
+import { useAccount, useChainId, usePublicClient, useSwitchChain } from "wagmi";
+import { getNetwork } from "@/lib/chains/networks";
 import { useStoryClient } from "@/lib/storyClient";
-import { compressImage } from "@/lib/utils/image";
-import { uploadFile, uploadJSON, extractCid, toHttps, toIpfsUri } from "@/lib/utils/ipfs";
-import { sha256HexOfFile, keccakOfJson } from "@/lib/utils/crypto";
-import { createLicenseTerms, DEFAULT_LICENSE_SETTINGS, STORY_CONTRACTS } from "@/lib/license/terms";
+import { extractText, generateCover, mediaKindOf, mediaTypeOf, registeredMediaFile, textSignature, type MediaKind } from "@/lib/utils/media";
+import { uploadFile, uploadJSON, extractCid, toHttps, toIpfsUri, MetadataHashMismatchError } from "@/lib/utils/ipfs";
+import { bytesKeccak, sha256HexOfFile, keccakOfJson } from "@/lib/utils/crypto";
+import { t as tt } from "@/lib/i18n/i18n";
+import { resolveCreators, toRoyaltyShares, validateCreators, type ResolvedCreator } from "@/lib/creators";
+import { createLicenseTerms, DEFAULT_LICENSE_SETTINGS, type LicenseTermsData } from "@/lib/license/terms";
+import { activeCollection } from "@/lib/collections";
 import { } from "@/services";
 import type { RegisterIntent } from "@/lib/agent/engine";
-import type { RegisterState } from "@/types/agents";
+import { fetchTokenURIBytes, gatewayUrl, ownerOfToken } from "@/lib/nft";
+import { decodeRevert, formatFee, readSpgMintFee } from "@/lib/utils/simulation";
+import { findMintByMetadataHash, nextMintIpId } from "@/lib/utils/registry";
+import { getParentLicenses, ipIdForToken } from "@/lib/license/derivative";
+import { embedProvenance, requestProvenanceManifest, supportsProvenance, type ProvenanceManifest, type ProvenanceSubject } from "@/lib/provenance";
+import { describeLicense } from "@/lib/certificate";
+import { deleteRegisterCheckpoint, loadRegisterCheckpoint, saveRegisterCheckpoint, type RegisterCheckpoint } from "@/lib/agent/persistence";
+import type { RegisterSimulation, RegisterState, RegisterStep } from "@/types/agents";
 import type { LicenseSettings } from "@/lib/license/terms";
+import type { AiAnalysisSummary, RegistrationRecord } from "@/lib/certificate";
 
-const SPG_COLLECTION = (process.env.NEXT_PUBLIC_SPG_COLLECTION as `0x${string}`) ||
-  STORY_CONTRACTS.SPG_COLLECTION;
+// Co-creators: .ip names are resolved now so the metadata and royalty split hold plain addresses
+async function planCreators(intent: RegisterIntent, address?: `0x${string}`, publicClient?: any): Promise<ResolvedCreator[]> {
+  const creatorsError = validateCreators(intent.creators || []);
+  if (creatorsError) throw new Error(tt(creatorsError));
+  if (intent.creators?.length) return resolveCreators(intent.creators, publicClient);
+  return address ? [{ name: address, address, contributionPercent: 100 }] : [];
+}
+
+function creatorsMetadata(creators: ResolvedCreator[]) {
+  return creators.map(c => ({
+    name: c.name,
+    address: c.address,
+    contributionPercent: c.contributionPercent,
+    ...(c.role ? { role: c.role } : {}),
+  }));
+}
+
+// The license the new IP will carry, in the words certificates use
+async function licensesToAttach(
+  intent: RegisterIntent,
+  settings: LicenseSettings,
+  customTerms?: LicenseTermsData,
+  publicClient?: any,
+): Promise<ProvenanceSubject['licenses']> {
+  if (intent.parentIpId && intent.licenseTermsId) {
+    const parent = (await getParentLicenses(intent.parentIpId, publicClient))
+      .find(l => l.licenseTermsId.toString() === intent.licenseTermsId);
+    return parent ? [{ licenseTermsId: intent.licenseTermsId, ...describeLicense(parent) }] : [];
+  }
+  return [describeLicense((customTerms ?? createLicenseTerms(settings)).terms)];
+}
+
+// `hash` is what goes on chain; refuse to register if the pinned bytes hash differently
+async function uploadJsonCid(json: unknown, hash: `0x${string}`): Promise<string> {
+  const upload = await uploadJSON(json);
+  if (upload.keccak !== hash) throw new MetadataHashMismatchError(hash, upload.keccak);
+  return extractCid(upload.cid || upload.url);
+}
+
+async function prepareMedia(file: File, kind: MediaKind): Promise<NonNullable<RegisterCheckpoint['media']>> {
+  const mediaFile = await registeredMediaFile(file);
+  // images are their own cover
+  const cover = kind === 'image' ? undefined : await generateCover(file) || undefined;
+  // Text works carry a MinHash signature so near-duplicates can be found later
+  const text = kind === 'text' || kind === 'document' ? await extractText(file) : '';
+  return {
+    file: mediaFile,
+    cover,
+    mediaType: mediaTypeOf(mediaFile),
+    textSignature: text ? textSignature(text) : undefined,
+  };
+}
+
+// With a manifest the pinned file carries it; hashes stay those of the bare rendition (the manifest's binding)
+async function uploadMedia(
+  media: NonNullable<RegisterCheckpoint['media']>,
+  kind: MediaKind,
+  manifest?: ProvenanceManifest,
+): Promise<Omit<NonNullable<RegisterCheckpoint['upload']>, 'provenanceKey' | 'provenanceIpId'>> {
+  const pinned = manifest
+    ? new File([embedProvenance(new Uint8Array(await media.file.arrayBuffer()), manifest).slice().buffer], media.file.name, { type: media.file.type })
+    : media.file;
+  const mediaUpload = await uploadFile(pinned);
+  const mediaGateway = toHttps(extractCid(mediaUpload.cid || mediaUpload.url));
+  const mediaHash = await sha256HexOfFile(media.file);
+  if (media.cover) {
+    const coverUpload = await uploadFile(media.cover);
+    return {
+      mediaGateway,
+      mediaHash,
+      imageGateway: toHttps(extractCid(coverUpload.cid || coverUpload.url)),
+      imageHash: await sha256HexOfFile(media.cover),
+    };
+  }
+  // no decodable cover: leave `image` empty rather than pointing it at audio/PDF bytes
+  return kind === 'image'
+    ? { mediaGateway, mediaHash, imageGateway: mediaGateway, imageHash: mediaHash }
+    : { mediaGateway, mediaHash };
+}
 
 export function useRegisterIPAgent() {
   const { address } = useAccount();
   const { getClient } = useStoryClient();
   const chainId = useChainId();
+  const publicClient = usePublicClient();
   const { switchChainAsync } = useSwitchChain();
 
   const [registerState, setRegisterState] = useState<RegisterState>({
@@ -25,45 +116,205 @@ export function useRegisterIPAgent() {
     error: null,
   });
 
-  const ensureAeneid = useCallback(async () => {
-    if (chainId !== 1315) {
+  const ensureNetwork = useCallback(async () => {
+    const network = getNetwork();
+    if (chainId !== network.chain.id) {
       try {
-        await switchChainAsync({ chainId: 1315 });
+        await switchChainAsync({ chainId: network.chain.id });
       } catch (error) {
-        throw new Error("Failed to switch to Aeneid network");
+        throw new Error(`Failed to switch to ${network.name} network`);
       }
     }
   }, [chainId, switchChainAsync]);
 
-  const executeRegister = useCallback(async (intent: RegisterIntent, file: File, licenseSettings?: LicenseSettings, options?: { customTerms?: import("@/lib/license/terms").LicenseTermsData }) => {
+  // Dry run of the mint with placeholder metadata (URIs don't change gas or revert conditions)
+  const simulationRun = useRef(0);
+  const simulateRegister = useCallback(async (intent: RegisterIntent, licenseSettings?: LicenseSettings, options?: { customTerms?: import("@/lib/license/terms").LicenseTermsData }) => {
+    const run = ++simulationRun.current;
+    const report = (simulation: RegisterSimulation) => {
+      if (run === simulationRun.current) setRegisterState(prev => ({ ...prev, simulation }));
+    };
+    if (!address || !publicClient) {
+      report({ status: 'unavailable', reasonKey: 'simulate.noWallet' });
+      return;
+    }
+    report({ status: 'simulating' });
+    const spgNftContract = activeCollection(address);
+    try {
+      if (intent.existingNft) {
+        // registering an existing NFT needs a permission signature before it can be encoded;
+        // ownership is what usually makes it fail, so that is checked instead
+        const owner = await ownerOfToken(intent.existingNft, publicClient);
+        report(owner.toLowerCase() === address.toLowerCase()
+          ? { status: 'unavailable', reasonKey: 'simulate.nftSignature' }
+          : { status: 'revert', reasonKey: 'simulate.revert.notOwner' });
+        return;
+      }
+      const client = await getClient();
+      const ipMetadata = { ipMetadataURI: "", ipMetadataHash: zeroHash, nftMetadataURI: "", nftMetadataHash: zeroHash };
+      const txOptions = { encodedTxDataOnly: true };
+      const { encodedTxData } = intent.parentIpId && intent.licenseTermsId
+        ? await client.ipAsset.mintAndRegisterIpAndMakeDerivative({
+            spgNftContract,
+            recipient: address,
+            derivData: {
+              parentIpIds: [intent.parentIpId],
+              licenseTermsIds: [BigInt(intent.licenseTermsId)],
+              maxMintingFee: BigInt(intent.maxMintingFee || "0"),
+            },
+            ipMetadata,
+            allowDuplicates: true,
+            txOptions,
+          })
+        : await client.ipAsset.mintAndRegisterIpAssetWithPilTerms({
+            spgNftContract,
+            recipient: address,
+            licenseTermsData: [options?.customTerms ?? createLicenseTerms(licenseSettings || DEFAULT_LICENSE_SETTINGS)],
+            ipMetadata,
+            allowDuplicates: true,
+            txOptions,
+          });
+      if (!encodedTxData) throw new Error("Nothing to simulate");
+
+      const [fee, gasPrice, ipBalance, wipBalance] = await Promise.all([
+        readSpgMintFee(publicClient, spgNftContract),
+        publicClient.getGasPrice(),
+        publicClient.getBalance({ address }),
+        publicClient.readContract({ address: getNetwork().contracts.wip, abi: erc20Abi, functionName: "balanceOf", args: [address] }),
+      ]);
+      const paidInWip = fee.token.toLowerCase() === getNetwork().contracts.wip.toLowerCase();
+      const feeInfo = fee.fee > BigInt(0)
+        ? { mintFee: formatFee(fee.fee, fee.decimals), mintFeeSymbol: fee.symbol }
+        : { mintFee: "0" };
+      const approximate = !!(intent.splitRoyalties && intent.creators?.length);
+
+      // with a mint fee the SDK wraps IP and approves WIP right before minting, so the bare
+      // call is expected to miss the allowance; the mint itself then can't be estimated
+      let gas: bigint | null;
+      try {
+        gas = await publicClient.estimateGas({ account: address, to: encodedTxData.to, data: encodedTxData.data });
+      } catch (e) {
+        const revert = decodeRevert(e);
+        if (!(revert.name === 'ERC20InsufficientAllowance' && fee.fee > BigInt(0))) {
+          report({ status: 'revert', ...feeInfo, reasonKey: revert.key, reason: revert.message });
+          return;
+        }
+        gas = null;
+      }
+
+      const gasCost = (gas ?? BigInt(0)) * gasPrice;
+      // IP can be wrapped on the fly, so WIP fees can be paid from either balance
+      const spendable = paidInWip ? ipBalance + wipBalance : ipBalance;
+      if (spendable < gasCost + (paidInWip ? fee.fee : BigInt(0))) {
+        report({ status: 'revert', ...feeInfo, reasonKey: paidInWip && fee.fee > BigInt(0) ? 'simulate.revert.insufficientWip' : 'simulate.revert.insufficientGas' });
+        return;
+      }
+      if (gas === null) {
+        report({ status: 'unavailable', ...feeInfo, reasonKey: 'simulate.needsApproval', approximate });
+        return;
+      }
+
+      report({
+        status: 'ok',
+        ...feeInfo,
+        gas: gas.toString(),
+        gasCost: formatFee(gasCost),
+        totalCost: paidInWip || fee.fee === BigInt(0) ? formatFee(gasCost + fee.fee) : undefined,
+        approximate,
+      });
+    } catch (e) {
+      const revert = decodeRevert(e);
+      report({ status: 'unavailable', reasonKey: revert.key, reason: revert.message });
+    }
+  }, [address, getClient, publicClient]);
+
+  const executeRegister = useCallback(async (
+    intent: RegisterIntent,
+    file: File,
+    licenseSettings?: LicenseSettings,
+    options?: { customTerms?: import("@/lib/license/terms").LicenseTermsData; aiAnalysis?: AiAnalysisSummary }
+  ) => {
+    let step: RegisterStep = 'compress';
     try {
       // Ensure we're on the right network
-      await ensureAeneid();
+      await ensureNetwork();
+
+      const kind = mediaKindOf(file);
+      if (!kind) throw new Error(`Unsupported file type: ${mediaTypeOf(file)}`);
 
       // Reset state
       setRegisterState({
-        status: 'compressing',
+        status: kind === 'image' ? 'compressing' : 'preparing-media',
         progress: 10,
         error: null,
       });
 
-      // 1. Compress image
-      const compressedFile = await compressImage(file);
+      // Outputs of earlier attempts on this file; each step below runs only if its output is missing
+      const draftKey = await sha256HexOfFile(file);
+      const saved: RegisterCheckpoint = (await loadRegisterCheckpoint(draftKey)) || { updatedAt: 0 };
+      const checkpoint = async <K extends Exclude<keyof RegisterCheckpoint, 'updatedAt'>>(field: K, value: NonNullable<RegisterCheckpoint[K]>) => {
+        saved[field] = value;
+        saved.updatedAt = Date.now();
+        await saveRegisterCheckpoint(draftKey, saved);
+        return value;
+      };
 
+      // 1. Registered bytes (compressed image, original file otherwise) and the cover for `image`
+      const media = saved.media ?? await checkpoint('media', await prepareMedia(file, kind));
 
+      step = 'upload-media';
       setRegisterState(prev => ({
         ...prev,
         status: 'uploading-image',
         progress: 25
       }));
 
-      // 2. Upload image to IPFS
-      const imageUpload = await uploadFile(compressedFile);
-      const imageCid = extractCid(imageUpload.cid || imageUpload.url);
-      const imageGateway = toHttps(imageCid);
-      const imageHash = await sha256HexOfFile(compressedFile);
+      const creators = await planCreators(intent, address, publicClient);
+      const usedLicenseSettings = licenseSettings || DEFAULT_LICENSE_SETTINGS;
+      const spgNftContract = activeCollection(address);
 
+      // A mint sent by an earlier attempt may have landed without us seeing the receipt
+      const earlierMint = saved.mint?.spgNftContract === spgNftContract && publicClient
+        ? await findMintByMetadataHash(publicClient, spgNftContract, saved.mint.nftMetadataHash, saved.mint.fromBlock)
+        : null;
 
+      // 2. Upload media (and the cover, when it is a separate file) to IPFS. Images go up carrying a
+      // manifest the server signs for the ipId this mint will register
+      const subject: Omit<ProvenanceSubject, 'ip'> | undefined = kind === 'image' && supportsProvenance(media.mediaType) && publicClient
+        ? {
+            title: intent.title || file.name,
+            creators: creators.map(c => ({ name: c.name, address: c.address })),
+            licenses: await licensesToAttach(intent, usedLicenseSettings, options?.customTerms, publicClient),
+            ...(options?.aiAnalysis ? { ai: { aiGenerated: options.aiAnalysis.aiGenerated, confidence: options.aiAnalysis.confidence } } : {}),
+          }
+        : undefined;
+      // a changed title, creator list or license means a new manifest, hence a new upload; so does
+      // a manifest naming an ipId someone else's mint has taken in the meantime
+      const provenanceKey = subject ? await keccakOfJson(subject) : undefined;
+      const nextIp = subject && !earlierMint ? await nextMintIpId(publicClient, spgNftContract) : undefined;
+      let upload = saved.upload?.provenanceKey === provenanceKey && (!nextIp || saved.upload?.provenanceIpId === nextIp.ipId)
+        ? saved.upload
+        : undefined;
+      if (!upload) {
+        const manifest = subject && nextIp
+          ? await requestProvenanceManifest({
+              chainId: getNetwork().chain.id,
+              spgNftContract,
+              ipId: nextIp.ipId,
+              mimeType: media.mediaType,
+              contentHash: await sha256HexOfFile(media.file),
+              subject,
+            })
+          : null;
+        upload = await checkpoint('upload', {
+          ...await uploadMedia(media, kind, manifest ?? undefined),
+          provenanceKey,
+          provenanceIpId: manifest ? nextIp?.ipId : undefined,
+        });
+      }
+      const { mediaGateway, mediaHash, imageGateway, imageHash, provenanceIpId } = upload;
+
+      step = 'ip-metadata';
       setRegisterState(prev => ({
         ...prev,
         status: 'creating-metadata',
@@ -72,27 +323,35 @@ export function useRegisterIPAgent() {
 
       // 3. Create IP metadata
       const ipMetadata = {
-        title: intent.title || compressedFile.name,
+        title: intent.title || file.name,
         description: intent.prompt || "",
         image: imageGateway,
         imageHash,
-        mediaUrl: imageGateway,
-        mediaHash: imageHash,
-        mediaType: compressedFile.type || "image/webp",
-        creators: address
-          ? [{ name: address, address, contributionPercent: 100 }]
-          : [],
+        mediaUrl: mediaGateway,
+        mediaHash,
+        mediaType: media.mediaType,
+        textSignature: media.textSignature,
+        creators: creatorsMetadata(creators),
         aiMetadata: intent.prompt
           ? { prompt: intent.prompt, generator: "user", model: "rule-based" }
           : undefined,
+        // AI-generated verdict of the upload analysis; provenance manifests state it from here
+        aiDetection: options?.aiAnalysis
+          ? { aiGenerated: options.aiAnalysis.aiGenerated, confidence: options.aiAnalysis.confidence }
+          : undefined,
+        relationships: intent.parentIpId
+          ? [{ parentIpId: intent.parentIpId, type: "DERIVED_FROM" }]
+          : undefined,
       };
 
-      // 4. Upload IP metadata to IPFS
-      const ipMetaUpload = await uploadJSON(ipMetadata);
-      const ipMetaCid = extractCid(ipMetaUpload.cid || ipMetaUpload.url);
-      const ipMetadataURI = toIpfsUri(ipMetaCid);
+      // 4. Upload IP metadata to IPFS (skipped when this exact JSON is already pinned)
       const ipMetadataHash = await keccakOfJson(ipMetadata);
+      const ipMetaCid = saved.ipMetadata?.hash === ipMetadataHash
+        ? saved.ipMetadata.cid
+        : (await checkpoint('ipMetadata', { hash: ipMetadataHash, cid: await uploadJsonCid(ipMetadata, ipMetadataHash) })).cid;
+      const ipMetadataURI = toIpfsUri(ipMetaCid);
 
+      step = 'nft-metadata';
       setRegisterState(prev => ({
         ...prev,
         status: 'uploading-metadata',
@@ -100,15 +359,17 @@ export function useRegisterIPAgent() {
       }));
 
       // 5. Create NFT metadata with license info
-      const usedLicenseSettings = licenseSettings || DEFAULT_LICENSE_SETTINGS;
       const nftMetadata = {
         name: `IP Ownership — ${ipMetadata.title}`,
         description: "Ownership NFT for IP Asset",
         image: imageGateway,
+        animation_url: kind === 'audio' || kind === 'video' ? mediaGateway : undefined,
         ipMetadataURI,
         attributes: [
           { trait_type: "ip_metadata_uri", value: ipMetadataURI },
-          { trait_type: "License Type", value: usedLicenseSettings.pilType },
+          { trait_type: "Media Type", value: ipMetadata.mediaType },
+          ...(intent.parentIpId ? [{ trait_type: "Parent IP", value: intent.parentIpId }] : []),
+          { trait_type: "License Type", value: intent.parentIpId ? "remix" : usedLicenseSettings.pilType },
           { trait_type: "Commercial Use", value: usedLicenseSettings.commercialUse ? "Yes" : "No" },
           { trait_type: "AI Learning Allowed", value: usedLicenseSettings.aiLearning ? "Yes" : "No" },
           ...(usedLicenseSettings.commercialUse ? [{ trait_type: "Revenue Share", value: `${usedLicenseSettings.revShare}%` }] : []),
@@ -117,33 +378,96 @@ export function useRegisterIPAgent() {
       };
 
       // 6. Upload NFT metadata to IPFS
-      const nftMetaUpload = await uploadJSON(nftMetadata);
-      const nftMetaCid = extractCid(nftMetaUpload.cid || nftMetaUpload.url);
-      const nftMetadataURI = toIpfsUri(nftMetaCid);
       const nftMetadataHash = await keccakOfJson(nftMetadata);
+      const nftMetaCid = saved.nftMetadata?.hash === nftMetadataHash
+        ? saved.nftMetadata.cid
+        : (await checkpoint('nftMetadata', { hash: nftMetadataHash, cid: await uploadJsonCid(nftMetadata, nftMetadataHash) })).cid;
+      const nftMetadataURI = toIpfsUri(nftMetaCid);
 
+      step = 'mint';
       setRegisterState(prev => ({
         ...prev,
         status: 'minting',
         progress: 75
       }));
 
-      // 7. Mint and register IP on Story Protocol with license terms
+      // 7. Mint and register IP on Story Protocol with license terms, into the collection picked in PlanBox
       const client = await getClient();
-      const licenseTermsData = options?.customTerms ?? createLicenseTerms(usedLicenseSettings);
+      const ipMetadataArgs = {
+        ipMetadataURI,
+        ipMetadataHash,
+        nftMetadataURI,
+        nftMetadataHash,
+      };
 
-      const result = await client.ipAsset.mintAndRegisterIpAssetWithPilTerms({
-        spgNftContract: SPG_COLLECTION,
-        recipient: address as `0x${string}`,
-        licenseTermsData: [licenseTermsData],
-        ipMetadata: {
-          ipMetadataURI,
-          ipMetadataHash,
-          nftMetadataURI,
-          nftMetadataHash,
-        },
-        allowDuplicates: true,
-      });
+      // Royalty tokens go to the co-creators in proportion to their contribution
+      const royaltyShares = intent.splitRoyalties && intent.creators?.length ? toRoyaltyShares(creators) : undefined;
+
+      const resumingMint = saved.mint?.spgNftContract === spgNftContract && saved.mint.nftMetadataHash === nftMetadataHash;
+      let result: { ipId?: `0x${string}`; txHash?: `0x${string}` } | null = null;
+      if (resumingMint && earlierMint && publicClient) {
+        result = { ipId: (await ipIdForToken(publicClient, spgNftContract, earlierMint.tokenId)) ?? undefined, txHash: earlierMint.txHash };
+      }
+      if (!result) {
+        // the embedded manifest names the ipId of the next token; a retry re-signs if that moved on
+        if (provenanceIpId && publicClient && (await nextMintIpId(publicClient, spgNftContract)).ipId !== provenanceIpId) {
+          throw new Error(tt("register.provenanceStale"));
+        }
+        // the first attempt's block stays the search start: its tx may still land
+        if (!resumingMint) {
+          await checkpoint('mint', {
+            spgNftContract,
+            nftMetadataHash,
+            fromBlock: (await publicClient?.getBlockNumber().catch(() => null)) ?? 0n,
+          });
+        }
+        // on a retry the collection refuses a second token for the same metadata
+        if (intent.parentIpId && intent.licenseTermsId) {
+          // Remix: mint and link to the parent using its attached license terms
+          const derivData = {
+            parentIpIds: [intent.parentIpId],
+            licenseTermsIds: [BigInt(intent.licenseTermsId)],
+            maxMintingFee: BigInt(intent.maxMintingFee || "0"),
+          };
+          result = royaltyShares
+            ? await client.ipAsset.mintAndRegisterIpAndMakeDerivativeAndDistributeRoyaltyTokens({
+                spgNftContract,
+                recipient: address as `0x${string}`,
+                derivData,
+                royaltyShares,
+                ipMetadata: ipMetadataArgs,
+                allowDuplicates: !resumingMint,
+              })
+            : await client.ipAsset.mintAndRegisterIpAndMakeDerivative({
+                spgNftContract,
+                recipient: address as `0x${string}`,
+                derivData,
+                ipMetadata: ipMetadataArgs,
+                allowDuplicates: !resumingMint,
+              });
+        } else {
+          const licenseTermsData = options?.customTerms ?? createLicenseTerms(usedLicenseSettings);
+          result = royaltyShares
+            ? await client.ipAsset.mintAndRegisterIpAndAttachPilTermsAndDistributeRoyaltyTokens({
+                spgNftContract,
+                recipient: address as `0x${string}`,
+                licenseTermsData: [licenseTermsData],
+                royaltyShares,
+                ipMetadata: ipMetadataArgs,
+                allowDuplicates: !resumingMint,
+              })
+            : await client.ipAsset.mintAndRegisterIpAssetWithPilTerms({
+                spgNftContract,
+                recipient: address as `0x${string}`,
+                licenseTermsData: [licenseTermsData],
+                ipMetadata: ipMetadataArgs,
+                allowDuplicates: !resumingMint,
+              });
+        }
+      }
+
+      // Registered: a new attempt on this file is a new registration, not a retry
+      await deleteRegisterCheckpoint(draftKey);
 
       setRegisterState({
         status: 'success',
@@ -158,24 +482,158 @@ export function useRegisterIPAgent() {
         ipId: result.ipId,
         txHash: result.txHash,
         imageUrl: imageGateway,
+        mediaUrl: mediaGateway,
         ipMetadataUrl: toHttps(ipMetaCid),
         nftMetadataUrl: toHttps(nftMetaCid),
-        licenseType: usedLicenseSettings.pilType,
+        licenseType: intent.parentIpId ? "remix" : usedLicenseSettings.pilType,
+        parentIpId: intent.parentIpId,
+        // inputs for the registration certificate; the token id is read back from the receipt
+        proof: result.ipId && result.txHash ? {
+          ipId: result.ipId,
+          txHash: result.txHash,
+          title: ipMetadata.title,
+          tokenContract: spgNftContract,
+          mediaType: media.mediaType,
+          mediaUrl: mediaGateway,
+          mediaSha256: mediaHash,
+          imageUrl: imageGateway,
+          imageSha256: imageHash,
+          ipMetadataUri: ipMetadataURI,
+          ipMetadataHash,
+          nftMetadataUri: nftMetadataURI,
+          nftMetadataHash,
+          creators: ipMetadata.creators,
+        } satisfies RegistrationRecord : undefined,
       };
 
     } catch (error: any) {
+      // Known reverts ("SPG collection is not public") read better than the raw RPC error
+      const revert = decodeRevert(error);
+      const readable = revert.key ? new Error(tt(revert.key)) : error;
       setRegisterState(prev => ({
         ...prev,
         status: 'error',
-        error
+        error: readable,
+        failedStep: step,
       }));
 
       return {
         success: false,
-        error: error?.message || String(error)
+        error: readable?.message || String(readable),
+        failedStep: step,
       };
     }
-  }, [address, getClient, ensureAeneid]);
+  }, [address, getClient, ensureNetwork, publicClient]);
+
+  // Existing ERC-721 held by the wallet: no upload of the work, its tokenURI stays the NFT metadata
+  const registerExistingNft = useCallback(async (intent: RegisterIntent, licenseSettings?: LicenseSettings, options?: { customTerms?: import("@/lib/license/terms").LicenseTermsData }) => {
+    const nft = intent.existingNft;
+    try {
+      if (!nft) throw new Error("No NFT selected");
+      if (!address) throw new Error("Connect your wallet first");
+      await ensureNetwork();
+
+      setRegisterState({ status: 'creating-metadata', progress: 20, error: null });
+
+      const owner = await ownerOfToken(nft, publicClient);
+      if (owner.toLowerCase() !== address.toLowerCase()) {
+        throw new Error(`You don't own this NFT (owner: ${owner})`);
+      }
+      const creators = await planCreators(intent, address, publicClient);
+
+      // Hash of the exact bytes the tokenURI serves today; re-serialized JSON would not match them
+      const tokenURIBytes = await fetchTokenURIBytes(nft.tokenURI);
+      const ipMetadata = {
+        title: intent.title || nft.name || `${nft.contract} #${nft.tokenId}`,
+        description: intent.prompt || nft.description || "",
+        image: nft.image,
+        mediaUrl: nft.animationUrl || nft.image,
+        creators: creatorsMetadata(creators),
+        nft: { contract: nft.contract, tokenId: nft.tokenId, tokenURI: nft.tokenURI },
+      };
+
+      setRegisterState(prev => ({ ...prev, status: 'uploading-metadata', progress: 45 }));
+      const ipMetadataHash = await keccakOfJson(ipMetadata);
+      const ipMetaCid = await uploadJsonCid(ipMetadata, ipMetadataHash);
+      const ipMetadataArgs = {
+        ipMetadataURI: toIpfsUri(ipMetaCid),
+        ipMetadataHash,
+        nftMetadataURI: nft.tokenURI,
+        nftMetadataHash: tokenURIBytes ? bytesKeccak(tokenURIBytes) : zeroHash,
+      };
+
+      setRegisterState(prev => ({ ...prev, status: 'minting', progress: 75 }));
+      const client = await getClient();
+      const usedLicenseSettings = licenseSettings || DEFAULT_LICENSE_SETTINGS;
+      const licenseTermsData = options?.customTerms ?? createLicenseTerms(usedLicenseSettings);
+      const royaltyShares = intent.splitRoyalties && intent.creators?.length ? toRoyaltyShares(creators) : undefined;
+
+      let result: { ipId?: `0x${string}`; txHash?: `0x${string}` };
+      if (royaltyShares) {
+        const rsp = await client.ipAsset.registerIPAndAttachLicenseTermsAndDistributeRoyaltyTokens({
+          nftContract: nft.contract,
+          tokenId: nft.tokenId,
+          licenseTermsData: [licenseTermsData],
+          royaltyShares,
+          ipMetadata: ipMetadataArgs,
+        });
+        result = { ipId: rsp.ipId, txHash: rsp.registerIpAndAttachPilTermsAndDeployRoyaltyVaultTxHash };
+      } else {
+        result = await client.ipAsset.registerIpAndAttachPilTerms({
+          nftContract: nft.contract,
+          tokenId: nft.tokenId,
+          licenseTermsData: [licenseTermsData],
+          ipMetadata: ipMetadataArgs,
+        });
+      }
+
+      setRegisterState({
+        status: 'success',
+        progress: 100,
+        error: null,
+        ipId: result.ipId,
+        txHash: result.txHash,
+      });
+
+      return {
+        success: true,
+        ipId: result.ipId,
+        txHash: result.txHash,
+        imageUrl: nft.image,
+        mediaUrl: ipMetadata.mediaUrl,
+        ipMetadataUrl: toHttps(ipMetaCid),
+        nftMetadataUrl: gatewayUrl(nft.tokenURI),
+        licenseType: usedLicenseSettings.pilType,
+        parentIpId: undefined,
+        proof: result.ipId && result.txHash ? {
+          ipId: result.ipId,
+          txHash: result.txHash,
+          title: ipMetadata.title,
+          tokenContract: nft.contract,
+          tokenId: nft.tokenId,
+          mediaUrl: ipMetadata.mediaUrl,
+          ipMetadataUri: ipMetadataArgs.ipMetadataURI,
+          ipMetadataHash,
+          nftMetadataUri: ipMetadataArgs.nftMetadataURI,
+          nftMetadataHash: ipMetadataArgs.nftMetadataHash,
+          creators: ipMetadata.creators,
+        } satisfies RegistrationRecord : undefined,
+      };
+    } catch (error: any) {
+      const revert = decodeRevert(error);
+      const readable = revert.key ? new Error(tt(revert.key)) : error;
+      setRegisterState(prev => ({
+        ...prev,
+        status: 'error',
+        error: readable,
+      }));
+
+      return {
+        success: false,
+        error: readable?.message || String(readable),
+      };
+    }
+  }, [address, getClient, ensureNetwork, publicClient]);
 
   const resetRegister = useCallback(() => {
     setRegisterState({
@@ -185,9 +643,21 @@ export function useRegisterIPAgent() {
     });
   }, []);
 
+  // Plan cancelled: drop the resumable outputs of this file. A sent mint is kept so the next
+  // attempt still finds the token it may have produced instead of minting a second one.
+  const discardRegisterDraft = useCallback(async (file: File) => {
+    const draftKey = await sha256HexOfFile(file);
+    const saved = await loadRegisterCheckpoint(draftKey);
+    if (saved?.mint) await saveRegisterCheckpoint(draftKey, { mint: saved.mint, updatedAt: Date.now() });
+    else if (saved) await deleteRegisterCheckpoint(draftKey);
+  }, []);
+
   return {
     registerState,
+    simulateRegister,
     executeRegister,
+    registerExistingNft,
     resetRegister,
+    discardRegisterDraft,
   };
 }
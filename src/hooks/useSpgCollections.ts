@@ -0,0 +1,95 @@
+import { useState, useCallback, useEffect } from "react";
+import { useAccount } from "wagmi";
+import { parseEther } from "viem";
+import { useStoryClient } from "@/lib/storyClient";
+import { getNetwork } from "@/lib/chains/networks";
+import {
+  COLLECTIONS_EVENT,
+  DEFAULT_SPG_COLLECTION,
+  HAS_DEFAULT_COLLECTION,
+  activeCollection,
+  loadCollections,
+  rememberCollection,
+  setActiveCollection,
+  type SpgCollection,
+} from "@/lib/collections";
+
+export type CreateCollectionInput = {
+  name: string;
+  symbol: string;
+  mintFee: number;        // WIP, 0 for free minting
+  publicMinting: boolean;
+};
+
+export function useSpgCollections() {
+  const { address } = useAccount();
+  const { getClient } = useStoryClient();
+  const [collections, setCollections] = useState<SpgCollection[]>([]);
+  const [active, setActive] = useState<`0x${string}`>(DEFAULT_SPG_COLLECTION);
+  const [creating, setCreating] = useState(false);
+
+  // PlanBox, the dashboard and the wallet panel each hold this hook; keep them in sync
+  useEffect(() => {
+    const sync = () => {
+      setCollections(loadCollections(address));
+      setActive(activeCollection(address));
+    };
+    sync();
+    window.addEventListener(COLLECTIONS_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(COLLECTIONS_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, [address]);
+
+  const select = useCallback((collection: `0x${string}`) => {
+    if (address) setActiveCollection(address, collection);
+  }, [address]);
+
+  const create = useCallback(async (input: CreateCollectionInput): Promise<SpgCollection> => {
+    if (!address) throw new Error("Connect your wallet first");
+    setCreating(true);
+    try {
+      const client = await getClient();
+      const mintFee = parseEther(String(input.mintFee || 0));
+      const rsp = await client.nftClient.createNFTCollection({
+        name: input.name.trim(),
+        symbol: input.symbol.trim().toUpperCase(),
+        isPublicMinting: input.publicMinting,
+        mintOpen: true,
+        mintFeeRecipient: address,
+        contractURI: "",
+        mintFee,
+        mintFeeToken: getNetwork().contracts.wip,
+        owner: address,
+      });
+      if (!rsp.spgNftContract) throw new Error("Collection was created but its address is missing from the receipt");
+
+      const collection: SpgCollection = {
+        address: rsp.spgNftContract,
+        name: input.name.trim(),
+        symbol: input.symbol.trim().toUpperCase(),
+        mintFee: mintFee.toString(),
+        publicMinting: input.publicMinting,
+        createdAt: Date.now(),
+        txHash: rsp.txHash,
+      };
+      rememberCollection(address, collection);
+      setActiveCollection(address, collection.address);
+      return collection;
+    } finally {
+      setCreating(false);
+    }
+  }, [address, getClient]);
+
+  return {
+    collections,
+    active,
+    defaultCollection: DEFAULT_SPG_COLLECTION,
+    hasDefault: HAS_DEFAULT_COLLECTION,
+    creating,
+    select,
+    create,
+  };
+}
@@ -0,0 +1,151 @@
+import { useState, useCallback } from "react";
+import { useAccount, useChainId, useSwitchChain } from "wagmi";
+import { getNetwork } from "@/lib/chains/networks";
+import { parseUnits, formatUnits } from "viem";
+import { getQuote, guardQuote, assertQuoteSafe, resolveSlippageBps, getAllowance, approveForAggregator, swapViaAggregator, impactFromReference, readQuote, referenceAmount } from "@/lib/piperx";
+import type { GuardedQuote } from "@/lib/piperx";
+import { getTokenMeta } from "@/lib/tokenlist";
+import type { SwapIntent } from "@/lib/agent/engine";
+import type { SwapQuote, SwapState } from "@/types/agents";
+
+export function useSwapAgent() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { switchChainAsync } = useSwitchChain();
+
+  const [swapState, setSwapState] = useState<SwapState>({
+    status: 'idle',
+    progress: 0,
+    error: null,
+  });
+
+  const ensureNetwork = useCallback(async () => {
+    const network = getNetwork();
+    if (chainId !== network.chain.id) {
+      try {
+        await switchChainAsync({ chainId: network.chain.id });
+      } catch (error) {
+        throw new Error(`Failed to switch to ${network.name} network`);
+      }
+    }
+  }, [chainId, switchChainAsync]);
+
+  const fetchQuote = useCallback(async (intent: SwapIntent): Promise<{ quote: SwapQuote; guarded: GuardedQuote }> => {
+    const slippageBps = resolveSlippageBps(intent);
+    const [tokenIn, tokenOut] = await Promise.all([getTokenMeta(intent.tokenIn), getTokenMeta(intent.tokenOut)]);
+    const amountInRaw = parseUnits(String(intent.amount), tokenIn.decimals);
+    const json = await getQuote({
+      tokenIn: intent.tokenIn,
+      tokenOut: intent.tokenOut,
+      amountInRaw: amountInRaw.toString(),
+      slippagePct: slippageBps / 100,
+    });
+    const guarded = guardQuote(json, amountInRaw, slippageBps);
+    if (guarded.priceImpactPct == null) {
+      // the API did not report impact: measure it against a tiny reference quote
+      try {
+        const refIn = referenceAmount(amountInRaw);
+        const ref = readQuote(await getQuote({ tokenIn: intent.tokenIn, tokenOut: intent.tokenOut, amountInRaw: refIn.toString() }));
+        guarded.priceImpactPct = impactFromReference(amountInRaw, guarded.amountOutRaw, refIn, ref.amountOutRaw);
+      } catch {
+        // stays null; assertQuoteSafe refuses it
+      }
+    }
+    const quote: SwapQuote = {
+      amountIn: String(intent.amount),
+      amountOut: formatUnits(guarded.amountOutRaw, tokenOut.decimals),
+      symbolIn: tokenIn.symbol,
+      symbolOut: tokenOut.symbol,
+      minAmountOut: formatUnits(guarded.minAmountOutRaw, tokenOut.decimals),
+      slippageBps,
+      priceImpactPct: guarded.priceImpactPct,
+      expiresAt: guarded.expiresAt,
+    };
+    return { quote, guarded };
+  }, []);
+
+  // Quote preview shown in PlanBox before the user confirms
+  const previewQuote = useCallback(async (intent: SwapIntent) => {
+    setSwapState({ status: 'quoting', progress: 0, error: null });
+    try {
+      const { quote, guarded } = await fetchQuote(intent);
+      let error: any = null;
+      try { assertQuoteSafe(guarded); } catch (e) { error = e; }
+      setSwapState({ status: 'quoted', progress: 0, error, quote });
+      return quote;
+    } catch (error: any) {
+      setSwapState({ status: 'error', progress: 0, error });
+      return null;
+    }
+  }, [fetchQuote]);
+
+  const executeSwap = useCallback(async (intent: SwapIntent) => {
+    try {
+      if (!address) throw new Error("Connect your wallet first");
+      await ensureNetwork();
+
+      // Re-quote right before signing so routes are fresh
+      setSwapState(prev => ({ ...prev, status: 'quoting', progress: 10, error: null }));
+      let { quote, guarded } = await fetchQuote(intent);
+      assertQuoteSafe(guarded);
+      const amountInRaw = guarded.amountInRaw;
+
+      setSwapState({ status: 'checking-allowance', progress: 30, error: null, quote });
+      const allowance = await getAllowance(intent.tokenIn, address);
+
+      if (allowance < amountInRaw) {
+        setSwapState(prev => ({ ...prev, status: 'approving', progress: 45 }));
+        await approveForAggregator(intent.tokenIn, amountInRaw);
+        // approval can outlive the quote; never sign against a stale one
+        if (Date.now() > guarded.expiresAt) {
+          ({ quote, guarded } = await fetchQuote(intent));
+          setSwapState(prev => ({ ...prev, quote }));
+        }
+      }
+
+      setSwapState(prev => ({ ...prev, status: 'swapping', progress: 70 }));
+      const receipt = await swapViaAggregator(guarded);
+      const txHash = receipt?.hash as string;
+
+      setSwapState({ status: 'success', progress: 100, error: null, quote, txHash });
+
+      return {
+        success: true,
+        txHash,
+        amountIn: quote.amountIn,
+        amountOut: quote.amountOut,
+        minAmountOut: quote.minAmountOut,
+        symbolIn: quote.symbolIn,
+        symbolOut: quote.symbolOut,
+      };
+    } catch (error: any) {
+      console.error("Swap error:", error);
+      setSwapState(prev => ({
+        ...prev,
+        status: 'error',
+        progress: 0,
+        error,
+      }));
+
+      return {
+        success: false,
+        error: error?.shortMessage || error?.reason || error?.message || String(error),
+      };
+    }
+  }, [address, ensureNetwork, fetchQuote]);
+
+  const resetSwap = useCallback(() => {
+    setSwapState({
+      status: 'idle',
+      progress: 0,
+      error: null,
+    });
+  }, []);
+
+  return {
+    swapState,
+    previewQuote,
+    executeSwap,
+    resetSwap,
+  };
+}
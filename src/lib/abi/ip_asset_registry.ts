@@ -0,0 +1,20 @@
+export const ipAssetRegistryAbi = [
+  {
+    type: "function",
+    name: "ipId",
+    stateMutability: "view",
+    inputs: [
+      { name: "chainId", type: "uint256" },
+      { name: "tokenContract", type: "address" },
+      { name: "tokenId", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "isRegistered",
+    stateMutability: "view",
+    inputs: [{ name: "id", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+] as const;
@@ -0,0 +1,48 @@
+export const licenseRegistryAbi = [
+  {
+    type: "function",
+    name: "getAttachedLicenseTermsCount",
+    stateMutability: "view",
+    inputs: [{ name: "ipId", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "getAttachedLicenseTerms",
+    stateMutability: "view",
+    inputs: [
+      { name: "ipId", type: "address" },
+      { name: "index", type: "uint256" },
+    ],
+    outputs: [
+      { name: "licenseTemplate", type: "address" },
+      { name: "licenseTermsId", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "getLicensingConfig",
+    stateMutability: "view",
+    inputs: [
+      { name: "ipId", type: "address" },
+      { name: "licenseTemplate", type: "address" },
+      { name: "licenseTermsId", type: "uint256" },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "isSet", type: "bool" },
+          { name: "mintingFee", type: "uint256" },
+          { name: "licensingHook", type: "address" },
+          { name: "hookData", type: "bytes" },
+          { name: "commercialRevShare", type: "uint32" },
+          { name: "disabled", type: "bool" },
+          { name: "expectMinimumGroupRewardShare", type: "uint32" },
+          { name: "expectGroupRewardPool", type: "address" },
+        ],
+      },
+    ],
+  },
+] as const;
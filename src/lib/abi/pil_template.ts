@@ -0,0 +1,33 @@
+export const pilTemplateAbi = [
+  {
+    type: "function",
+    name: "getLicenseTerms",
+    stateMutability: "view",
+    inputs: [{ name: "selectedLicenseTermsId", type: "uint256" }],
+    outputs: [
+      {
+        name: "terms",
+        type: "tuple",
+        components: [
+          { name: "transferable", type: "bool" },
+          { name: "royaltyPolicy", type: "address" },
+          { name: "defaultMintingFee", type: "uint256" },
+          { name: "expiration", type: "uint256" },
+          { name: "commercialUse", type: "bool" },
+          { name: "commercialAttribution", type: "bool" },
+          { name: "commercializerChecker", type: "address" },
+          { name: "commercializerCheckerData", type: "bytes" },
+          { name: "commercialRevShare", type: "uint32" },
+          { name: "commercialRevCeiling", type: "uint256" },
+          { name: "derivativesAllowed", type: "bool" },
+          { name: "derivativesAttribution", type: "bool" },
+          { name: "derivativesApproval", type: "bool" },
+          { name: "derivativesReciprocal", type: "bool" },
+          { name: "derivativeRevCeiling", type: "uint256" },
+          { name: "currency", type: "address" },
+          { name: "uri", type: "string" },
+        ],
+      },
+    ],
+  },
+] as const;
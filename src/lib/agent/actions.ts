@@ -0,0 +1,62 @@
+// Chat button actions. Messages carry these instead of labels, so a click means the same
+// thing in every language; labels are resolved with t() only when rendered.
+export type ActionPayloads = {
+  register: undefined;
+  browse: undefined;
+  help: undefined;
+  upload_file: undefined;
+  continue_registration: undefined;
+  smart_license: undefined;
+  custom_license: undefined;
+  why: undefined;
+  copy_dhash: undefined;
+  take_photo: undefined;
+  submit_review: undefined;
+  register_remix: { parentIpId: `0x${string}` };
+  go_back: undefined;
+  use_suggested_title: undefined;
+  use_suggested_desc: undefined;
+  select_license: { pilType: "open_use" | "commercial_remix" };
+  submit_register_details: { name: string; description: string };
+  open_session: { sessionId: string };
+};
+
+export type ChatActionId = keyof ActionPayloads;
+
+export type ChatAction = {
+  [K in ChatActionId]: { id: K; labelKey: string; payload?: ActionPayloads[K] };
+}[ChatActionId];
+
+/**
+ * Single registry for the engine and the orchestrator. `engine` actions change conversation
+ * state (SuperleeEngine.processAction); `ui` actions open pickers, dialogs or toasts.
+ */
+export const CHAT_ACTIONS: Record<ChatActionId, { labelKey: string; handler: "engine" | "ui" }> = {
+  register: { labelKey: "buttons.register", handler: "ui" },
+  browse: { labelKey: "buttons.browse", handler: "ui" },
+  help: { labelKey: "buttons.help", handler: "engine" },
+  upload_file: { labelKey: "buttons.uploadFile", handler: "ui" },
+  continue_registration: { labelKey: "buttons.continue", handler: "engine" },
+  smart_license: { labelKey: "buttons.smartLicense", handler: "ui" },
+  custom_license: { labelKey: "buttons.customLicense", handler: "ui" },
+  why: { labelKey: "buttons.why", handler: "ui" },
+  copy_dhash: { labelKey: "buttons.copyDHash", handler: "ui" },
+  take_photo: { labelKey: "buttons.takePhoto", handler: "ui" },
+  submit_review: { labelKey: "buttons.submitReview", handler: "ui" },
+  register_remix: { labelKey: "buttons.registerRemix", handler: "engine" },
+  go_back: { labelKey: "buttons.back", handler: "engine" },
+  use_suggested_title: { labelKey: "buttons.useSuggestedTitle", handler: "engine" },
+  use_suggested_desc: { labelKey: "buttons.useSuggestedDesc", handler: "engine" },
+  select_license: { labelKey: "buttons.selectLicense", handler: "engine" },
+  submit_register_details: { labelKey: "buttons.saveDetails", handler: "engine" },
+  open_session: { labelKey: "buttons.openSession", handler: "ui" },
+};
+
+export function chatAction<K extends ChatActionId>(id: K, payload?: ActionPayloads[K], labelKey = CHAT_ACTIONS[id].labelKey): ChatAction {
+  return (payload === undefined ? { id, labelKey } : { id, labelKey, payload }) as ChatAction;
+}
+
+// Buttons saved before actions existed were plain labels; they can't be dispatched safely
+export function isChatAction(value: unknown): value is ChatAction {
+  return !!value && typeof value === "object" && typeof (value as any).id === "string" && (value as any).id in CHAT_ACTIONS;
+}
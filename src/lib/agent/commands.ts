@@ -0,0 +1,61 @@
+// Slash commands. One registry for SuperleeEngine (parsing), the Composer (autocomplete)
+// and the command palette, so every surface accepts exactly the same commands.
+export type CommandName = "register" | "search" | "license" | "status" | "history" | "help";
+
+export type CommandSpec = {
+  name: CommandName;
+  // argument placeholder shown in hints, e.g. "<query>"; optional args use [brackets]
+  arg?: { hintKey: string; required: boolean };
+  descKey: string;
+  // bare words the engine also accepts without the slash ("cari kucing")
+  aliases?: string[];
+  // `ui` commands need state only the orchestrator has (chat history)
+  handler: "engine" | "ui";
+};
+
+export type ParsedCommand = { name: CommandName; arg: string };
+
+export const COMMANDS: CommandSpec[] = [
+  { name: "register", descKey: "commands.register", handler: "engine" },
+  { name: "search", arg: { hintKey: "commands.arg.query", required: true }, descKey: "commands.search", aliases: ["search", "cari"], handler: "engine" },
+  { name: "license", arg: { hintKey: "commands.arg.license", required: false }, descKey: "commands.license", handler: "engine" },
+  { name: "status", arg: { hintKey: "commands.arg.ipId", required: true }, descKey: "commands.status", handler: "engine" },
+  { name: "history", descKey: "commands.history", handler: "ui" },
+  { name: "help", descKey: "commands.help", handler: "engine" },
+];
+
+export function getCommand(name: string): CommandSpec | undefined {
+  return COMMANDS.find(c => c.name === name.toLowerCase());
+}
+
+/**
+ * "/status 0xabc" → { name: "status", arg: "0xabc" }. With `bare`, aliases without the
+ * slash are accepted too. Unknown commands and missing required args return null.
+ */
+export function parseCommand(text: string, bare = false): ParsedCommand | null {
+  const m = text.trim().match(/^(\/?)(\S+)(?:\s+([\s\S]*))?$/);
+  if (!m) return null;
+  const [, slash, word, rest = ""] = m;
+  const arg = rest.trim();
+  const spec = slash
+    ? getCommand(word)
+    : bare
+    ? COMMANDS.find(c => c.aliases?.includes(word.toLowerCase()))
+    : undefined;
+  if (!spec || (spec.arg?.required && !arg)) return null;
+  return { name: spec.name, arg };
+}
+
+// Autocomplete: commands whose name starts with what follows the slash
+export function matchCommands(input: string): CommandSpec[] {
+  if (!input.startsWith("/") || /\s/.test(input)) return [];
+  const prefix = input.slice(1).toLowerCase();
+  return COMMANDS.filter(c => c.name.startsWith(prefix));
+}
+
+// "/status <ipId>" with the placeholder resolved through t()
+export function commandUsage(spec: CommandSpec, t: (key: string) => string): string {
+  if (!spec.arg) return `/${spec.name}`;
+  const hint = t(spec.arg.hintKey);
+  return `/${spec.name} ${spec.arg.required ? `<${hint}>` : `[${hint}]`}`;
+}
@@ -1,5 +1,7 @@
 // src/lib/agent/engine.ts
 import { findTokenAddress, symbolFor } from "./tokens";
+import type { Creator } from "@/lib/creators";
+import type { ExistingNft } from "@/lib/nft";
 
 /** ===== Types ===== */
 export type SwapIntent = {
@@ -8,6 +10,7 @@ export type SwapIntent = {
   tokenOut: `0x${string}`;
   amount: number;           // human units
   slippagePct?: number;     // optional
+  slippageBps?: number;     // from zod-validated intents; wins over slippagePct
 };
 
 export type RegisterIntent = {
@@ -16,6 +19,14 @@ export type RegisterIntent = {
   prompt?: string;
   license?: "by" | "by-nc" | "by-nd" | "by-sa" | "cc0" | "arr";
   pilType?: "open_use" | "non_commercial_remix" | "commercial_use" | "commercial_remix";
+  parentIpId?: `0x${string}`;   // set for remix (derivative) registration
+  licenseTermsId?: string;      // parent license terms used for the remix
+  maxMintingFee?: string;       // wei
+  revShare?: number;            // percent, commercial_remix only
+  licensePrice?: number;        // IP, commercial_remix only
+  creators?: Creator[];         // co-creators; the wallet alone (100%) when empty
+  splitRoyalties?: boolean;     // distribute royalty tokens by contributionPercent
+  existingNft?: ExistingNft;    // register an NFT the user holds instead of minting
 };
 
 export type Ask = { type: "ask"; question: string };
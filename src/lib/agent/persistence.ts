@@ -0,0 +1,116 @@
+// IndexedDB persistence for the Superlee engine context and registration checkpoints (File blobs included)
+import type { SuperleeContext } from "./superlee";
+import type { Plan } from "@/types/agents";
+
+const DB_NAME = "superlee";
+const DB_VERSION = 2;
+const STORE = "engine";
+const REGISTER_STORE = "register";
+
+// Key of the live conversation; archived sessions use their history id
+export const CURRENT_SESSION = "current";
+
+// Everything needed to resume a conversation. ragIndex is reloaded from its URL instead.
+export type EngineSnapshot = {
+  context: Omit<SuperleeContext, "ragIndex" | "aiEnabled">;
+  plan: Plan | null;
+  awaitingInput: string | null;
+  savedAt: number;
+};
+
+// Outputs of the registration steps that already ran for a file, keyed by its SHA-256.
+// A retry reuses them instead of compressing and pinning everything again.
+export type RegisterCheckpoint = {
+  media?: { file: File; cover?: File; mediaType: string; textSignature?: number[] };
+  // provenanceKey: hash of what the embedded manifest states, provenanceIpId: the ipId it names;
+  // the upload is redone when either changes
+  upload?: {
+    mediaGateway: string;
+    mediaHash: `0x${string}`;
+    imageGateway?: string;
+    imageHash?: `0x${string}`;
+    provenanceKey?: `0x${string}`;
+    provenanceIpId?: `0x${string}`;
+  };
+  // metadata CIDs are only reused while the JSON hashes the same (title, creators… unchanged)
+  ipMetadata?: { hash: `0x${string}`; cid: string };
+  nftMetadata?: { hash: `0x${string}`; cid: string };
+  // set before the mint is sent: a retry first looks for a token this mint produced
+  mint?: { spgNftContract: `0x${string}`; nftMetadataHash: `0x${string}`; fromBlock: bigint };
+  updatedAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB unavailable"));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        for (const name of [STORE, REGISTER_STORE]) {
+          if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> {
+  const db = await openDb();
+  return await new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveEngineSnapshot(key: string, snapshot: EngineSnapshot): Promise<void> {
+  try {
+    await run("readwrite", (s) => s.put(snapshot, key));
+  } catch (e) {
+    console.warn("Engine snapshot save failed:", e);
+  }
+}
+
+export async function loadEngineSnapshot(key: string): Promise<EngineSnapshot | null> {
+  try {
+    return ((await run("readonly", (s) => s.get(key))) as EngineSnapshot | undefined) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteEngineSnapshot(key: string): Promise<void> {
+  try {
+    await run("readwrite", (s) => s.delete(key));
+  } catch {}
+}
+
+export async function saveRegisterCheckpoint(key: string, checkpoint: RegisterCheckpoint): Promise<void> {
+  try {
+    await run("readwrite", (s) => s.put(checkpoint, key), REGISTER_STORE);
+  } catch (e) {
+    console.warn("Register checkpoint save failed:", e);
+  }
+}
+
+export async function loadRegisterCheckpoint(key: string): Promise<RegisterCheckpoint | null> {
+  try {
+    return ((await run("readonly", (s) => s.get(key), REGISTER_STORE)) as RegisterCheckpoint | undefined) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteRegisterCheckpoint(key: string): Promise<void> {
+  try {
+    await run("readwrite", (s) => s.delete(key), REGISTER_STORE);
+  } catch {}
+}
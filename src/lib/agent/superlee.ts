@@ -1,13 +1,27 @@
 // src/lib/agent/superlee.ts
 import {
-  parseCommandWithAI,
+  planAgentTools,
   generateContextualResponse,
+  streamContextualResponse,
   analyzeImageForIP,
   imageToBase64,
   isOpenAIAvailable
 } from "../openai";
 import type { RagIndex } from "@/lib/rag";
 import { embedTexts, topK } from "@/lib/rag";
+import { resolveRemixParent, formatMintingFee, isIpRegistered, type RemixParent } from "@/lib/license/derivative";
+import { getAttachedTerms } from "@/lib/license/attached";
+import { LICENSE_DESCRIPTIONS } from "@/lib/license/terms";
+import { parseToolCall, type AgentToolCall } from "./tools";
+import { chatAction, type ChatAction } from "./actions";
+import { COMMANDS, commandUsage, getCommand, parseCommand, type ParsedCommand } from "./commands";
+import type { MessageBlock } from "@/types/agents";
+import { decide, type SwapIntent } from "./engine";
+import { loadTokenList, getTokenMeta } from "@/lib/tokenlist";
+import { extractText, mediaKindOf } from "@/lib/utils/media";
+import { formatCreators, type Creator } from "@/lib/creators";
+import { parseNftRef, resolveExistingNft, type ExistingNft, type NftRef } from "@/lib/nft";
+import { ipExplorerLink } from "@/lib/chains/networks";
 
 /** ===== Types ===== */
 export type ConversationState =
@@ -16,20 +30,29 @@ export type ConversationState =
   | "register_awaiting_name"
   | "register_awaiting_description"
   | "register_awaiting_license"
-  | "register_ready";
+  | "register_ready"
+  | "swap_awaiting_details"
+  | "swap_ready";
 
 export type SuperleeContext = {
   state: ConversationState;
-  flow: "register" | null;
+  flow: "register" | "swap" | null;
   aiEnabled: boolean;
   ragIndex?: RagIndex | null;
   lastUserMessage?: string;
+  returnToPlan?: boolean; // set while re-entering a slot from the plan
   registerData?: {
     file?: File;
     name?: string;
     description?: string;
     license?: string;
     pilType?: string;
+    revShare?: number;
+    licensePrice?: number;
+    parent?: RemixParent;
+    nft?: ExistingNft;
+    creators?: Creator[];
+    splitRoyalties?: boolean;
     aiAnalysis?: {
       description: string;
       suggestedTitle: string;
@@ -46,19 +69,41 @@ export type RegisterIntent = {
   prompt?: string;
   license?: "by" | "by-nc" | "by-nd" | "by-sa" | "cc0" | "arr";
   pilType?: "open_use" | "non_commercial_remix" | "commercial_use" | "commercial_remix";
+  parentIpId?: `0x${string}`;   // set for remix (derivative) registration
+  licenseTermsId?: string;      // parent license terms used for the remix
+  maxMintingFee?: string;       // wei
+  revShare?: number;            // percent, commercial_remix only
+  licensePrice?: number;        // IP, commercial_remix only
+  creators?: Creator[];         // co-creators; the wallet alone (100%) when empty
+  splitRoyalties?: boolean;     // distribute royalty tokens by contributionPercent
+  existingNft?: ExistingNft;    // register an NFT the user holds instead of minting
+};
+
+// Inline edits from PlanBox
+export type RegisterSlotsPatch = {
+  name?: string;
+  description?: string;
+  creators?: Creator[];
+  splitRoyalties?: boolean;
 };
 
 export type SuperleeResponse =
-  | { type: "message"; text: string; buttons?: string[]; image?: { url: string; alt?: string }; links?: { text: string; url: string }[] }
-  | { type: "plan"; intent: RegisterIntent; plan: string[] }
+  | { type: "message"; text: string; buttons?: ChatAction[]; blocks?: MessageBlock[]; image?: { url: string; alt?: string }; links?: { text: string; url: string }[] }
+  | { type: "plan"; intent: RegisterIntent | SwapIntent; plan: string[] }
   | { type: "awaiting_file" }
-  | { type: "awaiting_input"; prompt: string };
+  | { type: "awaiting_input"; prompt: string; buttons?: ChatAction[]; blocks?: MessageBlock[] };
+
+// Partial text of an AI reply while it streams; the final text still arrives as the response
+export type SuperleeStreamEvent =
+  | { type: "start" }
+  | { type: "delta"; text: string }
+  | { type: "end" };
 
 /** ===== License Options ===== */
-function getLicenseOptions(): string[] {
+function getLicenseOptions(): ChatAction[] {
   return [
-    "Open Use",
-    "Commercial Remix"
+    chatAction("select_license", { pilType: "open_use" }, "buttons.openUse"),
+    chatAction("select_license", { pilType: "commercial_remix" }, "buttons.commercialRemix")
   ];
 }
 
@@ -75,7 +120,11 @@ function licenseToCode(license: string): { license: string; pilType: string } |
   return null;
 }
 
-/** ===== Main Superlee Engine (IP-only) ===== */
+const TRIGGERS_SWAP = /\b(swap|tukar|convert|trade)\b/i;
+// LLM tool calling when AI is enabled; regex routing stays as the fallback
+const AGENT_MODE = (process.env.NEXT_PUBLIC_AI_AGENT_MODE ?? 'true') === 'true';
+
+/** ===== Main Superlee Engine ===== */
 import { t as tt } from "@/lib/i18n/i18n";
 
 export class SuperleeEngine {
@@ -84,6 +133,8 @@ export class SuperleeEngine {
     flow: null,
     aiEnabled: false
   };
+  private streamListener: ((event: SuperleeStreamEvent) => void) | null = null;
+  private streamAbort: AbortController | null = null;
 
   constructor() {
     this.reset();
@@ -98,23 +149,17 @@ export class SuperleeEngine {
   }
 
   async getGreeting(): Promise<SuperleeResponse> {
-    let greetingText = tt("greeting.default");
-
-    const allowSmart = (process.env.NEXT_PUBLIC_AI_SMART_RESPONSES ?? 'false') === 'true';
-    if (this.context.aiEnabled && allowSmart) {
-      try {
-        const aiGreeting = await generateContextualResponse(
-          "User just opened the app",
-          "Initial greeting for an IP registration assistant"
-        );
-        if (aiGreeting) greetingText = aiGreeting;
-      } catch {}
-    }
+    // Streams like any other AI reply when smart responses are on
+    const greetingText = await this.generateSmartResponse(
+      "User just opened the app",
+      "Initial greeting for an IP registration assistant",
+      tt("greeting.default")
+    );
 
     return {
       type: "message",
-      text: greetingText,
-      buttons: [tt("buttons.register"), tt("buttons.browse"), tt("buttons.help")]
+      text: greetingText || tt("greeting.default"),
+      buttons: [chatAction("register"), chatAction("browse"), chatAction("help")]
     };
   }
 
@@ -122,6 +167,12 @@ export class SuperleeEngine {
     const cleaned = message.trim().toLowerCase();
     this.context.lastUserMessage = message;
 
+    // Slash commands work in every state
+    if (message.trim().startsWith("/")) {
+      const command = parseCommand(message);
+      return command ? this.runCommand(command, file) : this.commandHelp(message);
+    }
+
     // Light easter eggs (non-blocking)
     if (cleaned.includes("who is mushy") || cleaned.includes("mushy")) {
       return {
@@ -134,27 +185,44 @@ export class SuperleeEngine {
       };
     }
 
-    // Clarify that swap is disabled
-    if (/\bswap\b|\btoken\b|\btrade\b|\bconvert\b/i.test(message)) {
-      return {
-        type: "message",
-        text: tt("swap.disabled"),
-        buttons: [tt("buttons.register"), tt("buttons.help")]
-      };
+    // Token swap via PiperX (not while typing a title/description)
+    const typingRegisterInput = this.context.state === "register_awaiting_name" || this.context.state === "register_awaiting_description";
+    if (this.context.state === "swap_awaiting_details" && /\b(register|daftar|daftarkan|mint|browse|dashboard|help|bantuan)\b/i.test(message)) {
+      // user left the swap prompt for something else
+      this.context.state = "greeting";
+      this.context.flow = null;
+    }
+    if (this.context.state === "swap_awaiting_details" || (!typingRegisterInput && TRIGGERS_SWAP.test(message))) {
+      return await this.handleSwapRequest(message);
+    }
+
+    // NFT the user already holds: "register my NFT 0x…#12" (EN + ID)
+    const nftRef = /\b(?:register|daftar(?:kan)?)\b.*\bnft\b/i.test(message) ? parseNftRef(message) : null;
+    if (nftRef) {
+      return await this.handleNftRequest(nftRef);
+    }
+
+    // Remix of an existing IP: "register this as a remix of 0x…" (EN + ID)
+    const remixMatch = message.match(/\b(?:remix|derivative|turunan)\b.*?(0x[a-fA-F0-9]{40})/i);
+    if (remixMatch) {
+      return await this.handleRemixRequest(remixMatch[1] as `0x${string}`, file);
+    }
+
+    // Slot editing and backward navigation inside the register flow. While a title or description
+    // is awaited the message is that value ("back" is a valid title); the buttons navigate instead.
+    if (this.context.flow === "register" && !typingRegisterInput) {
+      const nav = this.handleRegisterNavigation(message);
+      if (nav) return nav;
     }
 
     // Allow one-click continuation after analysis (EN + ID)
     const isContinue = cleaned.includes("continue registration") || /\blanjut(kan)?\s+registrasi\b/i.test(message) || /\blanjut\s*regist\b/i.test(message);
-    if (isContinue) {
-      if (file) {
-        this.context.flow = "register";
-        this.context.registerData = { file };
-        this.context.state = "register_awaiting_name";
-        return { type: "awaiting_input", prompt: "Perfect! What should we call this IP? (Enter a title/name)" };
-      }
-      this.context.flow = "register";
-      this.context.state = "register_awaiting_file";
-      return { type: "message", text: tt("await.uploadFirst"), buttons: [tt("buttons.uploadFile")] };
+    if (isContinue) return this.continueRegistration(file);
+
+    // Free-form turns (not slot input) go to the tool-calling agent first
+    if (this.context.state === "greeting" || this.context.state === "register_ready" || this.context.state === "swap_ready") {
+      const viaTools = await this.tryAgentTools(message, file);
+      if (viaTools) return viaTools;
     }
 
     switch (this.context.state) {
@@ -182,86 +250,398 @@ export class SuperleeEngine {
     }
   }
 
+  /**
+   * Run a button action (see ./actions). Only `engine` actions arrive here;
+   * the orchestrator handles the UI ones itself.
+   */
+  async processAction(action: ChatAction, file?: File): Promise<SuperleeResponse> {
+    switch (action.id) {
+      case "register":
+        return this.startRegister();
+      case "browse":
+        return this.browseDashboard();
+      case "help":
+        return this.commandHelp();
+      case "continue_registration":
+        return this.continueRegistration(file);
+      case "register_remix":
+        if (!action.payload) break;
+        return await this.handleRemixRequest(action.payload.parentIpId, file);
+      case "go_back":
+        return this.goBack();
+      case "use_suggested_title":
+        return this.useSuggestedTitle();
+      case "use_suggested_desc":
+        return this.useSuggestedDescription();
+      case "select_license":
+        if (!action.payload) break;
+        return this.handleLicenseSelection(action.payload.pilType === "open_use" ? "Open Use" : "Commercial Remix");
+      case "submit_register_details": {
+        if (!action.payload || this.context.flow !== "register") break;
+        const data = this.context.registerData || (this.context.registerData = {});
+        const name = action.payload.name.trim();
+        const description = action.payload.description.trim();
+        if (name) data.name = name;
+        if (description) data.description = description;
+        this.context.returnToPlan = false;
+        return this.resumeRegister();
+      }
+    }
+    return { type: "message", text: "" };
+  }
+
+  /** Run a parsed slash command (see ./commands). `ui` commands are handled by useChatAgent. */
+  async runCommand(command: ParsedCommand, file?: File): Promise<SuperleeResponse> {
+    switch (command.name) {
+      case "register":
+        return this.startRegister();
+      case "search":
+        return this.searchIp(command.arg);
+      case "license": {
+        const info = command.arg ? licenseToCode(command.arg) : null;
+        const pilType = info?.pilType as "open_use" | "commercial_remix" | undefined;
+        // Inside the register flow the argument picks the license; otherwise it is explained
+        if (pilType && this.context.flow === "register") {
+          return this.executeTool({ name: "set_license", args: { pilType, revShare: null, licensePrice: null } }, file);
+        }
+        return this.executeTool({ name: "explain_license", args: { pilType: pilType ?? null } }, file);
+      }
+      case "status":
+        if (!/^0x[a-fA-F0-9]{40}$/.test(command.arg)) return this.commandHelp("/status");
+        return await this.describeIpStatus(command.arg as `0x${string}`);
+      case "help":
+        return this.commandHelp();
+      default:
+        return this.commandHelp();
+    }
+  }
+
+  // Command list, or the usage of one command when `input` names it with a bad argument
+  private commandHelp(input?: string): SuperleeResponse {
+    const spec = input ? getCommand(input.trim().slice(1).split(/\s+/)[0]) : undefined;
+    if (spec) {
+      return { type: "message", text: `${tt("commands.usage")} ${commandUsage(spec, tt)}\n${tt(spec.descKey)}` };
+    }
+    const lines = COMMANDS.map(c => `${commandUsage(c, tt)} — ${tt(c.descKey)}`);
+    return {
+      type: "message",
+      text: `${input ? `${tt("commands.unknown")}\n\n` : ""}${tt("commands.title")}\n${lines.join("\n")}`,
+      buttons: [chatAction("register"), chatAction("browse")]
+    };
+  }
+
+  private startRegister(): SuperleeResponse {
+    this.context.flow = "register";
+    this.context.state = "register_awaiting_file";
+    this.context.registerData = {};
+    return { type: "message", text: tt("upload.prompt"), buttons: [chatAction("upload_file")] };
+  }
+
+  // One-click continuation after the upload analysis
+  private continueRegistration(file?: File): SuperleeResponse {
+    this.context.flow = "register";
+    if (file) {
+      // Keep a resolved remix parent when continuing after analysis
+      this.context.registerData = { file, parent: this.context.registerData?.parent };
+      this.context.state = "register_awaiting_name";
+      return { type: "awaiting_input", prompt: "Perfect! What should we call this IP? (Enter a title/name)" };
+    }
+    this.context.state = "register_awaiting_file";
+    return { type: "message", text: tt("await.uploadFirst"), buttons: [chatAction("upload_file")] };
+  }
+
   private async handleGreeting(message: string): Promise<SuperleeResponse> {
     if (/\b(browse|dashboard|my ip|lihat ip)\b/i.test(message)) {
-      return { type: "message", text: tt("open.dashboard"), links: [{ text: tt("open.dashboard"), url: "/dashboard" }] };
-    }
-    if (/^(search|cari)\s+(.+)/i.test(message)) {
-      const q = message.replace(/^(search|cari)\s+/i, "").trim();
-      return { type: "message", text: `${tt("search.resultsFor")} ${q}`, links: [{ text: tt("open.dashboard"), url: `/dashboard?q=${encodeURIComponent(q)}` }] };
+      return this.browseDashboard();
     }
+    const command = parseCommand(message, true);
+    if (command?.name === "search") return this.searchIp(command.arg);
     if (message.includes("register") || message.includes("ip") || message.includes("mint")) {
-      this.context.flow = "register";
-      this.context.state = "register_awaiting_file";
-      this.context.registerData = {};
-      return { type: "message", text: tt("upload.prompt"), buttons: [tt("buttons.uploadFile")] };
+      return this.startRegister();
     }
 
     return {
       type: "message",
       text: tt("greeting.pickAction"),
-      buttons: [tt("buttons.register"), tt("buttons.browse"), tt("buttons.help")]
+      buttons: [chatAction("register"), chatAction("browse"), chatAction("help")]
     };
   }
 
+  private async handleSwapRequest(message: string): Promise<SuperleeResponse> {
+    // Follow-up answers like "1 WIP > USDC" do not repeat the verb
+    const text = TRIGGERS_SWAP.test(message) ? message : `swap ${message}`;
+    // Resolve the token list and any raw addresses first so the plan shows symbols
+    await loadTokenList();
+    await Promise.all((text.match(/0x[a-fA-F0-9]{40}/g) || []).map(a => getTokenMeta(a as `0x${string}`).catch(() => null)));
+    const result = decide(text);
+    this.context.flow = "swap";
+
+    if (result.type === "ask") {
+      this.context.state = "swap_awaiting_details";
+      return { type: "message", text: result.question };
+    }
+    if (result.intent.kind !== "swap") {
+      this.context.state = "swap_awaiting_details";
+      return { type: "message", text: tt("swap.askDetails") };
+    }
+
+    this.context.state = "swap_ready";
+    return { type: "plan", intent: result.intent, plan: result.plan };
+  }
+
+  private browseDashboard(): SuperleeResponse {
+    return { type: "message", text: tt("open.dashboard"), links: [{ text: tt("open.dashboard"), url: "/dashboard" }] };
+  }
+
+  private searchIp(q: string): SuperleeResponse {
+    return { type: "message", text: `${tt("search.resultsFor")} ${q}`, links: [{ text: tt("open.dashboard"), url: `/dashboard?q=${encodeURIComponent(q)}` }] };
+  }
+
+  private async handleRemixRequest(parentIpId: `0x${string}`, file?: File): Promise<SuperleeResponse> {
+    const check = await resolveRemixParent(parentIpId);
+    if (!check.ok) {
+      return {
+        type: "message",
+        text: `${tt("remix.notAllowed")} ${check.reason}`,
+        buttons: [chatAction("register"), chatAction("help")]
+      };
+    }
+
+    this.context.flow = "register";
+    this.context.registerData = { parent: check.parent };
+    if (file) return await this.handleFileUpload(file);
+
+    this.context.state = "register_awaiting_file";
+    const terms = [
+      `${tt("plan.parentTerms")} #${check.parent.licenseTermsId}`,
+      `${tt("plan.mintingFee")} ${formatMintingFee(check.parent.mintingFee, check.parent.currency)}`,
+      check.parent.commercialUse ? `${tt("plan.revShare")} ${check.parent.commercialRevShare}%` : null,
+    ].filter(Boolean).join("\n");
+    return {
+      type: "message",
+      text: `${tt("remix.parentOk")}\n\n${terms}\n\n${tt("remix.uploadPrompt")}`,
+      buttons: [chatAction("upload_file")]
+    };
+  }
+
+  private async handleNftRequest(ref: NftRef): Promise<SuperleeResponse> {
+    const check = await resolveExistingNft(ref);
+    if (!check.ok) {
+      return {
+        type: "message",
+        text: `${tt("nft.notAllowed")} ${check.reason}`,
+        buttons: [chatAction("register"), chatAction("help")]
+      };
+    }
+
+    // The token's own metadata prefills the slots; nothing to upload
+    this.context.flow = "register";
+    this.context.registerData = { nft: check.nft, name: check.nft.name, description: check.nft.description };
+    return this.resumeRegister();
+  }
+
   private async handleFileUpload(file: File): Promise<SuperleeResponse> {
     if (!this.context.registerData) this.context.registerData = {};
     this.context.registerData.file = file;
 
     await this.analyzeUploadedImage(file);
 
+    // picks up a title/description prefilled by the agent
+    return this.resumeRegister();
+  }
+
+  private askName(): SuperleeResponse {
+    const data = this.context.registerData || {};
     this.context.state = "register_awaiting_name";
 
     let prompt = tt("prompt.name");
-    if (this.context.registerData.aiAnalysis?.suggestedTitle) {
-      prompt += `\n\n💡 ${tt("ai.suggestsTitle")} "${this.context.registerData.aiAnalysis.suggestedTitle}"`;
+    if (data.name) prompt += `\n\n${tt("edit.current")} "${data.name}"`;
+    if (data.aiAnalysis?.suggestedTitle) {
+      prompt += `\n\n💡 ${tt("ai.suggestsTitle")} "${data.aiAnalysis.suggestedTitle}"`;
     }
 
-    return { type: "awaiting_input", prompt };
+    const buttons = [data.aiAnalysis?.suggestedTitle ? chatAction("use_suggested_title") : null, chatAction("go_back")].filter(Boolean) as ChatAction[];
+    // Both slots at once, prefilled with what we have; typing the title in chat still works
+    const form: MessageBlock = {
+      type: "form",
+      id: `register-details-${Date.now()}`,
+      fields: [
+        { name: "name", label: tt("blocks.title"), value: data.name || data.aiAnalysis?.suggestedTitle || "" },
+        { name: "description", label: tt("blocks.description"), value: data.description || data.aiAnalysis?.description || "", multiline: true },
+      ],
+    };
+    return { type: "awaiting_input", prompt, buttons, blocks: [form] };
   }
 
-  private handleNameInput(name: string): SuperleeResponse {
-    if (!this.context.registerData) this.context.registerData = {};
-    this.context.registerData.name = name.trim();
+  private askDescription(): SuperleeResponse {
+    const data = this.context.registerData || {};
     this.context.state = "register_awaiting_description";
 
     let prompt = tt("prompt.description");
-    if (this.context.registerData.aiAnalysis?.description) {
-      prompt += `\n\n💡 ${tt("ai.suggestsDesc")} "${this.context.registerData.aiAnalysis.description}"`;
+    if (data.description) prompt += `\n\n${tt("edit.current")} "${data.description}"`;
+    if (data.aiAnalysis?.description) {
+      prompt += `\n\n💡 ${tt("ai.suggestsDesc")} "${data.aiAnalysis.description}"`;
     }
 
-    return { type: "awaiting_input", prompt };
+    const buttons = [data.aiAnalysis?.description ? chatAction("use_suggested_desc") : null, chatAction("go_back")].filter(Boolean) as ChatAction[];
+    return { type: "awaiting_input", prompt, buttons };
+  }
+
+  private handleNameInput(name: string): SuperleeResponse {
+    if (!this.context.registerData) this.context.registerData = {};
+    this.context.registerData.name = name.trim();
+
+    // Editing from the plan: skip the description we already have
+    if (this.context.returnToPlan && this.context.registerData.description) {
+      this.context.returnToPlan = false;
+      return this.buildRegisterPlan();
+    }
+    return this.askDescription();
   }
 
   private handleDescriptionInput(description: string): SuperleeResponse {
     if (!this.context.registerData) this.context.registerData = {};
     this.context.registerData.description = description.trim();
+    this.context.returnToPlan = false;
+    // the suggested-description button can arrive before the title: keep the slot order
+    return this.resumeRegister();
+  }
+
+  private useSuggestedTitle(): SuperleeResponse {
+    const data = this.context.registerData || (this.context.registerData = {});
+    if (!data.aiAnalysis?.suggestedTitle) return { type: "message", text: tt("edit.noSuggestion") };
+    this.context.returnToPlan = this.context.state === "register_ready";
+    return this.handleNameInput(data.aiAnalysis.suggestedTitle);
+  }
+
+  private useSuggestedDescription(): SuperleeResponse {
+    const data = this.context.registerData || (this.context.registerData = {});
+    if (!data.aiAnalysis?.description) return { type: "message", text: tt("edit.noSuggestion") };
+    return this.handleDescriptionInput(data.aiAnalysis.description);
+  }
+
+  /**
+   * "go back", "change title [to X]", "use AI title/description" (EN + ID), typed while no
+   * slot is awaited. Returns null when the message is not a navigation command.
+   */
+  private handleRegisterNavigation(message: string): SuperleeResponse | null {
+    const s = message.trim();
+    if (!this.context.registerData) this.context.registerData = {};
+    const data = this.context.registerData;
+
+    if (/^(go back|back|kembali|mundur)$/i.test(s)) {
+      return this.goBack();
+    }
+
+    if (/^(use|pakai)\s+(the\s+)?(ai\s+|suggested\s+)*(title|judul)(\s+(ai|saran))*$/i.test(s)) {
+      return this.useSuggestedTitle();
+    }
+    if (/^(use|pakai)\s+(the\s+)?(ai\s+|suggested\s+)*(description|desc|deskripsi)(\s+(ai|saran))*$/i.test(s)) {
+      return this.useSuggestedDescription();
+    }
+
+    const edit = s.match(/^(?:change|edit|ubah|ganti)\s+(?:the\s+)?(title|name|judul|nama|description|desc|deskripsi)(?:\s+(?:to|jadi|menjadi|ke)\s+(.+))?$/i);
+    if (edit) {
+      const slot = /^(title|name|judul|nama)$/i.test(edit[1]) ? "name" : "description";
+      const value = edit[2]?.trim().replace(/^["“](.*)["”]$/, "$1");
+      if (value) {
+        data[slot] = value;
+        return this.resumeRegister();
+      }
+      this.context.returnToPlan = !!(data.name && data.description);
+      return slot === "name" ? this.askName() : this.askDescription();
+    }
+
+    return null;
+  }
+
+  private goBack(): SuperleeResponse {
+    this.context.returnToPlan = false;
+    switch (this.context.state) {
+      case "register_ready":
+        return this.askDescription();
+      case "register_awaiting_description":
+        return this.askName();
+      case "register_awaiting_name": {
+        // Pick another file; keep a resolved remix parent
+        this.context.registerData = { parent: this.context.registerData?.parent };
+        this.context.state = "register_awaiting_file";
+        return { type: "message", text: tt("upload.prompt"), buttons: [chatAction("upload_file")] };
+      }
+      default:
+        this.context.state = "greeting";
+        this.context.flow = null;
+        this.context.registerData = {};
+        return {
+          type: "message",
+          text: tt("greeting.pickAction"),
+          buttons: [chatAction("register"), chatAction("browse"), chatAction("help")]
+        };
+    }
+  }
+
+  // Continue from the first missing slot (or the plan when all are filled)
+  private resumeRegister(): SuperleeResponse {
+    const data = this.context.registerData || {};
+    if (!data.file && !data.nft) {
+      this.context.state = "register_awaiting_file";
+      return { type: "message", text: tt("await.uploadFirst"), buttons: [chatAction("upload_file")] };
+    }
+    if (!data.name) return this.askName();
+    if (!data.description) return this.askDescription();
+    return this.buildRegisterPlan();
+  }
+
+  private buildRegisterPlan(): SuperleeResponse {
+    if (!this.context.registerData) this.context.registerData = {};
+    const data = this.context.registerData;
 
     // Skip license step: go straight to PlanBox with sensible default (can be changed there)
-    const defaultPil = (process.env.NEXT_PUBLIC_DEFAULT_PIL || 'commercial_remix').toLowerCase();
-    const pilType = defaultPil === 'open_use' ? 'open_use' : 'commercial_remix';
-    const license = pilType === 'open_use' ? 'cc0' : 'by';
-    this.context.registerData.pilType = pilType;
-    this.context.registerData.license = license;
+    if (!data.pilType) {
+      const defaultPil = (process.env.NEXT_PUBLIC_DEFAULT_PIL || 'commercial_remix').toLowerCase();
+      data.pilType = defaultPil === 'open_use' ? 'open_use' : 'commercial_remix';
+      data.license = data.pilType === 'open_use' ? 'cc0' : 'by';
+    }
+    const pilType = data.pilType;
     this.context.state = 'register_ready';
 
+    if (data.parent) return this.buildRemixPlan(data.parent);
+
     const intent: RegisterIntent = {
       kind: 'register',
-      title: this.context.registerData.name,
-      prompt: this.context.registerData.description,
-      license: license as any,
-      pilType: pilType as any
+      title: data.name,
+      prompt: data.description,
+      license: data.license as any,
+      pilType: pilType as any,
+      revShare: data.revShare,
+      licensePrice: data.licensePrice,
+      ...this.nftPlan().intent,
+      ...this.creatorsPlan().intent
     };
 
     const plan = [
-      `${tt("plan.name")} "${this.context.registerData.name}"`,
-      `${tt("plan.description")} "${this.context.registerData.description}"`,
-      `${tt("plan.license")} ${pilType === 'open_use' ? 'Open Use' : 'Commercial Remix'}`
+      `${tt("plan.name")} "${data.name}"`,
+      `${tt("plan.description")} "${data.description}"`,
+      ...this.nftPlan().lines,
+      `${tt("plan.license")} ${pilType === 'open_use' ? 'Open Use' : 'Commercial Remix'}`,
+      ...this.creatorsPlan().lines
     ];
 
     return { type: 'plan', intent, plan };
   }
 
+  /**
+   * Inline edits from PlanBox. Returns the rebuilt plan when one is open.
+   */
+  editRegisterSlots(patch: RegisterSlotsPatch): SuperleeResponse | null {
+    if (!this.context.registerData) this.context.registerData = {};
+    if (patch.name != null) this.context.registerData.name = patch.name.trim();
+    if (patch.description != null) this.context.registerData.description = patch.description.trim();
+    if (patch.creators != null) this.context.registerData.creators = patch.creators;
+    if (patch.splitRoyalties != null) this.context.registerData.splitRoyalties = patch.splitRoyalties;
+    return this.context.state === "register_ready" ? this.buildRegisterPlan() : null;
+  }
+
   private handleLicenseSelection(license: string): SuperleeResponse {
     if (!this.context.registerData) this.context.registerData = {};
 
@@ -284,56 +664,196 @@ export class SuperleeEngine {
       title: this.context.registerData.name,
       prompt: this.context.registerData.description,
       license: info.license as any,
-      pilType: info.pilType as any
+      pilType: info.pilType as any,
+      ...this.nftPlan().intent,
+      ...this.creatorsPlan().intent
     };
 
     const plan = [
       `${tt("plan.name")} "${this.context.registerData.name}"`,
       `${tt("plan.description")} "${this.context.registerData.description}"`,
-      `${tt("plan.license")} ${info.pilType === 'open_use' ? 'Open Use' : 'Commercial Remix'}`
+      ...this.nftPlan().lines,
+      `${tt("plan.license")} ${info.pilType === 'open_use' ? 'Open Use' : 'Commercial Remix'}`,
+      ...this.creatorsPlan().lines
+    ];
+
+    return { type: "plan", intent, plan };
+  }
+
+  private buildRemixPlan(parent: RemixParent): SuperleeResponse {
+    const data = this.context.registerData || {};
+    // Derivatives inherit the parent's license terms; no new terms are attached
+    const intent: RegisterIntent = {
+      kind: "register",
+      title: data.name,
+      prompt: data.description,
+      parentIpId: parent.ipId,
+      licenseTermsId: parent.licenseTermsId,
+      maxMintingFee: parent.mintingFee,
+      ...this.creatorsPlan().intent,
+    };
+
+    const plan = [
+      `${tt("plan.name")} "${data.name}"`,
+      `${tt("plan.description")} "${data.description}"`,
+      `${tt("plan.parent")} ${parent.ipId}`,
+      `${tt("plan.license")} ${tt("plan.parentTerms")} #${parent.licenseTermsId}`,
+      `${tt("plan.mintingFee")} ${formatMintingFee(parent.mintingFee, parent.currency)}`,
+      ...this.creatorsPlan().lines,
     ];
 
     return { type: "plan", intent, plan };
   }
 
+  // Existing NFT as intent field and plan line; nothing when a new NFT is minted
+  private nftPlan(): { intent: Pick<RegisterIntent, "existingNft">; lines: string[] } {
+    const nft = this.context.registerData?.nft;
+    if (!nft) return { intent: {}, lines: [] };
+    return { intent: { existingNft: nft }, lines: [`${tt("plan.nft")} ${nft.contract} #${nft.tokenId}`] };
+  }
+
+  // Creators as intent fields and plan lines; nothing when the wallet is the sole creator
+  private creatorsPlan(): { intent: Pick<RegisterIntent, "creators" | "splitRoyalties">; lines: string[] } {
+    const { creators, splitRoyalties } = this.context.registerData || {};
+    if (!creators?.length) return { intent: {}, lines: [] };
+    return {
+      intent: { creators, splitRoyalties: !!splitRoyalties },
+      lines: [
+        `${tt("plan.creators")} ${formatCreators(creators)}`,
+        ...(splitRoyalties ? [tt("plan.royaltySplit")] : []),
+      ],
+    };
+  }
+
   /** ===== AI-Powered Methods ===== */
-  private async tryAICommandParsing(message: string): Promise<SuperleeResponse | null> {
-    if (/\bregister\b|\bmint\b|\bip\b/i.test(message)) {
-      this.context.flow = "register";
-      this.context.state = "register_awaiting_file";
-      return { type: "message", text: tt("upload.prompt"), buttons: [tt("buttons.uploadFile")] };
+  /**
+   * Agent mode: let the LLM pick typed tools, validate them with zod and run them.
+   * A plain text answer (no tool call) is shown as is. Returns null (rule-based fallback)
+   * when AI is off, the LLM says nothing, or every call is invalid.
+   */
+  private async tryAgentTools(message: string, file?: File): Promise<SuperleeResponse | null> {
+    if (!this.context.aiEnabled || !AGENT_MODE) return null;
+
+    const result = await planAgentTools(message, this.context.state);
+    if (!result) return null;
+    if (result.toolCalls.length === 0) {
+      return result.text?.trim() ? { type: "message", text: result.text.trim() } : null;
     }
 
-    if (!this.context.aiEnabled) return null;
-
-    try {
-      const aiResult = await parseCommandWithAI(message);
-      if (!aiResult || aiResult.confidence < 0.7) return null;
-      if (aiResult.intent === "register") return this.handleAIRegisterCommand(aiResult);
-      return null;
-    } catch {
-      return null;
+    // Tools are run in order; the last response is shown
+    let response: SuperleeResponse | null = null;
+    for (const raw of result.toolCalls) {
+      const parsed = parseToolCall(raw);
+      if (!parsed.ok) {
+        console.warn("Rejected tool call:", parsed.reason);
+        continue;
+      }
+      response = await this.executeTool(parsed.call, file);
     }
+    return response;
   }
 
-  private async handleAIRegisterCommand(aiResult: any): Promise<SuperleeResponse> {
-    this.context.flow = "register";
-    this.context.state = "register_awaiting_file";
-    this.context.registerData = {};
+  private async executeTool(call: AgentToolCall, file?: File): Promise<SuperleeResponse> {
+    switch (call.name) {
+      case "register_ip": {
+        const { title, description, pilType } = call.args;
+        this.context.flow = "register";
+        // Merged, so an attached file, NFT or remix parent survives
+        const data = this.context.registerData || (this.context.registerData = {});
+        if (title) data.name = title;
+        if (description) data.description = description;
+        if (pilType) {
+          data.pilType = pilType;
+          data.license = pilType === "open_use" ? "cc0" : "by";
+        }
+        if (file) {
+          data.file = file;
+          await this.analyzeUploadedImage(file);
+        }
+        if (data.file || data.nft) return this.resumeRegister();
+        this.context.state = "register_awaiting_file";
+        return { type: "message", text: tt("upload.prompt"), buttons: [chatAction("upload_file")] };
+      }
 
-    const response = await this.generateSmartResponse(
-      aiResult.naturalResponse || "Great! I'll help you register your IP. Please upload your file.",
-      "User wants to register IP"
-    );
+      case "browse_dashboard":
+        return this.browseDashboard();
+
+      case "search_ip":
+        return this.searchIp(call.args.query);
+
+      case "set_license": {
+        const { pilType, revShare, licensePrice } = call.args;
+        if (!this.context.registerData) this.context.registerData = {};
+        const data = this.context.registerData;
+        data.pilType = pilType;
+        data.license = pilType === "open_use" ? "cc0" : "by";
+        data.revShare = pilType === "commercial_remix" ? revShare ?? data.revShare ?? 0 : 0;
+        data.licensePrice = pilType === "commercial_remix" ? licensePrice ?? data.licensePrice ?? 0 : 0;
+        if (this.context.state === "register_ready") return this.buildRegisterPlan();
+        return { type: "message", text: `${tt("tools.licenseSet")} ${LICENSE_DESCRIPTIONS[pilType].title}` };
+      }
 
-    return { type: "message", text: response || "Baik, unggah file IP Anda.", buttons: ["Upload File"] };
+      case "explain_license": {
+        const kinds = call.args.pilType ? [call.args.pilType] : (["open_use", "commercial_remix"] as const);
+        const text = kinds
+          .map(k => `${LICENSE_DESCRIPTIONS[k].icon} ${LICENSE_DESCRIPTIONS[k].title}: ${LICENSE_DESCRIPTIONS[k].description}`)
+          .join("\n");
+        const table: MessageBlock = {
+          type: "terms_table",
+          columns: kinds.map(k => `${LICENSE_DESCRIPTIONS[k].icon} ${LICENSE_DESCRIPTIONS[k].title}`),
+          rows: Array.from({ length: Math.max(...kinds.map(k => LICENSE_DESCRIPTIONS[k].features.length)) }, (_, i) =>
+            kinds.map(k => LICENSE_DESCRIPTIONS[k].features[i] || "")
+          ),
+        };
+        return { type: "message", text, blocks: [table], buttons: [chatAction("register")] };
+      }
+
+      case "check_ip_status":
+        return await this.describeIpStatus(call.args.ipId as `0x${string}`);
+    }
+  }
+
+  private async describeIpStatus(ipId: `0x${string}`): Promise<SuperleeResponse> {
+    try {
+      if (!(await isIpRegistered(ipId))) {
+        return { type: "message", text: `${tt("ipStatus.notRegistered")}\n${ipId}` };
+      }
+      const licenses = await getAttachedTerms(ipId);
+      const table: MessageBlock = {
+        type: "terms_table",
+        title: tt("ipStatus.terms"),
+        columns: [tt("blocks.termsId"), tt("blocks.commercial"), tt("blocks.derivatives"), tt("blocks.mintingFee")],
+        rows: licenses.map(l => [
+          `#${l.licenseTermsId}`,
+          l.commercialUse ? `${tt("ipStatus.commercial")} (${l.commercialRevShare}%)` : tt("ipStatus.nonCommercial"),
+          l.derivativesAllowed ? tt("ipStatus.derivatives") : tt("ipStatus.noDerivatives"),
+          formatMintingFee((l.config?.mintingFee ?? l.defaultMintingFee).toString(), l.currency),
+        ]),
+      };
+      return {
+        type: "message",
+        text: `${tt("ipStatus.registered")}\n${ipId}${licenses.length ? "" : `\n\n${tt("ipStatus.noTerms")}`}`,
+        blocks: licenses.length ? [table] : undefined,
+        links: [{ text: tt("ipStatus.view"), url: ipExplorerLink(ipId) }]
+      };
+    } catch (e: any) {
+      return { type: "message", text: `${tt("ipStatus.failed")} ${e?.shortMessage || e?.message || e}` };
+    }
   }
 
-  private async generateSmartResponse(fallback: string, context: string): Promise<string | null> {
+  /**
+   * AI commentary on something the UI already shows (e.g. an analysis result), streamed
+   * through the same listener as chat replies. Null when smart responses are off or the call fails.
+   */
+  async narrate(prompt: string, context: string): Promise<string | null> {
+    return this.generateSmartResponse(prompt, context);
+  }
+
+  private async generateSmartResponse(prompt: string, context: string, fallback: string | null = null): Promise<string | null> {
     if (!this.context.aiEnabled) return fallback;
 
     const allowSmart = (process.env.NEXT_PUBLIC_AI_SMART_RESPONSES ?? 'false') === 'true';
-    const basic = /User wants to register IP|Initial greeting/i.test(context);
+    const basic = /User wants to register IP|Initial greeting|Analysis summary/i.test(context);
     if (!allowSmart && basic) return fallback;
 
     let ctx = context;
@@ -346,11 +866,30 @@ export class SuperleeEngine {
       }
     } catch {}
 
+    const listener = this.streamListener;
+    if (!listener) {
+      try {
+        const response = await generateContextualResponse(prompt, ctx);
+        return response || fallback;
+      } catch {
+        return fallback;
+      }
+    }
+
+    const abort = new AbortController();
+    this.streamAbort = abort;
+    let started = false;
     try {
-      const response = await generateContextualResponse(fallback, ctx);
+      const response = await streamContextualResponse(prompt, ctx, undefined, (text) => {
+        if (!started) { started = true; listener({ type: "start" }); }
+        listener({ type: "delta", text });
+      }, abort.signal);
       return response || fallback;
     } catch {
       return fallback;
+    } finally {
+      if (started) listener({ type: "end" });
+      if (this.streamAbort === abort) this.streamAbort = null;
     }
   }
 
@@ -364,15 +903,30 @@ export class SuperleeEngine {
       );
 
       if (smartResponse) {
-        return { type: "message", text: smartResponse, buttons: [tt("buttons.register"), tt("buttons.help")] };
+        return { type: "message", text: smartResponse, buttons: [chatAction("register"), chatAction("help")] };
       }
     }
 
-    return { type: "message", text: fallbackText, buttons: [tt("buttons.register"), tt("buttons.help")] };
+    return { type: "message", text: fallbackText, buttons: [chatAction("register"), chatAction("help")] };
   }
 
   private async analyzeUploadedImage(file: File): Promise<void> {
-    if (!this.context.aiEnabled || !this.context.registerData) return;
+    if (!this.context.registerData) return;
+    const kind = mediaKindOf(file);
+    // Text works suggest their own first line as the title; no model needed
+    if (kind === "text" || kind === "document") {
+      const text = await extractText(file, 2_000).catch(() => "");
+      const firstLine = text.split("\n").map(l => l.replace(/^#+\s*/, "").trim()).find(Boolean);
+      if (firstLine) {
+        this.context.registerData.aiAnalysis = {
+          suggestedTitle: firstLine.slice(0, 80),
+          description: text.replace(/\s+/g, " ").slice(0, 200),
+          detectedObjects: [],
+        };
+      }
+      return;
+    }
+    if (kind !== "image" || !this.context.aiEnabled) return;
     try {
       const base64 = await imageToBase64(file);
       const analysis = await analyzeImageForIP(base64);
@@ -382,7 +936,20 @@ export class SuperleeEngine {
 
   getContext() { return this.context; }
   setContext(context: SuperleeContext) { this.context = context; }
+
+  // Persistable copy (see ./persistence); the RAG index and AI flag are runtime-only
+  snapshotContext(): Omit<SuperleeContext, "ragIndex" | "aiEnabled"> {
+    const { ragIndex, aiEnabled, ...rest } = this.context;
+    return { ...rest, registerData: rest.registerData ? { ...rest.registerData } : undefined };
+  }
+  restoreContext(saved: Omit<SuperleeContext, "ragIndex" | "aiEnabled">) {
+    this.context = { ...saved, aiEnabled: isOpenAIAvailable(), ragIndex: this.context.ragIndex };
+  }
   setRagIndex(index: RagIndex | null) { this.context.ragIndex = index; }
+
+  // AI replies are streamed to the listener when one is set (see useChatAgent)
+  onStream(listener: ((event: SuperleeStreamEvent) => void) | null) { this.streamListener = listener; }
+  cancelStream() { this.streamAbort?.abort(); }
 }
 
 export const superleeEngine = new SuperleeEngine();
@@ -0,0 +1,73 @@
+// Typed tools the LLM agent may call. Shared by the /api/ai/agent route (definitions)
+// and SuperleeEngine (validation before execution).
+import { z } from "zod";
+
+const PilType = z.enum(["open_use", "commercial_remix"]);
+const LicenseKind = z.enum(["open_use", "non_commercial_remix", "commercial_use", "commercial_remix"]);
+
+// Optional arguments are `nullable` because strict function calling requires every key
+export const AGENT_TOOLS = {
+  register_ip: {
+    description: "Start registering the user's file as an IP asset on Story. Prefill title/description/license when the user gave them.",
+    parameters: z.object({
+      title: z.string().nullable(),
+      description: z.string().nullable(),
+      pilType: PilType.nullable(),
+    }),
+  },
+  browse_dashboard: {
+    description: "Open the dashboard listing the user's registered IP assets.",
+    parameters: z.object({}),
+  },
+  search_ip: {
+    description: "Search registered IP assets by keyword.",
+    parameters: z.object({
+      query: z.string().min(1),
+    }),
+  },
+  set_license: {
+    description: "Set the license for the IP being registered. revShare is a percent (0-100), licensePrice is in IP.",
+    parameters: z.object({
+      pilType: PilType,
+      revShare: z.number().min(0).max(100).nullable(),
+      licensePrice: z.number().min(0).nullable(),
+    }),
+  },
+  explain_license: {
+    description: "Explain what a PIL license type allows. Leave pilType null to compare the available options.",
+    parameters: z.object({
+      pilType: LicenseKind.nullable(),
+    }),
+  },
+  check_ip_status: {
+    description: "Check whether an ipId is registered on Story and which license terms are attached.",
+    parameters: z.object({
+      ipId: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+    }),
+  },
+} as const;
+
+export type AgentToolName = keyof typeof AGENT_TOOLS;
+
+export type AgentToolCall = {
+  [K in AgentToolName]: { name: K; args: z.infer<(typeof AGENT_TOOLS)[K]["parameters"]> };
+}[AgentToolName];
+
+// Raw call as returned by the model (arguments is a JSON string)
+export type RawToolCall = { name: string; arguments: string };
+
+export function parseToolCall(raw: RawToolCall): { ok: true; call: AgentToolCall } | { ok: false; reason: string } {
+  if (!(raw.name in AGENT_TOOLS)) return { ok: false, reason: `Unknown tool: ${raw.name}` };
+  const name = raw.name as AgentToolName;
+
+  let json: unknown;
+  try {
+    json = raw.arguments ? JSON.parse(raw.arguments) : {};
+  } catch {
+    return { ok: false, reason: `Invalid arguments for ${name}` };
+  }
+
+  const parsed = AGENT_TOOLS[name].parameters.safeParse(json);
+  if (!parsed.success) return { ok: false, reason: `${name}: ${parsed.error.issues.map(i => i.message).join(", ")}` };
+  return { ok: true, call: { name, args: parsed.data } as AgentToolCall };
+}
@@ -1,20 +1,20 @@
-import OpenAI from 'openai';
+import { getLlm, type LlmProvider } from '@/lib/llm';
 import { createHash } from 'crypto';
 import { AdvancedAnalysisResult, SimpleRecommendation, AIMetadata } from '@/types/ai-detection';
 
 export class AdvancedAIDetectionWithLearningControl {
-  private openai: OpenAI;
+  private llm: LlmProvider;
   
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    const llm = getLlm('vision');
+    if (!llm) throw new Error('Vision model not configured');
+    this.llm = llm;
   }
 
   async analyzeImage(imageUrl: string): Promise<AdvancedAnalysisResult> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const response = await this.llm.client.chat.completions.create({
+        model: this.llm.models.vision,
         messages: [
           {
             role: "user",
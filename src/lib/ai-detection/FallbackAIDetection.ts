@@ -1,19 +1,19 @@
-import OpenAI from 'openai';
+import { getLlm, type LlmProvider } from '@/lib/llm';
 import { AdvancedAnalysisResult, SimpleRecommendation } from '@/types/ai-detection';
 
 export class FallbackAIDetection {
-  private openai: OpenAI;
+  private llm: LlmProvider;
   
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    const llm = getLlm('vision');
+    if (!llm) throw new Error('Vision model not configured');
+    this.llm = llm;
   }
 
   async analyzeImageBasic(imageUrl: string): Promise<{ analysis: AdvancedAnalysisResult; recommendation: SimpleRecommendation }> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const response = await this.llm.client.chat.completions.create({
+        model: this.llm.models.vision,
         messages: [
           {
             role: "user",
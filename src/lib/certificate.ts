@@ -0,0 +1,396 @@
+// Registration certificate: a machine-readable proof bundle (JSON) plus a printable PDF,
+// and a verifier that re-checks every field of a bundle against the chain and IPFS.
+import { decodeEventLog, parseAbi } from "viem";
+import { getNetwork, ipExplorerLink, isNetworkKey, NETWORKS, networkPublicClient, txExplorerLink, type NetworkConfig, type NetworkKey } from "@/lib/chains/networks";
+import { formatMintingFee, getParentLicenses, ipIdForToken, isIpRegistered, type ParentLicense } from "@/lib/license/derivative";
+import { bytesKeccak, canonicalJson, sha256HexOfBytes } from "@/lib/utils/crypto";
+import { extractCid, toHttps } from "@/lib/utils/ipfs";
+import { fetchTokenURIBytes } from "@/lib/nft";
+import { createPdfWriter } from "@/lib/utils/pdf";
+import { assertionOf, readProvenance, stripProvenance, supportsProvenance } from "@/lib/provenance";
+import type { AdvancedAnalysisResult } from "@/types/ai-detection";
+
+const REGISTRATION_EVENTS = parseAbi([
+  "event IPRegistered(address ipId, uint256 indexed chainId, address indexed tokenContract, uint256 indexed tokenId, string name, string uri, uint256 registrationDate)",
+  "event MetadataURISet(address indexed ipId, string metadataURI, bytes32 metadataHash)",
+  "event NFTTokenURISet(address indexed ipId, string nftTokenURI, bytes32 nftMetadataHash)",
+]);
+
+type CreatorEntry = { name: string; address: string; contributionPercent: number; role?: string };
+
+// What the register hook knows right after the transaction
+export type RegistrationRecord = {
+  ipId: `0x${string}`;
+  txHash: `0x${string}`;
+  title: string;
+  tokenContract?: `0x${string}`;
+  tokenId?: string;
+  mediaType?: string;
+  mediaUrl?: string;
+  mediaSha256?: `0x${string}`;
+  imageUrl?: string;
+  imageSha256?: `0x${string}`;
+  ipMetadataUri: string;
+  ipMetadataHash: `0x${string}`;
+  nftMetadataUri: string;
+  nftMetadataHash: `0x${string}`;
+  creators: CreatorEntry[];
+};
+
+export type AiAnalysisSummary = {
+  aiGenerated: boolean;
+  confidence: number;        // 0..1
+  eligible: boolean;
+  eligibilityScore: number;  // 0..100
+  recommendedLicense: string;
+  reasoning?: string;
+};
+
+// Plain JSON (no bigint) so it can be downloaded, persisted with the chat and verified later
+export type ProofBundle = {
+  kind: "superlee.registration-proof";
+  version: 1;
+  issuedAt: string;
+  network: { key: NetworkKey; name: string; chainId: number };
+  ipId: `0x${string}`;
+  title: string;
+  token: { contract: `0x${string}`; tokenId: string };
+  tx: { hash: `0x${string}`; blockNumber: string; blockTimestamp: number; from: `0x${string}` };
+  media: {
+    type?: string;
+    url?: string;
+    sha256?: `0x${string}`;
+    imageUrl?: string;
+    imageSha256?: `0x${string}`;
+  };
+  ipMetadata: { uri: string; cid: string; keccak: `0x${string}` };
+  nftMetadata: { uri: string; cid: string; keccak: `0x${string}` };
+  license: { licenseTermsId: string; title: string; terms: string[] }[];
+  creators: CreatorEntry[];
+  aiAnalysis?: AiAnalysisSummary;
+  links: { ip: string; tx: string };
+};
+
+export function aiSummaryOf(result: AdvancedAnalysisResult): AiAnalysisSummary {
+  return {
+    aiGenerated: result.aiDetection.isAIGenerated,
+    confidence: result.aiDetection.confidence,
+    eligible: result.ipEligibility.isEligible,
+    eligibilityScore: result.ipEligibility.score,
+    recommendedLicense: result.licenseRecommendation.primary,
+    reasoning: result.licenseRecommendation.reasoning,
+  };
+}
+
+// The PIL fields the plain-words description reads; attached terms and terms about to be attached both fit
+export type LicenseWording = Pick<ParentLicense,
+  | "commercialUse" | "commercialAttribution" | "commercialRevShare"
+  | "derivativesAllowed" | "derivativesAttribution" | "derivativesReciprocal" | "derivativesApproval"
+  | "defaultMintingFee" | "currency" | "transferable" | "expiration">;
+
+/** PIL terms in plain words, one statement per line. */
+export function describeLicense(l: LicenseWording): { title: string; terms: string[] } {
+  const title = l.commercialUse
+    ? (l.derivativesAllowed ? "Commercial Remix" : "Commercial Use")
+    : (l.derivativesAllowed ? "Non-Commercial Remix" : "Non-Commercial, No Derivatives");
+  const terms = [
+    l.commercialUse
+      ? `Commercial use is allowed${l.commercialAttribution ? " with credit to the creator" : ""}.`
+      : "Commercial use is not allowed.",
+    l.derivativesAllowed
+      ? [
+          "Remixes and derivative works are allowed",
+          l.derivativesAttribution ? ", must credit the original" : "",
+          l.derivativesReciprocal ? ", and must be released under the same terms" : "",
+          l.derivativesApproval ? "; each one needs the owner's approval" : "",
+          ".",
+        ].join("")
+      : "Remixes and derivative works are not allowed.",
+    ...(l.commercialUse ? [`${l.commercialRevShare}% of revenue from commercial use goes back to the creator.`] : []),
+    l.defaultMintingFee === 0n ? "A license costs nothing." : `A license costs ${formatMintingFee(l.defaultMintingFee.toString(), l.currency)}.`,
+    l.transferable ? "Licenses can be transferred." : "Licenses cannot be transferred.",
+    l.expiration === 0n ? "Licenses do not expire." : `Licenses expire ${Math.round(Number(l.expiration) / 86_400)} days after they are minted.`,
+  ];
+  return { title, terms };
+}
+
+/** IPRegistered / MetadataURISet / NFTTokenURISet events in a registration receipt. */
+export function registrationEvents(receipt: any, network: NetworkConfig = getNetwork()) {
+  const out: { name: string; args: any }[] = [];
+  for (const log of receipt.logs || []) {
+    try {
+      const { eventName, args } = decodeEventLog({ abi: REGISTRATION_EVENTS, data: log.data, topics: log.topics });
+      const from = String(log.address).toLowerCase();
+      const expected = eventName === "IPRegistered" ? network.contracts.ipAssetRegistry : network.contracts.coreMetadataModule;
+      if (from === expected.toLowerCase()) out.push({ name: eventName, args });
+    } catch {
+      // not one of ours
+    }
+  }
+  return out;
+}
+
+/**
+ * Build the proof bundle from a confirmed registration: reads the receipt, block and
+ * the license terms now attached to the IP.
+ */
+export async function buildProofBundle(
+  record: RegistrationRecord,
+  extras: { aiAnalysis?: AiAnalysisSummary } = {},
+  pc: any = networkPublicClient(),
+): Promise<ProofBundle> {
+  const network = getNetwork();
+  const receipt = await pc.getTransactionReceipt({ hash: record.txHash });
+  const block = await pc.getBlock({ blockNumber: receipt.blockNumber });
+
+  let token = record.tokenContract && record.tokenId ? { contract: record.tokenContract, tokenId: record.tokenId } : null;
+  if (!token) {
+    const registered = registrationEvents(receipt, network).find(e => e.name === "IPRegistered" && e.args.ipId.toLowerCase() === record.ipId.toLowerCase());
+    if (!registered) throw new Error("IPRegistered event not found in the transaction");
+    token = { contract: registered.args.tokenContract, tokenId: registered.args.tokenId.toString() };
+  }
+
+  const licenses = await getParentLicenses(record.ipId, pc);
+  return {
+    kind: "superlee.registration-proof",
+    version: 1,
+    issuedAt: new Date().toISOString(),
+    network: { key: network.key, name: network.name, chainId: network.chain.id },
+    ipId: record.ipId,
+    title: record.title,
+    token: token!,
+    tx: {
+      hash: record.txHash,
+      blockNumber: receipt.blockNumber.toString(),
+      blockTimestamp: Number(block.timestamp),
+      from: receipt.from,
+    },
+    media: {
+      type: record.mediaType,
+      url: record.mediaUrl,
+      sha256: record.mediaSha256,
+      imageUrl: record.imageUrl,
+      imageSha256: record.imageSha256,
+    },
+    ipMetadata: { uri: record.ipMetadataUri, cid: extractCid(record.ipMetadataUri), keccak: record.ipMetadataHash },
+    nftMetadata: { uri: record.nftMetadataUri, cid: extractCid(record.nftMetadataUri), keccak: record.nftMetadataHash },
+    license: licenses.map(l => ({ licenseTermsId: l.licenseTermsId.toString(), ...describeLicense(l) })),
+    creators: record.creators,
+    aiAnalysis: extras.aiAnalysis,
+    links: { ip: ipExplorerLink(record.ipId, network), tx: txExplorerLink(record.txHash, network) },
+  };
+}
+
+// ok: null means the check could not run (e.g. the field is absent for this kind of work)
+export type VerificationCheck = { id: string; ok: boolean | null; detail?: string };
+export type VerificationResult = { ok: boolean; checks: VerificationCheck[] };
+
+const same = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+async function fetchBytes(uri: string): Promise<Uint8Array> {
+  const url = uri.startsWith("ipfs://") || /\/ipfs\//.test(uri) ? toHttps(uri) : uri;
+  const r = await fetch(url);
+  if (!r.ok) throw new Error(`HTTP ${r.status} for ${url}`);
+  return new Uint8Array(await r.arrayBuffer());
+}
+
+// Pinned JSON must hash to the on-chain value byte for byte
+function jsonMatches(bytes: Uint8Array, keccak: string): { ok: boolean; json: any } {
+  let json: any = null;
+  try { json = JSON.parse(new TextDecoder().decode(bytes)); } catch {}
+  return { ok: same(bytesKeccak(bytes), keccak), json };
+}
+
+/**
+ * Re-check a bundle against the chain and IPFS of the network it was issued on. Every field
+ * that can be checked is; a failed network read marks that check as failed rather than skipping it.
+ */
+export async function verifyProofBundle(bundle: ProofBundle, pc?: any): Promise<VerificationResult> {
+  const checks: VerificationCheck[] = [];
+  const check = async (id: string, fn: () => Promise<boolean | null | { ok: boolean | null; detail?: string }>) => {
+    try {
+      const r = await fn();
+      checks.push(typeof r === "object" && r !== null ? { id, ...r } : { id, ok: r });
+    } catch (e: any) {
+      checks.push({ id, ok: false, detail: e?.shortMessage || e?.message || String(e) });
+    }
+  };
+
+  const network = isNetworkKey(bundle.network.key) ? NETWORKS[bundle.network.key] : undefined;
+  await check("network", async () => ({
+    ok: !!network && bundle.network.chainId === network.chain.id,
+    detail: `${bundle.network.name} (${bundle.network.chainId})`,
+  }));
+  if (!network) return { ok: false, checks };
+  pc ??= networkPublicClient(network);
+
+  let events: { name: string; args: any }[] = [];
+  await check("tx", async () => {
+    const receipt = await pc.getTransactionReceipt({ hash: bundle.tx.hash });
+    events = registrationEvents(receipt, network);
+    const block = await pc.getBlock({ blockNumber: receipt.blockNumber });
+    const ok = receipt.status === "success"
+      && receipt.blockNumber.toString() === bundle.tx.blockNumber
+      && Number(block.timestamp) === bundle.tx.blockTimestamp
+      && same(receipt.from, bundle.tx.from);
+    return { ok, detail: `block ${receipt.blockNumber} @ ${new Date(Number(block.timestamp) * 1000).toISOString()}` };
+  });
+
+  await check("ipId", async () => {
+    const [registered, derived] = await Promise.all([
+      isIpRegistered(bundle.ipId, pc),
+      ipIdForToken(pc, bundle.token.contract, bundle.token.tokenId, network.chain.id),
+    ]);
+    const inTx = events.some(e => e.name === "IPRegistered" && same(e.args.ipId, bundle.ipId)
+      && same(e.args.tokenContract, bundle.token.contract) && e.args.tokenId.toString() === bundle.token.tokenId);
+    return registered && same(derived ?? undefined, bundle.ipId) && inTx;
+  });
+
+  await check("ipMetadataOnChain", async () => {
+    const e = events.find(ev => ev.name === "MetadataURISet" && same(ev.args.ipId, bundle.ipId));
+    return !!e && e.args.metadataURI === bundle.ipMetadata.uri && same(e.args.metadataHash, bundle.ipMetadata.keccak);
+  });
+
+  let ipMetadata: any = null;
+  await check("ipMetadataPinned", async () => {
+    const { ok, json } = jsonMatches(await fetchBytes(bundle.ipMetadata.uri), bundle.ipMetadata.keccak);
+    ipMetadata = json;
+    return ok;
+  });
+
+  await check("nftMetadataOnChain", async () => {
+    const e = events.find(ev => ev.name === "NFTTokenURISet" && same(ev.args.ipId, bundle.ipId));
+    return !!e && e.args.nftTokenURI === bundle.nftMetadata.uri && same(e.args.nftMetadataHash, bundle.nftMetadata.keccak);
+  });
+
+  await check("nftMetadataPinned", async () => {
+    // an existing NFT whose tokenURI could not be read was registered without a metadata hash
+    if (/^0x0+$/.test(bundle.nftMetadata.keccak)) return null;
+    // same bytes the registration hashed (data: URIs decoded, not re-serialized)
+    const bytes = await fetchTokenURIBytes(bundle.nftMetadata.uri);
+    if (!bytes) throw new Error(`Can't read ${bundle.nftMetadata.uri}`);
+    return same(bytesKeccak(bytes), bundle.nftMetadata.keccak);
+  });
+
+  await check("work", async () => {
+    if (!ipMetadata) return null;
+    return ipMetadata.title === bundle.title && (ipMetadata.mediaType ?? undefined) === bundle.media.type;
+  });
+
+  await check("media", async () => {
+    if (!bundle.media.sha256 || !bundle.media.url) return null;
+    // images carry their provenance manifest, which the hash excludes
+    const ok = same(await sha256HexOfBytes(stripProvenance(await fetchBytes(bundle.media.url))), bundle.media.sha256)
+      // the hash must also be the one committed in the IP metadata
+      && (!ipMetadata || same(ipMetadata.mediaHash, bundle.media.sha256));
+    return ok;
+  });
+
+  await check("image", async () => {
+    if (!bundle.media.imageSha256 || !bundle.media.imageUrl) return null;
+    if (bundle.media.imageUrl === bundle.media.url) return same(bundle.media.imageSha256, bundle.media.sha256);
+    return same(await sha256HexOfBytes(stripProvenance(await fetchBytes(bundle.media.imageUrl))), bundle.media.imageSha256)
+      && (!ipMetadata || same(ipMetadata.imageHash, bundle.media.imageSha256));
+  });
+
+  // the manifest is signed before the mint, so what it states is held against the registration here
+  await check("provenance", async () => {
+    if (!bundle.media.url || !bundle.media.type || !supportsProvenance(bundle.media.type)) return null;
+    const report = await readProvenance(new Blob([(await fetchBytes(bundle.media.url)).slice().buffer]));
+    if (!report) return null;
+    const { claim } = report.manifest;
+    const ip = assertionOf(claim, "story.ip");
+    const authors = (assertionOf(claim, "stds.schema-org.CreativeWork")?.author ?? []).map(a => a.identifier.toLowerCase());
+    return report.bindingOk && report.trusted
+      && same(report.contentHash, bundle.media.sha256)
+      && same(ip?.ipId, bundle.ipId) && ip?.chainId === bundle.network.chainId
+      && assertionOf(claim, "stds.schema-org.CreativeWork")?.name === bundle.title
+      && canonicalJson(authors) === canonicalJson(bundle.creators.map(c => c.address.toLowerCase()));
+  });
+
+  await check("creators", async () => {
+    if (!ipMetadata) return null;
+    return canonicalJson(ipMetadata.creators ?? []) === canonicalJson(bundle.creators);
+  });
+
+  await check("license", async () => {
+    // the plain-words terms are regenerated from the attached terms, so an edited bundle shows up
+    const attached = new Map((await getParentLicenses(bundle.ipId, pc)).map(l => [l.licenseTermsId.toString(), describeLicense(l)]));
+    const missing = bundle.license.filter(l => !attached.has(l.licenseTermsId)).map(l => `#${l.licenseTermsId}`);
+    const changed = bundle.license
+      .filter(l => attached.has(l.licenseTermsId) && canonicalJson(attached.get(l.licenseTermsId)) !== canonicalJson({ title: l.title, terms: l.terms }))
+      .map(l => `#${l.licenseTermsId}`);
+    const detail = [missing.length ? `not attached: ${missing.join(", ")}` : "", changed.length ? `differs: ${changed.join(", ")}` : ""]
+      .filter(Boolean).join("; ");
+    return { ok: missing.length === 0 && changed.length === 0, detail: detail || undefined };
+  });
+
+  return { ok: checks.every(c => c.ok !== false), checks };
+}
+
+/** Printable certificate with the same fields as the bundle. */
+export function certificatePdf(bundle: ProofBundle): Blob {
+  const pdf = createPdfWriter();
+  const registeredAt = new Date(bundle.tx.blockTimestamp * 1000).toUTCString();
+
+  pdf.text("CERTIFICATE OF IP REGISTRATION", { size: 18, font: "bold" })
+    .text(`Story Protocol - ${bundle.network.name} (chain ${bundle.network.chainId})`, { size: 10, color: "0.35 0.35 0.35" })
+    .rule()
+    .heading(bundle.title || "Untitled work", 16)
+    .text(`Registered on ${registeredAt} as an IP asset on Story Protocol.`)
+    .gap();
+
+  pdf.heading("Asset");
+  pdf.field("IP ID", bundle.ipId, true)
+    .field("NFT", `${bundle.token.contract} #${bundle.token.tokenId}`, true)
+    .field("Transaction", bundle.tx.hash, true)
+    .field("Block / timestamp", `${bundle.tx.blockNumber} / ${registeredAt} (${bundle.tx.blockTimestamp})`)
+    .field("Registrant", bundle.tx.from, true);
+
+  pdf.heading("Fingerprints");
+  if (bundle.media.sha256) pdf.field(`Media SHA-256${bundle.media.type ? ` (${bundle.media.type})` : ""}`, bundle.media.sha256, true);
+  if (bundle.media.imageSha256 && bundle.media.imageSha256 !== bundle.media.sha256) pdf.field("Image SHA-256", bundle.media.imageSha256, true);
+  pdf.field("IP metadata CID", bundle.ipMetadata.cid, true)
+    .field("IP metadata keccak256", bundle.ipMetadata.keccak, true)
+    .field("NFT metadata CID", bundle.nftMetadata.cid, true)
+    .field("NFT metadata keccak256", bundle.nftMetadata.keccak, true);
+
+  pdf.heading("Creators");
+  if (bundle.creators.length === 0) pdf.text("Not stated.");
+  for (const c of bundle.creators) {
+    pdf.text(`${c.name}${c.role ? ` (${c.role})` : ""} - ${c.contributionPercent}%`, { font: "bold" })
+      .text(c.address, { font: "mono", size: 8.5, indent: 8 });
+  }
+
+  pdf.heading("License terms");
+  if (bundle.license.length === 0) pdf.text("No license terms attached.");
+  for (const l of bundle.license) {
+    pdf.text(`${l.title} (terms #${l.licenseTermsId})`, { font: "bold" });
+    for (const line of l.terms) pdf.text(`* ${line}`, { indent: 8 });
+    pdf.gap(4);
+  }
+
+  if (bundle.aiAnalysis) {
+    const a = bundle.aiAnalysis;
+    pdf.heading("AI analysis at registration");
+    pdf.text(`${a.aiGenerated ? "Likely AI-generated" : "Likely human-made"} (confidence ${Math.round(a.confidence * 100)}%).`)
+      .text(`IP eligibility ${a.eligibilityScore}/100 - ${a.eligible ? "eligible" : "not eligible"}; recommended license: ${a.recommendedLicense}.`);
+    if (a.reasoning) pdf.text(a.reasoning, { size: 9, color: "0.35 0.35 0.35" });
+  }
+
+  pdf.rule()
+    .text("How to verify", { font: "bold", size: 9 })
+    .text(
+      "Every value above is public. The transaction emits the IP ID and the metadata URIs and hashes; the metadata pinned on IPFS hashes to the keccak256 values; the media hashes to the SHA-256 recorded in the IP metadata. The accompanying JSON proof bundle lets software re-run these checks.",
+      { size: 8.5, color: "0.35 0.35 0.35" },
+    )
+    .field("IP explorer", bundle.links.ip)
+    .field("Transaction explorer", bundle.links.tx)
+    .text(`Issued ${bundle.issuedAt}`, { size: 8, color: "0.5 0.5 0.5" });
+
+  return pdf.toBlob();
+}
+
+export function proofBundleBlob(bundle: ProofBundle): Blob {
+  return new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+}
@@ -0,0 +1,140 @@
+// Network registry: everything that differs between Story Aeneid (testnet) and Story mainnet.
+// Modules read the active entry through getNetwork(); the choice is made once per page load
+// (NEXT_PUBLIC_STORY_NETWORK, overridden by the Topbar switcher) because viem clients are
+// created at import time — switching saves the choice and reloads.
+import { createPublicClient, http, type Chain } from "viem";
+import { storyAeneid, storyMainnet } from "./story";
+
+export type NetworkKey = "aeneid" | "mainnet";
+
+export type NetworkConfig = {
+  key: NetworkKey;
+  name: string;
+  chain: Chain;
+  // chainId understood by @story-protocol/core-sdk
+  sdkChainId: "aeneid" | "mainnet";
+  rpcUrl: string;
+  explorerUrl: string;     // transactions and addresses
+  ipExplorerUrl: string;   // Story IP portal, `/ipa/<ipId>`
+  testnet: boolean;
+  contracts: {
+    // public SPG collection registrations mint into unless the user picks their own; zero when there is none
+    spgCollection: `0x${string}`;
+    royaltyPolicyLap: `0x${string}`;
+    royaltyPolicyLrp: `0x${string}`;
+    wip: `0x${string}`;
+    ipAssetRegistry: `0x${string}`;
+    licenseRegistry: `0x${string}`;
+    pilTemplate: `0x${string}`;
+    coreMetadataModule: `0x${string}`;
+  };
+  piperx: {
+    aggregator: `0x${string}`;
+    api: string;
+    wip: `0x${string}`;
+  };
+};
+
+const NULL_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
+const WIP = "0x1514000000000000000000000000000000000000" as const;
+
+// Story core contracts are deployed at the same addresses on both networks
+const CORE = {
+  royaltyPolicyLap: "0xBe54FB168b3c982b7AaE60dB6CF75Bd8447b390E",
+  royaltyPolicyLrp: "0x9156e603C949481883B1d3355c6f1132D191fC41",
+  wip: WIP,
+  ipAssetRegistry: "0x77319B4031e6eF1250907aa00018B8B1c67a244b",
+  licenseRegistry: "0x529a750E02d8E2f15649c13D69a465286a780e24",
+  pilTemplate: "0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316",
+  coreMetadataModule: "0x6E81a25C99C6e8430aeC7353325EB138aFE5DC16",
+} as const;
+
+export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
+  aeneid: {
+    key: "aeneid",
+    name: "Aeneid",
+    chain: storyAeneid,
+    sdkChainId: "aeneid",
+    rpcUrl: process.env.NEXT_PUBLIC_STORY_RPC || "https://aeneid.storyrpc.io",
+    explorerUrl: storyAeneid.blockExplorers!.default.url,
+    ipExplorerUrl: "https://aeneid.explorer.story.foundation",
+    testnet: true,
+    contracts: {
+      ...CORE,
+      spgCollection: (process.env.NEXT_PUBLIC_SPG_COLLECTION || "0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc") as `0x${string}`,
+    },
+    piperx: {
+      aggregator: (process.env.NEXT_PUBLIC_PIPERX_AGGREGATOR || "") as `0x${string}`,
+      api: process.env.NEXT_PUBLIC_PIPERX_AGGREGATOR_API || "",
+      wip: (process.env.NEXT_PUBLIC_PIPERX_WIP || WIP) as `0x${string}`,
+    },
+  },
+  mainnet: {
+    key: "mainnet",
+    name: "Story Mainnet",
+    chain: storyMainnet,
+    sdkChainId: "mainnet",
+    rpcUrl: process.env.NEXT_PUBLIC_STORY_MAINNET_RPC || "https://mainnet.storyrpc.io",
+    explorerUrl: storyMainnet.blockExplorers!.default.url,
+    ipExplorerUrl: "https://explorer.story.foundation",
+    testnet: false,
+    contracts: {
+      ...CORE,
+      // there is no shared public collection on mainnet; users create their own
+      spgCollection: (process.env.NEXT_PUBLIC_MAINNET_SPG_COLLECTION || NULL_ADDRESS) as `0x${string}`,
+    },
+    piperx: {
+      aggregator: (process.env.NEXT_PUBLIC_MAINNET_PIPERX_AGGREGATOR || "") as `0x${string}`,
+      api: process.env.NEXT_PUBLIC_MAINNET_PIPERX_AGGREGATOR_API || "",
+      wip: (process.env.NEXT_PUBLIC_MAINNET_PIPERX_WIP || WIP) as `0x${string}`,
+    },
+  },
+};
+
+export const DEFAULT_NETWORK: NetworkKey = process.env.NEXT_PUBLIC_STORY_NETWORK === "mainnet" ? "mainnet" : "aeneid";
+
+const STORAGE_KEY = "superleeNetwork";
+
+export function isNetworkKey(value: unknown): value is NetworkKey {
+  return typeof value === "string" && value in NETWORKS;
+}
+
+export function activeNetworkKey(): NetworkKey {
+  if (typeof window === "undefined") return DEFAULT_NETWORK;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isNetworkKey(saved) ? saved : DEFAULT_NETWORK;
+  } catch {
+    return DEFAULT_NETWORK;
+  }
+}
+
+export function getNetwork(key: NetworkKey = activeNetworkKey()): NetworkConfig {
+  return NETWORKS[key];
+}
+
+export function networkByChainId(chainId?: number): NetworkConfig | undefined {
+  return Object.values(NETWORKS).find(n => n.chain.id === chainId);
+}
+
+/** Persist the choice and reload so every module picks it up. */
+export function setNetwork(key: NetworkKey) {
+  try {
+    if (key === DEFAULT_NETWORK) localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, key);
+  } catch {}
+  window.location.reload();
+}
+
+// Browser RPC goes through our relay (keeps keys server-side); the relay picks the upstream by network
+export function relayUrl(key: NetworkKey = activeNetworkKey()) {
+  return `/api/rpc/relay?network=${key}`;
+}
+
+// Read-only client for library modules (direct RPC, no wallet)
+export function networkPublicClient(network: NetworkConfig = getNetwork()) {
+  return createPublicClient({ chain: network.chain, transport: http(network.rpcUrl) });
+}
+
+export const ipExplorerLink = (ipId: string, network: NetworkConfig = getNetwork()) => `${network.ipExplorerUrl}/ipa/${ipId}`;
+export const txExplorerLink = (txHash: string, network: NetworkConfig = getNetwork()) => `${network.explorerUrl}/tx/${txHash}`;
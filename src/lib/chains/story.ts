@@ -12,6 +12,6 @@ export const storyMainnet = defineChain({
   id: 1514,
   name: "Story",
   nativeCurrency: { name: "IP", symbol: "IP", decimals: 18 },
-  rpcUrls: { default: { http: ["https://mainnet.storyrpc.io"] } },
+  rpcUrls: { default: { http: [process.env.NEXT_PUBLIC_STORY_MAINNET_RPC || "https://mainnet.storyrpc.io"] } },
   blockExplorers: { default: { name: "StoryScan", url: "https://mainnet.storyscan.xyz" } },
 });
\ No newline at end of file
@@ -0,0 +1,68 @@
+// SPG NFT collections. Every registration mints into the active collection: the one the user
+// picked (or created from the app), falling back to the network's default collection
+// (NEXT_PUBLIC_SPG_COLLECTION on Aeneid). Choices are remembered per network and wallet in localStorage.
+import { getNetwork } from "@/lib/chains/networks";
+import { STORY_CONTRACTS } from "@/lib/license/terms";
+
+export const DEFAULT_SPG_COLLECTION = STORY_CONTRACTS.SPG_COLLECTION;
+
+// Mainnet has no shared collection unless one is configured
+export const HAS_DEFAULT_COLLECTION = DEFAULT_SPG_COLLECTION !== STORY_CONTRACTS.NULL_ADDRESS;
+
+export type SpgCollection = {
+  address: `0x${string}`;
+  name: string;
+  symbol: string;
+  mintFee: string;         // WIP wei, "0" when free
+  publicMinting: boolean;
+  createdAt: number;
+  txHash?: string;
+};
+
+// Fired on this tab when the list or the active collection changes (`storage` covers other tabs)
+export const COLLECTIONS_EVENT = "superlee:collections";
+
+// Aeneid keeps the original un-prefixed keys so collections created before networks existed still show up
+const scope = (owner: string) => {
+  const { key } = getNetwork();
+  return key === "aeneid" ? owner.toLowerCase() : `${key}:${owner.toLowerCase()}`;
+};
+const listKey = (owner: string) => `superleeCollections:${scope(owner)}`;
+const activeKey = (owner: string) => `superleeActiveCollection:${scope(owner)}`;
+
+function notify() {
+  try { window.dispatchEvent(new Event(COLLECTIONS_EVENT)); } catch {}
+}
+
+export function loadCollections(owner?: string): SpgCollection[] {
+  if (!owner || typeof window === "undefined") return [];
+  try {
+    const list = JSON.parse(localStorage.getItem(listKey(owner)) || "[]");
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberCollection(owner: string, collection: SpgCollection) {
+  const rest = loadCollections(owner).filter(c => c.address.toLowerCase() !== collection.address.toLowerCase());
+  try { localStorage.setItem(listKey(owner), JSON.stringify([collection, ...rest])); } catch {}
+  notify();
+}
+
+export function activeCollection(owner?: string): `0x${string}` {
+  if (!owner || typeof window === "undefined") return DEFAULT_SPG_COLLECTION;
+  try {
+    return (localStorage.getItem(activeKey(owner)) as `0x${string}` | null) || DEFAULT_SPG_COLLECTION;
+  } catch {
+    return DEFAULT_SPG_COLLECTION;
+  }
+}
+
+export function setActiveCollection(owner: string, address: `0x${string}`) {
+  try {
+    if (address.toLowerCase() === DEFAULT_SPG_COLLECTION.toLowerCase()) localStorage.removeItem(activeKey(owner));
+    else localStorage.setItem(activeKey(owner), address);
+  } catch {}
+  notify();
+}
@@ -0,0 +1,77 @@
+// Co-creators of an IP: written to the IP metadata `creators` field and, optionally, used to
+// split the IP's royalty tokens in the same proportions.
+import { isAddress, type PublicClient } from "viem";
+import { normalize } from "viem/ens";
+
+export const CREATOR_ROLES = ["author", "composer", "performer", "illustrator", "producer", "other"] as const;
+export type CreatorRole = (typeof CREATOR_ROLES)[number];
+
+export type Creator = {
+  name: string;
+  // 0x address or a .ip name (resolved right before registering)
+  address: string;
+  role?: CreatorRole;
+  contributionPercent: number;
+};
+
+export type ResolvedCreator = Creator & { address: `0x${string}` };
+
+export const MAX_CREATORS = 10;
+// .ip names resolve through an ENS-compatible universal resolver on the Story chain
+const IP_NAME_RESOLVER = process.env.NEXT_PUBLIC_IP_NAME_RESOLVER as `0x${string}` | undefined;
+
+export function isIpName(value: string): boolean {
+  return /^[^\s.]+(\.[^\s.]+)*\.ip$/i.test(value.trim());
+}
+
+export function totalPercent(creators: Creator[]): number {
+  // two decimals is what the editor allows; avoids 33.33 + 33.33 + 33.34 float noise
+  return Math.round(creators.reduce((sum, c) => sum + (Number(c.contributionPercent) || 0), 0) * 100) / 100;
+}
+
+/**
+ * i18n key of the first problem, or null when the list can be registered:
+ * every creator needs a name, an address or .ip name and a positive share, and shares add up to 100.
+ */
+export function validateCreators(creators: Creator[]): string | null {
+  if (creators.length === 0) return null;
+  if (creators.length > MAX_CREATORS) return "creators.error.tooMany";
+  for (const c of creators) {
+    if (!c.name.trim()) return "creators.error.name";
+    const address = c.address.trim();
+    if (!isAddress(address) && !isIpName(address)) return "creators.error.address";
+    if (!(c.contributionPercent > 0)) return "creators.error.percent";
+  }
+  if (totalPercent(creators) !== 100) return "creators.error.total";
+  return null;
+}
+
+export async function resolveCreatorAddress(value: string, client?: PublicClient): Promise<`0x${string}`> {
+  const v = value.trim();
+  if (isAddress(v)) return v;
+  if (!isIpName(v)) throw new Error(`Invalid creator address: ${v}`);
+  if (!IP_NAME_RESOLVER || !client) throw new Error(`Can't resolve ${v}: NEXT_PUBLIC_IP_NAME_RESOLVER is not configured`);
+  const resolved = await client.getEnsAddress({ name: normalize(v), universalResolverAddress: IP_NAME_RESOLVER });
+  if (!resolved) throw new Error(`${v} does not resolve to an address`);
+  return resolved;
+}
+
+export async function resolveCreators(creators: Creator[], client?: PublicClient): Promise<ResolvedCreator[]> {
+  return Promise.all(creators.map(async (c) => ({ ...c, address: await resolveCreatorAddress(c.address, client) })));
+}
+
+/** Royalty token shares for the SDK; one entry per address, so co-listed wallets are merged. */
+export function toRoyaltyShares(creators: ResolvedCreator[]): { recipient: `0x${string}`; percentage: number }[] {
+  const byAddress = new Map<string, number>();
+  for (const c of creators) {
+    const key = c.address.toLowerCase();
+    byAddress.set(key, (byAddress.get(key) || 0) + c.contributionPercent);
+  }
+  return Array.from(byAddress, ([recipient, percentage]) => ({ recipient: recipient as `0x${string}`, percentage }));
+}
+
+export function formatCreators(creators: Creator[]): string {
+  return creators
+    .map(c => `${c.name}${c.role ? ` (${c.role})` : ""} ${c.contributionPercent}%`)
+    .join(", ");
+}
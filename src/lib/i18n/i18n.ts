@@ -15,6 +15,52 @@ const translations: Record<Lang, Dict> = {
     "buttons.takePhoto": "Take Photo",
     "buttons.submitReview": "Submit for Review",
     "buttons.why": "Why?",
+    "buttons.registerRemix": "Register as Remix",
+    "buttons.back": "Go back",
+    "buttons.useSuggestedTitle": "Use AI title",
+    "buttons.useSuggestedDesc": "Use AI description",
+    "buttons.smartLicense": "🧠 Smart License",
+    "buttons.selectLicense": "Choose license",
+    "buttons.openUse": "Open Use",
+    "buttons.commercialRemix": "Commercial Remix",
+    "buttons.saveDetails": "Save details",
+    "blocks.title": "Title",
+    "blocks.description": "Description",
+    "blocks.submitted": "Saved",
+    "blocks.license": "License",
+    "blocks.commercial": "Commercial",
+    "blocks.derivatives": "Derivatives",
+    "blocks.mintingFee": "Minting fee",
+    "blocks.termsId": "Terms",
+    "blocks.quality": "Quality",
+    "blocks.ipScore": "IP score",
+    "blocks.aiConfidence": "AI confidence",
+    "tx.pending": "Waiting for confirmation",
+    "tx.confirmed": "Confirmed",
+    "tx.failed": "Failed",
+    "tx.unknown": "Not confirmed yet, check the explorer",
+    "tx.view": "View transaction",
+    "tx.register": "IP registration",
+    "tx.swap": "Swap",
+    "buttons.openSession": "Open chat",
+    "commands.title": "Commands:",
+    "commands.usage": "Usage:",
+    "commands.unknown": "Unknown command.",
+    "commands.register": "Start registering an IP",
+    "commands.search": "Search registered IP",
+    "commands.license": "Explain licenses, or pick one while registering",
+    "commands.status": "Check an IP's registration and license terms",
+    "commands.history": "List recent chats",
+    "commands.help": "Show all commands",
+    "commands.arg.query": "query",
+    "commands.arg.license": "open|commercial",
+    "commands.arg.ipId": "ipId",
+    "commands.historyTitle": "Recent chats:",
+    "commands.historyEmpty": "No saved chats yet.",
+    "commands.historyMessages": "Messages",
+    "commands.historyDate": "Date",
+    "commands.palettePlaceholder": "Type a command…",
+    "commands.noMatch": "No matching command",
 
     // Smart license summaries and details
     "smart.applied.title": "AI recommendation applied 🎉",
@@ -39,18 +85,76 @@ const translations: Record<Lang, Dict> = {
     "await.uploadFirst": "Please attach your image first.",
     "search.resultsFor": "Search results for:",
     "open.dashboard": "Open Dashboard",
-    "swap.disabled": "We focus on IP registration now. Token swap is disabled.",
+    "swap.askDetails": "Tell me what to swap, e.g. “Swap 1 WIP > USDC slippage 0.5%”.",
+    "swap.quote": "Quote:",
+    "swap.quoting": "Fetching quote...",
+    "swap.minReceived": "Min received:",
+    "swap.slippage": "Slippage:",
+    "swap.priceImpact": "Price impact:",
+    "swap.quoteFailed": "Could not fetch a quote:",
+    "swap.status.checkingAllowance": "Checking allowance...",
+    "swap.status.approving": "Approving token...",
+    "swap.status.swapping": "Swapping via PiperX...",
+    "swap.status.success": "Swap complete!",
+    "swap.status.error": "Swap failed",
+    "swap.success": "Swap success ✅",
+    "swap.failed": "Swap error:",
+    "remix.parentOk": "Parent IP found and its license allows remixing.",
+    "remix.notAllowed": "Can't register a remix of this IP.",
+    "nft.notAllowed": "Can't register this NFT.",
+    "remix.uploadPrompt": "Upload your remix to continue.",
 
     // Prompts
     "prompt.name": "Perfect! What should we call this IP? (Enter a title/name)",
     "prompt.description": "Give me a description of your IP.",
     "ai.suggestsTitle": "AI suggests:",
     "ai.suggestsDesc": "AI suggests:",
+    "edit.current": "Current:",
+    "edit.noSuggestion": "No AI suggestion is available for this field.",
+    "tools.licenseSet": "License set to",
+    "ipStatus.registered": "✅ This IP is registered on Story.",
+    "ipStatus.notRegistered": "❌ This IP is not registered on Story.",
+    "ipStatus.terms": "Attached license terms:",
+    "ipStatus.noTerms": "No PIL license terms attached yet.",
+    "ipStatus.commercial": "commercial",
+    "ipStatus.nonCommercial": "non-commercial",
+    "ipStatus.derivatives": "derivatives allowed",
+    "ipStatus.noDerivatives": "no derivatives",
+    "ipStatus.view": "View on IP Explorer",
+    "ipStatus.failed": "Could not read IP status:",
 
     // Plan labels
     "plan.name": "Name:",
     "plan.description": "Description:",
+    "plan.creators": "Creators:",
+    "plan.royaltySplit": "Royalty tokens split by contribution",
+    "creators.title": "Creators",
+    "creators.soleCreator": "Creator: your wallet (100%)",
+    "creators.addCoCreators": "Add co-creators",
+    "creators.add": "Add creator",
+    "creators.remove": "Remove",
+    "creators.splitEvenly": "Split evenly",
+    "creators.name": "Name",
+    "creators.address": "0x… or name.ip",
+    "creators.total": "Total: {total}%",
+    "creators.splitRoyalties": "Split royalty tokens by contribution",
+    "creators.role.author": "Author",
+    "creators.role.composer": "Composer",
+    "creators.role.performer": "Performer",
+    "creators.role.illustrator": "Illustrator",
+    "creators.role.producer": "Producer",
+    "creators.role.other": "Other",
+    "creators.error.tooMany": "Up to 10 creators per IP.",
+    "creators.error.name": "Every creator needs a name.",
+    "creators.error.address": "Every creator needs a 0x address or a .ip name.",
+    "creators.error.percent": "Every creator needs a contribution above 0%.",
+    "creators.error.total": "Contributions must add up to 100%.",
     "plan.license": "License:",
+    "plan.parent": "Remix of:",
+    "plan.nft": "Existing NFT:",
+    "plan.parentTerms": "Parent license terms",
+    "plan.mintingFee": "License minting fee:",
+    "plan.revShare": "Revenue share to parent:",
 
     // PlanBox labels
     "planBox.licenseType": "License Type",
@@ -59,18 +163,167 @@ const translations: Record<Lang, Dict> = {
     "planBox.confirm": "Confirm",
     "planBox.cancel": "Cancel",
     "planBox.error": "Error:",
+    "cert.ready": "📜 Your registration certificate is ready. Keep the JSON proof bundle: anyone can re-check it against the chain and IPFS.",
+    "cert.failed": "Could not build the registration certificate:",
+    "cert.title": "Registration certificate",
+    "cert.subtitle": "{title} — registered {date}",
+    "cert.downloadPdf": "Download PDF",
+    "cert.downloadJson": "Download proof (JSON)",
+    "cert.verify": "Verify",
+    "cert.verifying": "Verifying…",
+    "cert.verified": "Every field matches the chain and IPFS.",
+    "cert.mismatch": "Some fields do not match. See the checks below.",
+    "cert.check.network": "Network",
+    "cert.check.tx": "Transaction, block and registrant",
+    "cert.check.ipId": "IP ID registered for this NFT",
+    "cert.check.ipMetadataOnChain": "IP metadata URI and hash on chain",
+    "cert.check.ipMetadataPinned": "IP metadata on IPFS matches its hash",
+    "cert.check.nftMetadataOnChain": "NFT metadata URI and hash on chain",
+    "cert.check.nftMetadataPinned": "NFT metadata on IPFS matches its hash",
+    "cert.check.media": "Media SHA-256",
+    "cert.check.image": "Image SHA-256",
+    "cert.check.creators": "Creators",
+    "cert.check.license": "License terms still attached and as described",
+    "cert.check.work": "Title and media type in the IP metadata",
+    "cert.check.provenance": "Provenance manifest in the registered image",
+    "provenance.found": "🔏 This file carries a provenance manifest.",
+    "provenance.title": "Provenance manifest",
+    "provenance.status.verified": "Signed by SuperLee and the content is unchanged.",
+    "provenance.status.untrusted": "Validly signed, but not by this app's key.",
+    "provenance.status.modified": "The content was changed after the manifest was signed.",
+    "provenance.status.badSignature": "The signature does not match the manifest.",
+    "provenance.work": "Work",
+    "provenance.creators": "Creator wallets",
+    "provenance.aiGenerated": "AI-generated",
+    "provenance.yes": "Yes",
+    "provenance.no": "No",
+    "provenance.unknown": "Not stated",
+    "provenance.aiTraining": "AI training",
+    "provenance.optedOut": "Opted out",
+    "provenance.allowed": "Allowed",
+    "provenance.license": "License",
+    "provenance.signer": "Signed by",
+    "provenance.signedAt": "Signed at",
+    "licensing.title": "License terms ({count})",
+    "licensing.refresh": "Reload from chain",
+    "licensing.loading": "Reading attached terms…",
+    "licensing.none": "No PIL terms attached yet.",
+    "licensing.commercial": "Commercial",
+    "licensing.nonCommercial": "Non-commercial",
+    "licensing.remixAllowed": "remix allowed",
+    "licensing.noRemix": "no remix",
+    "licensing.summary": "Fee: {fee} · Rev share: {revShare}%",
+    "licensing.free": "Free",
+    "licensing.overridden": "custom config",
+    "licensing.disabled": "disabled",
+    "licensing.configure": "Configure",
+    "licensing.mintingFee": "Minting fee (WIP)",
+    "licensing.revShare": "Rev share (%)",
+    "licensing.disable": "Disable these terms (no new licenses can be minted)",
+    "licensing.saveConfig": "Save config",
+    "licensing.signing": "Waiting for signature…",
+    "licensing.addTitle": "Offer another license",
+    "licensing.attach": "Attach terms",
+    "licensing.custom": "Custom terms…",
+    "collections.label": "Mint into collection",
+    "network.title": "Story network (reloads the app)",
+    "network.testnet": "testnet",
+    "collections.default": "Default collection",
+    "collections.noDefault": "No default collection on this network — create one",
+    "collections.new": "New",
+    "collections.name": "Collection name",
+    "collections.symbol": "Symbol",
+    "collections.mintFee": "Mint fee (WIP)",
+    "collections.publicMinting": "Public minting (anyone can mint into this collection)",
+    "collections.mintFeeHint": "The mint fee is paid in WIP to your wallet on every mint. Leave 0 for free minting.",
+    "collections.creating": "Creating collection…",
+    "collections.create": "Create collection",
+    "simulate.running": "Simulating the transaction…",
+    "simulate.gas": "Gas:",
+    "simulate.mintFee": "SPG mint fee:",
+    "simulate.total": "Total:",
+    "simulate.approximate": "(approx.)",
+    "simulate.go": "✅ Simulation passed, ready to sign.",
+    "simulate.noGo": "⛔ This transaction would fail:",
+    "simulate.unavailable": "⚠️ Couldn't simulate, you can still sign:",
+    "simulate.noWallet": "connect your wallet first.",
+    "simulate.nftSignature": "registering an existing NFT asks for a permission signature first. Ownership checked ✅",
+    "simulate.needsApproval": "the mint fee needs a WIP approval, sent right before the mint, so gas can't be estimated yet. Your balance covers the fee ✅",
+    "simulate.revert.notOwner": "The connected wallet doesn't own this NFT.",
+    "simulate.revert.notPublic": "SPG collection is not public (your wallet can't mint in it).",
+    "simulate.revert.mintingClosed": "Minting is closed on this SPG collection.",
+    "simulate.revert.maxSupply": "This SPG collection reached its max supply.",
+    "simulate.revert.duplicate": "This NFT metadata is already minted in the collection.",
+    "simulate.revert.insufficientWip": "Insufficient WIP (or IP to wrap) for the mint fee and gas.",
+    "simulate.revert.allowance": "WIP allowance is too low for the mint fee.",
+    "simulate.revert.insufficientGas": "Insufficient IP to pay for gas.",
+    "simulate.revert.mintingFeeTooHigh": "The parent's license fee is above the max minting fee.",
+    "simulate.revert.parentTerms": "The parent IP doesn't have these license terms attached.",
+    "simulate.revert.alreadyAttached": "These license terms are already attached to the IP.",
+    "simulate.revert.notIpOwner": "The connected wallet doesn't own this IP.",
+    "planBox.failedAt": "Failed at: {step}",
+    "planBox.retryStep": "Retry: {step}",
+    "register.step.compress": "preparing the file",
+    "register.step.uploadMedia": "uploading the file",
+    "register.step.ipMetadata": "IP metadata",
+    "register.step.nftMetadata": "NFT metadata",
+    "register.step.mint": "minting",
+    "register.provenanceStale": "Another mint took the ipId this image's provenance manifest names. Confirm again to sign it for the next one.",
     "planBox.unknownError": "Unknown error",
     "license.option.openUse": "Open Use (free)",
     "license.option.commercialRemix": "Commercial Remix",
 
     // Status
     "status.compressing": "Compressing image...",
+    "status.preparingMedia": "Preparing media and cover...",
+    "media.analyzing": "🧠 Analyzing your {kind}...\n\n• Checking for duplicates\n• Assessing IP safety",
+    "media.analysisFailed": "❌ Sorry, I couldn't analyze this file. You can still proceed with registration.",
+    "media.unsupported": "This file type isn't supported. Upload an image, audio, video, PDF or text file.",
+    "media.kind.image": "Image",
+    "media.kind.audio": "Audio",
+    "media.kind.video": "Video",
+    "media.kind.document": "PDF document",
+    "media.kind.text": "Text",
+    "media.duration": "Duration:",
+    "media.words": "Words:",
+    "media.noText": "no extractable text",
+    "media.duplicate": "Duplicate detected: this file is already registered as IP. Registration is blocked.",
+    "media.similar": "Similar text detected: {percent}% overlap with a registered work. Registration is blocked.",
+    "media.textUnreadable": "The document's text could not be read, so it was not checked against registered works. Submit it for review or continue at your own risk.",
     "status.uploadingImage": "Uploading to IPFS...",
     "status.creatingMetadata": "Creating metadata...",
     "status.uploadingMetadata": "Uploading metadata...",
     "status.minting": "Minting NFT & registering IP...",
     "status.success": "IP registered successfully!",
     "status.error": "Registration failed",
+
+    // Batch registration
+    "batch.title": "Batch registration",
+    "batch.done": "done",
+    "batch.applyAll": "Apply to all",
+    "batch.start": "Register all",
+    "batch.stop": "Stop after current",
+    "batch.retry": "Retry",
+    "batch.skip": "Skip",
+    "batch.unskip": "Include again",
+    "batch.remove": "Remove",
+    "batch.duplicate": "Already registered as IP, will be skipped",
+    "batch.queued": "files queued for batch registration. Review titles and licenses below, then press Register all.",
+    "batch.summary": "Batch finished",
+    "batch.added": "{accepted} files added to the batch",
+    "batch.addedSkipped": "{accepted} files added, {skipped} skipped (unsupported or over the batch limit)",
+    "batch.noneAdded": "No files added: {skipped} unsupported or over the batch limit",
+    "batch.toast.done": "Batch registered ✅",
+    "batch.toast.errors": "Batch finished with errors ❌",
+    "batch.tokenId": "Token ID: {id}",
+    "batch.ipId": "IP ID: {ipId}",
+    "batch.status.analyzing": "Analyzing...",
+    "batch.status.ready": "Ready",
+    "batch.status.duplicate": "Duplicate",
+    "batch.status.registering": "Registering...",
+    "batch.status.success": "Registered",
+    "batch.status.error": "Failed",
+    "batch.status.skipped": "Skipped",
   },
   id: {
     // Buttons
@@ -84,6 +337,52 @@ const translations: Record<Lang, Dict> = {
     "buttons.takePhoto": "Ambil Foto",
     "buttons.submitReview": "Kirim untuk Review",
     "buttons.why": "Kenapa?",
+    "buttons.registerRemix": "Registrasi sebagai Remix",
+    "buttons.back": "Kembali",
+    "buttons.useSuggestedTitle": "Pakai judul AI",
+    "buttons.useSuggestedDesc": "Pakai deskripsi AI",
+    "buttons.smartLicense": "🧠 Smart License",
+    "buttons.selectLicense": "Pilih lisensi",
+    "buttons.openUse": "Open Use",
+    "buttons.commercialRemix": "Commercial Remix",
+    "buttons.saveDetails": "Simpan detail",
+    "blocks.title": "Judul",
+    "blocks.description": "Deskripsi",
+    "blocks.submitted": "Tersimpan",
+    "blocks.license": "Lisensi",
+    "blocks.commercial": "Komersial",
+    "blocks.derivatives": "Turunan",
+    "blocks.mintingFee": "Biaya minting",
+    "blocks.termsId": "Terms",
+    "blocks.quality": "Kualitas",
+    "blocks.ipScore": "Skor IP",
+    "blocks.aiConfidence": "Keyakinan AI",
+    "tx.pending": "Menunggu konfirmasi",
+    "tx.confirmed": "Terkonfirmasi",
+    "tx.failed": "Gagal",
+    "tx.unknown": "Belum terkonfirmasi, cek explorer",
+    "tx.view": "Lihat transaksi",
+    "tx.register": "Registrasi IP",
+    "tx.swap": "Swap",
+    "buttons.openSession": "Buka chat",
+    "commands.title": "Perintah:",
+    "commands.usage": "Penggunaan:",
+    "commands.unknown": "Perintah tidak dikenal.",
+    "commands.register": "Mulai daftarkan IP",
+    "commands.search": "Cari IP terdaftar",
+    "commands.license": "Jelaskan lisensi, atau pilih saat mendaftar",
+    "commands.status": "Cek status registrasi dan lisensi IP",
+    "commands.history": "Daftar chat terakhir",
+    "commands.help": "Tampilkan semua perintah",
+    "commands.arg.query": "kata kunci",
+    "commands.arg.license": "open|commercial",
+    "commands.arg.ipId": "ipId",
+    "commands.historyTitle": "Chat terakhir:",
+    "commands.historyEmpty": "Belum ada chat tersimpan.",
+    "commands.historyMessages": "Pesan",
+    "commands.historyDate": "Tanggal",
+    "commands.palettePlaceholder": "Ketik perintah…",
+    "commands.noMatch": "Tidak ada perintah yang cocok",
 
     // Smart license summaries and details
     "smart.applied.title": "Rekomendasi AI diterapkan 🎉",
@@ -108,18 +407,76 @@ const translations: Record<Lang, Dict> = {
     "await.uploadFirst": "Lampirkan gambar terlebih dulu.",
     "search.resultsFor": "Hasil pencarian untuk:",
     "open.dashboard": "Buka Dashboard",
-    "swap.disabled": "Fokus kami kini khusus registrasi IP. Fitur swap token dinonaktifkan.",
+    "swap.askDetails": "Sebutkan yang mau di-swap, contoh: “Swap 1 WIP > USDC slippage 0.5%”.",
+    "swap.quote": "Quote:",
+    "swap.quoting": "Mengambil quote...",
+    "swap.minReceived": "Minimal diterima:",
+    "swap.slippage": "Slippage:",
+    "swap.priceImpact": "Dampak harga:",
+    "swap.quoteFailed": "Gagal mengambil quote:",
+    "swap.status.checkingAllowance": "Cek allowance...",
+    "swap.status.approving": "Approve token...",
+    "swap.status.swapping": "Swap via PiperX...",
+    "swap.status.success": "Swap selesai!",
+    "swap.status.error": "Swap gagal",
+    "swap.success": "Swap berhasil ✅",
+    "swap.failed": "Swap error:",
+    "remix.parentOk": "IP induk ditemukan dan lisensinya mengizinkan remix.",
+    "remix.notAllowed": "Tidak bisa registrasi remix dari IP ini.",
+    "nft.notAllowed": "NFT ini tidak bisa diregistrasi.",
+    "remix.uploadPrompt": "Unggah karya remix Anda untuk melanjutkan.",
 
     // Prompts
     "prompt.name": "Bagus! Judul IP ini apa? (Masukkan nama)",
     "prompt.description": "Jelaskan IP Anda.",
     "ai.suggestsTitle": "Saran AI:",
     "ai.suggestsDesc": "Saran AI:",
+    "edit.current": "Saat ini:",
+    "edit.noSuggestion": "Belum ada saran AI untuk kolom ini.",
+    "tools.licenseSet": "Lisensi diatur ke",
+    "ipStatus.registered": "✅ IP ini sudah terdaftar di Story.",
+    "ipStatus.notRegistered": "❌ IP ini belum terdaftar di Story.",
+    "ipStatus.terms": "Lisensi yang terpasang:",
+    "ipStatus.noTerms": "Belum ada lisensi PIL yang terpasang.",
+    "ipStatus.commercial": "komersial",
+    "ipStatus.nonCommercial": "non-komersial",
+    "ipStatus.derivatives": "turunan diizinkan",
+    "ipStatus.noDerivatives": "tanpa turunan",
+    "ipStatus.view": "Lihat di IP Explorer",
+    "ipStatus.failed": "Gagal membaca status IP:",
 
     // Plan labels
     "plan.name": "Nama:",
     "plan.description": "Deskripsi:",
+    "plan.creators": "Kreator:",
+    "plan.royaltySplit": "Token royalti dibagi sesuai kontribusi",
+    "creators.title": "Kreator",
+    "creators.soleCreator": "Kreator: wallet kamu (100%)",
+    "creators.addCoCreators": "Tambah ko-kreator",
+    "creators.add": "Tambah kreator",
+    "creators.remove": "Hapus",
+    "creators.splitEvenly": "Bagi rata",
+    "creators.name": "Nama",
+    "creators.address": "0x… atau nama.ip",
+    "creators.total": "Total: {total}%",
+    "creators.splitRoyalties": "Bagi token royalti sesuai kontribusi",
+    "creators.role.author": "Penulis",
+    "creators.role.composer": "Komposer",
+    "creators.role.performer": "Penampil",
+    "creators.role.illustrator": "Ilustrator",
+    "creators.role.producer": "Produser",
+    "creators.role.other": "Lainnya",
+    "creators.error.tooMany": "Maksimal 10 kreator per IP.",
+    "creators.error.name": "Setiap kreator perlu nama.",
+    "creators.error.address": "Setiap kreator perlu alamat 0x atau nama .ip.",
+    "creators.error.percent": "Setiap kreator perlu kontribusi di atas 0%.",
+    "creators.error.total": "Total kontribusi harus 100%.",
     "plan.license": "Lisensi:",
+    "plan.parent": "Remix dari:",
+    "plan.nft": "NFT yang sudah ada:",
+    "plan.parentTerms": "Lisensi induk",
+    "plan.mintingFee": "Biaya minting lisensi:",
+    "plan.revShare": "Bagi hasil ke induk:",
 
     // PlanBox labels
     "planBox.licenseType": "Tipe Lisensi",
@@ -128,18 +485,167 @@ const translations: Record<Lang, Dict> = {
     "planBox.confirm": "Konfirmasi",
     "planBox.cancel": "Batal",
     "planBox.error": "Error:",
+    "cert.ready": "📜 Sertifikat registrasi Anda sudah siap. Simpan bundel bukti JSON: siapa pun dapat memeriksanya ulang terhadap chain dan IPFS.",
+    "cert.failed": "Tidak dapat membuat sertifikat registrasi:",
+    "cert.title": "Sertifikat registrasi",
+    "cert.subtitle": "{title} — terdaftar {date}",
+    "cert.downloadPdf": "Unduh PDF",
+    "cert.downloadJson": "Unduh bukti (JSON)",
+    "cert.verify": "Verifikasi",
+    "cert.verifying": "Memverifikasi…",
+    "cert.verified": "Semua data cocok dengan chain dan IPFS.",
+    "cert.mismatch": "Beberapa data tidak cocok. Lihat pemeriksaan di bawah.",
+    "cert.check.network": "Jaringan",
+    "cert.check.tx": "Transaksi, blok, dan pendaftar",
+    "cert.check.ipId": "IP ID terdaftar untuk NFT ini",
+    "cert.check.ipMetadataOnChain": "URI dan hash metadata IP di chain",
+    "cert.check.ipMetadataPinned": "Metadata IP di IPFS cocok dengan hash-nya",
+    "cert.check.nftMetadataOnChain": "URI dan hash metadata NFT di chain",
+    "cert.check.nftMetadataPinned": "Metadata NFT di IPFS cocok dengan hash-nya",
+    "cert.check.media": "SHA-256 media",
+    "cert.check.image": "SHA-256 gambar",
+    "cert.check.creators": "Kreator",
+    "cert.check.license": "Syarat lisensi masih terpasang dan sesuai deskripsi",
+    "cert.check.work": "Judul dan jenis media di metadata IP",
+    "cert.check.provenance": "Manifes provenans di gambar terdaftar",
+    "provenance.found": "🔏 Berkas ini membawa manifes provenans.",
+    "provenance.title": "Manifes provenans",
+    "provenance.status.verified": "Ditandatangani oleh SuperLee dan kontennya tidak berubah.",
+    "provenance.status.untrusted": "Tanda tangan sah, tetapi bukan dari kunci aplikasi ini.",
+    "provenance.status.modified": "Konten diubah setelah manifes ditandatangani.",
+    "provenance.status.badSignature": "Tanda tangan tidak cocok dengan manifes.",
+    "provenance.work": "Karya",
+    "provenance.creators": "Dompet kreator",
+    "provenance.aiGenerated": "Dibuat AI",
+    "provenance.yes": "Ya",
+    "provenance.no": "Tidak",
+    "provenance.unknown": "Tidak disebutkan",
+    "provenance.aiTraining": "Pelatihan AI",
+    "provenance.optedOut": "Menolak (opt-out)",
+    "provenance.allowed": "Diizinkan",
+    "provenance.license": "Lisensi",
+    "provenance.signer": "Ditandatangani oleh",
+    "provenance.signedAt": "Ditandatangani pada",
+    "licensing.title": "Lisensi ({count})",
+    "licensing.refresh": "Muat ulang dari chain",
+    "licensing.loading": "Membaca lisensi yang terpasang…",
+    "licensing.none": "Belum ada lisensi PIL yang terpasang.",
+    "licensing.commercial": "Komersial",
+    "licensing.nonCommercial": "Non-komersial",
+    "licensing.remixAllowed": "boleh remix",
+    "licensing.noRemix": "tanpa remix",
+    "licensing.summary": "Biaya: {fee} · Bagi hasil: {revShare}%",
+    "licensing.free": "Gratis",
+    "licensing.overridden": "konfigurasi khusus",
+    "licensing.disabled": "nonaktif",
+    "licensing.configure": "Atur",
+    "licensing.mintingFee": "Biaya minting (WIP)",
+    "licensing.revShare": "Bagi hasil (%)",
+    "licensing.disable": "Nonaktifkan lisensi ini (tidak bisa mint lisensi baru)",
+    "licensing.saveConfig": "Simpan konfigurasi",
+    "licensing.signing": "Menunggu tanda tangan…",
+    "licensing.addTitle": "Tawarkan lisensi lain",
+    "licensing.attach": "Pasang lisensi",
+    "licensing.custom": "Lisensi kustom…",
+    "collections.label": "Mint ke koleksi",
+    "network.title": "Network Story (aplikasi dimuat ulang)",
+    "network.testnet": "testnet",
+    "collections.default": "Koleksi bawaan",
+    "collections.noDefault": "Tidak ada koleksi bawaan di network ini — buat satu",
+    "collections.new": "Baru",
+    "collections.name": "Nama koleksi",
+    "collections.symbol": "Simbol",
+    "collections.mintFee": "Biaya mint (WIP)",
+    "collections.publicMinting": "Mint publik (siapa pun boleh mint ke koleksi ini)",
+    "collections.mintFeeHint": "Biaya mint dibayar dalam WIP ke wallet Anda setiap kali mint. Isi 0 untuk mint gratis.",
+    "collections.creating": "Membuat koleksi…",
+    "collections.create": "Buat koleksi",
+    "simulate.running": "Mensimulasikan transaksi…",
+    "simulate.gas": "Gas:",
+    "simulate.mintFee": "Biaya mint SPG:",
+    "simulate.total": "Total:",
+    "simulate.approximate": "(perkiraan)",
+    "simulate.go": "✅ Simulasi lolos, siap ditandatangani.",
+    "simulate.noGo": "⛔ Transaksi ini akan gagal:",
+    "simulate.unavailable": "⚠️ Simulasi tidak tersedia, kamu tetap bisa tanda tangan:",
+    "simulate.noWallet": "hubungkan wallet dulu.",
+    "simulate.nftSignature": "registrasi NFT yang sudah ada meminta tanda tangan izin dulu. Kepemilikan sudah dicek ✅",
+    "simulate.needsApproval": "biaya mint butuh approval WIP yang dikirim tepat sebelum mint, jadi gas belum bisa diperkirakan. Saldo kamu cukup untuk biayanya ✅",
+    "simulate.revert.notOwner": "Wallet yang terhubung bukan pemilik NFT ini.",
+    "simulate.revert.notPublic": "Koleksi SPG tidak publik (wallet kamu tidak bisa mint di sana).",
+    "simulate.revert.mintingClosed": "Minting di koleksi SPG ini ditutup.",
+    "simulate.revert.maxSupply": "Koleksi SPG ini sudah mencapai suplai maksimum.",
+    "simulate.revert.duplicate": "Metadata NFT ini sudah pernah di-mint di koleksi.",
+    "simulate.revert.insufficientWip": "WIP (atau IP untuk di-wrap) tidak cukup untuk biaya mint dan gas.",
+    "simulate.revert.allowance": "Allowance WIP terlalu kecil untuk biaya mint.",
+    "simulate.revert.insufficientGas": "IP tidak cukup untuk membayar gas.",
+    "simulate.revert.mintingFeeTooHigh": "Biaya lisensi parent melebihi batas biaya minting.",
+    "simulate.revert.parentTerms": "IP parent tidak memiliki lisensi tersebut.",
+    "simulate.revert.alreadyAttached": "Lisensi ini sudah terpasang di IP tersebut.",
+    "simulate.revert.notIpOwner": "Wallet yang terhubung bukan pemilik IP ini.",
+    "planBox.failedAt": "Gagal di: {step}",
+    "planBox.retryStep": "Coba lagi: {step}",
+    "register.step.compress": "menyiapkan file",
+    "register.step.uploadMedia": "mengunggah file",
+    "register.step.ipMetadata": "metadata IP",
+    "register.step.nftMetadata": "metadata NFT",
+    "register.step.mint": "minting",
+    "register.provenanceStale": "Mint lain mengambil ipId yang disebut manifes provenans gambar ini. Konfirmasi lagi untuk menandatanganinya bagi ipId berikutnya.",
     "planBox.unknownError": "Error tidak diketahui",
     "license.option.openUse": "Open Use (gratis)",
     "license.option.commercialRemix": "Komersial Remix",
 
     // Status
     "status.compressing": "Mengompres gambar...",
+    "status.preparingMedia": "Menyiapkan media dan sampul...",
+    "media.analyzing": "🧠 Menganalisis {kind} kamu...\n\n• Memeriksa duplikat\n• Menilai keamanan IP",
+    "media.analysisFailed": "❌ Maaf, berkas ini tidak bisa dianalisis. Kamu tetap bisa melanjutkan registrasi.",
+    "media.unsupported": "Jenis berkas ini tidak didukung. Unggah gambar, audio, video, PDF atau teks.",
+    "media.kind.image": "Gambar",
+    "media.kind.audio": "Audio",
+    "media.kind.video": "Video",
+    "media.kind.document": "Dokumen PDF",
+    "media.kind.text": "Teks",
+    "media.duration": "Durasi:",
+    "media.words": "Jumlah kata:",
+    "media.noText": "tidak ada teks yang bisa dibaca",
+    "media.duplicate": "Duplikat terdeteksi: berkas ini sudah terdaftar sebagai IP. Registrasi diblokir.",
+    "media.similar": "Teks serupa terdeteksi: {percent}% sama dengan karya terdaftar. Registrasi diblokir.",
+    "media.textUnreadable": "Teks dokumen tidak bisa dibaca, jadi belum dibandingkan dengan karya terdaftar. Ajukan review atau lanjutkan dengan risiko sendiri.",
     "status.uploadingImage": "Unggah ke IPFS...",
     "status.creatingMetadata": "Membuat metadata...",
     "status.uploadingMetadata": "Unggah metadata...",
     "status.minting": "Minting NFT & registrasi IP...",
     "status.success": "IP berhasil diregistrasi!",
     "status.error": "Registrasi gagal",
+
+    // Batch registration
+    "batch.title": "Registrasi massal",
+    "batch.done": "selesai",
+    "batch.applyAll": "Terapkan ke semua",
+    "batch.start": "Registrasi semua",
+    "batch.stop": "Berhenti setelah yang ini",
+    "batch.retry": "Coba lagi",
+    "batch.skip": "Lewati",
+    "batch.unskip": "Sertakan lagi",
+    "batch.remove": "Hapus",
+    "batch.duplicate": "Sudah terdaftar sebagai IP, akan dilewati",
+    "batch.queued": "berkas masuk antrean registrasi massal. Periksa judul dan lisensi di bawah, lalu tekan Registrasi semua.",
+    "batch.summary": "Registrasi massal selesai",
+    "batch.added": "{accepted} berkas ditambahkan ke batch",
+    "batch.addedSkipped": "{accepted} berkas ditambahkan, {skipped} dilewati (tidak didukung atau melebihi batas batch)",
+    "batch.noneAdded": "Tidak ada berkas ditambahkan: {skipped} tidak didukung atau melebihi batas batch",
+    "batch.toast.done": "Batch terdaftar ✅",
+    "batch.toast.errors": "Batch selesai dengan galat ❌",
+    "batch.tokenId": "Token ID: {id}",
+    "batch.ipId": "IP ID: {ipId}",
+    "batch.status.analyzing": "Menganalisis...",
+    "batch.status.ready": "Siap",
+    "batch.status.duplicate": "Duplikat",
+    "batch.status.registering": "Meregistrasi...",
+    "batch.status.success": "Terdaftar",
+    "batch.status.error": "Gagal",
+    "batch.status.skipped": "Dilewati",
   }
 };
 
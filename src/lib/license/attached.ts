@@ -0,0 +1,44 @@
+// License terms attached to an IP the user already registered, with the per-terms LicensingConfig
+import { networkPublicClient } from "@/lib/chains/networks";
+import { getLicensingConfig, getParentLicenses, type ParentLicense } from "./derivative";
+import { STORY_CONTRACTS, type LicensingConfig } from "./terms";
+
+const publicClient = networkPublicClient();
+
+export type AttachedTerms = ParentLicense & {
+  // null when the owner never set a config (the terms' own defaults apply)
+  config: LicensingConfig | null;
+};
+
+// What the dashboard lets an owner override; rev share is a percent (0-100)
+export type LicensingConfigPatch = {
+  mintingFee: bigint;
+  commercialRevShare: number;
+  disabled: boolean;
+};
+
+/**
+ * Every PIL terms set attached to an IP, each with its LicensingConfig.
+ */
+export async function getAttachedTerms(ipId: `0x${string}`, pc: any = publicClient): Promise<AttachedTerms[]> {
+  const licenses = await getParentLicenses(ipId, pc);
+  return Promise.all(
+    licenses.map(async (l) => ({ ...l, config: await getLicensingConfig(ipId, l.licenseTermsId, pc).catch(() => null) })),
+  );
+}
+
+/**
+ * Merge an override into the current config, keeping hook and group settings untouched.
+ */
+export function mergeLicensingConfig(current: LicensingConfig | null, patch: LicensingConfigPatch): LicensingConfig {
+  return {
+    isSet: true,
+    licensingHook: current?.licensingHook ?? STORY_CONTRACTS.NULL_ADDRESS,
+    hookData: current?.hookData ?? "0x",
+    expectMinimumGroupRewardShare: current?.expectMinimumGroupRewardShare ?? 0,
+    expectGroupRewardPool: current?.expectGroupRewardPool ?? STORY_CONTRACTS.NULL_ADDRESS,
+    mintingFee: patch.mintingFee,
+    commercialRevShare: patch.commercialRevShare,
+    disabled: patch.disabled,
+  };
+}
@@ -0,0 +1,211 @@
+// Parent IP resolution for remix (derivative) registration
+import { formatUnits } from "viem";
+import { getNetwork, networkPublicClient } from "@/lib/chains/networks";
+import { findToken } from "@/lib/tokenlist";
+import { licenseRegistryAbi } from "@/lib/abi/license_registry";
+import { ipAssetRegistryAbi } from "@/lib/abi/ip_asset_registry";
+import { pilTemplateAbi } from "@/lib/abi/pil_template";
+import { STORY_CONTRACTS, type LicensingConfig } from "./terms";
+
+const publicClient = networkPublicClient();
+
+export type ParentLicense = {
+  licenseTemplate: `0x${string}`;
+  licenseTermsId: bigint;
+  derivativesAllowed: boolean;
+  derivativesApproval: boolean;
+  derivativesAttribution: boolean;
+  derivativesReciprocal: boolean;
+  commercialUse: boolean;
+  commercialAttribution: boolean;
+  commercialRevShare: number; // percent (0-100)
+  defaultMintingFee: bigint;
+  currency: `0x${string}`;
+  transferable: boolean;
+  expiration: bigint; // seconds, 0 = never
+};
+
+// Serializable summary kept in engine context and plan intent (no bigint)
+export type RemixParent = {
+  ipId: `0x${string}`;
+  licenseTermsId: string;
+  mintingFee: string; // smallest unit of `currency`, the parent's LicensingConfig fee when it sets one
+  currency: `0x${string}`;
+  commercialUse: boolean;
+  commercialRevShare: number;
+};
+
+export type RemixCheck =
+  | { ok: true; parent: RemixParent }
+  | { ok: false; reason: string };
+
+/**
+ * Read every license terms set attached to an IP from the LicenseRegistry.
+ * Only PIL terms are returned; other templates are skipped.
+ */
+export async function getParentLicenses(parentIpId: `0x${string}`, pc: any = publicClient): Promise<ParentLicense[]> {
+  const count = (await pc.readContract({
+    address: STORY_CONTRACTS.LICENSE_REGISTRY,
+    abi: licenseRegistryAbi,
+    functionName: "getAttachedLicenseTermsCount",
+    args: [parentIpId],
+  })) as bigint;
+
+  const out: ParentLicense[] = [];
+  for (let i = 0n; i < count; i++) {
+    const [licenseTemplate, licenseTermsId] = (await pc.readContract({
+      address: STORY_CONTRACTS.LICENSE_REGISTRY,
+      abi: licenseRegistryAbi,
+      functionName: "getAttachedLicenseTerms",
+      args: [parentIpId, i],
+    })) as readonly [`0x${string}`, bigint];
+    if (licenseTemplate.toLowerCase() !== STORY_CONTRACTS.PIL_TEMPLATE.toLowerCase()) continue;
+
+    const terms = (await pc.readContract({
+      address: STORY_CONTRACTS.PIL_TEMPLATE,
+      abi: pilTemplateAbi,
+      functionName: "getLicenseTerms",
+      args: [licenseTermsId],
+    })) as any;
+
+    out.push({
+      licenseTemplate,
+      licenseTermsId,
+      derivativesAllowed: !!terms.derivativesAllowed,
+      derivativesApproval: !!terms.derivativesApproval,
+      derivativesAttribution: !!terms.derivativesAttribution,
+      derivativesReciprocal: !!terms.derivativesReciprocal,
+      commercialUse: !!terms.commercialUse,
+      commercialAttribution: !!terms.commercialAttribution,
+      // PIL stores rev share with 1e6 precision (10% = 10_000_000)
+      commercialRevShare: Number(terms.commercialRevShare || 0) / 1_000_000,
+      defaultMintingFee: BigInt(terms.defaultMintingFee || 0),
+      currency: terms.currency,
+      transferable: !!terms.transferable,
+      expiration: BigInt(terms.expiration || 0),
+    });
+  }
+  return out;
+}
+
+export async function getLicensingConfig(
+  ipId: `0x${string}`,
+  licenseTermsId: bigint,
+  pc: any = publicClient,
+): Promise<LicensingConfig | null> {
+  const c = (await pc.readContract({
+    address: STORY_CONTRACTS.LICENSE_REGISTRY,
+    abi: licenseRegistryAbi,
+    functionName: "getLicensingConfig",
+    args: [ipId, STORY_CONTRACTS.PIL_TEMPLATE, licenseTermsId],
+  })) as any;
+  if (!c?.isSet) return null;
+  return {
+    isSet: true,
+    mintingFee: BigInt(c.mintingFee || 0),
+    licensingHook: c.licensingHook,
+    hookData: c.hookData,
+    // stored with 1e6 precision like the PIL terms; the SDK takes percents
+    commercialRevShare: Number(c.commercialRevShare || 0) / 1_000_000,
+    disabled: !!c.disabled,
+    expectMinimumGroupRewardShare: Number(c.expectMinimumGroupRewardShare || 0) / 1_000_000,
+    expectGroupRewardPool: c.expectGroupRewardPool,
+  };
+}
+
+// Terms with what minting a license under them costs right now
+export type RemixCandidate = ParentLicense & { mintingFee: bigint; disabled: boolean };
+
+/**
+ * Pick the cheapest enabled terms that allow derivatives without owner approval.
+ */
+export function pickRemixLicense(licenses: RemixCandidate[]): RemixCandidate | null {
+  const usable = licenses.filter(l => l.derivativesAllowed && !l.derivativesApproval && !l.disabled);
+  if (usable.length === 0) return null;
+  return usable.sort((a, b) => (a.mintingFee < b.mintingFee ? -1 : a.mintingFee > b.mintingFee ? 1 : 0))[0];
+}
+
+export async function isIpRegistered(ipId: `0x${string}`, pc: any = publicClient): Promise<boolean> {
+  return (await pc.readContract({
+    address: STORY_CONTRACTS.IP_ASSET_REGISTRY,
+    abi: ipAssetRegistryAbi,
+    functionName: "isRegistered",
+    args: [ipId],
+  })) as boolean;
+}
+
+/**
+ * Resolve a parent IP and check whether it can be remixed.
+ */
+export async function resolveRemixParent(parentIpId: `0x${string}`, pc: any = publicClient): Promise<RemixCheck> {
+  try {
+    const registered = await isIpRegistered(parentIpId, pc);
+    if (!registered) return { ok: false, reason: "Parent IP is not registered on Story." };
+
+    const licenses = await getParentLicenses(parentIpId, pc);
+    if (licenses.length === 0) return { ok: false, reason: "Parent IP has no PIL license terms attached." };
+
+    // the owner's LicensingConfig overrides the terms' fee; a lower maxMintingFee reverts the mint
+    const candidates: RemixCandidate[] = await Promise.all(licenses.map(async (l) => {
+      const config = await getLicensingConfig(parentIpId, l.licenseTermsId, pc);
+      return { ...l, mintingFee: config?.mintingFee ?? l.defaultMintingFee, disabled: !!config?.disabled };
+    }));
+
+    const pick = pickRemixLicense(candidates);
+    if (!pick) {
+      const remixable = candidates.filter(l => l.derivativesAllowed && !l.derivativesApproval);
+      const needsApproval = candidates.some(l => l.derivativesAllowed && l.derivativesApproval);
+      return {
+        ok: false,
+        reason: remixable.length
+          ? "Parent IP's remix license is disabled by its owner."
+          : needsApproval
+            ? "Parent IP only allows remixes approved by its owner."
+            : "Parent IP license does not allow derivatives.",
+      };
+    }
+
+    return {
+      ok: true,
+      parent: {
+        ipId: parentIpId,
+        licenseTermsId: pick.licenseTermsId.toString(),
+        mintingFee: pick.mintingFee.toString(),
+        currency: pick.currency,
+        commercialUse: pick.commercialUse,
+        commercialRevShare: pick.commercialRevShare,
+      },
+    };
+  } catch (e: any) {
+    return { ok: false, reason: e?.shortMessage || e?.message || "Failed to read parent IP." };
+  }
+}
+
+/**
+ * Compute the ipId of an NFT (registered or not) via IPAssetRegistry.
+ */
+export async function ipIdForToken(
+  pc: any,
+  tokenContract: `0x${string}`,
+  tokenId: string | bigint,
+  chainId: number = getNetwork().chain.id
+): Promise<`0x${string}` | null> {
+  try {
+    return (await pc.readContract({
+      address: STORY_CONTRACTS.IP_ASSET_REGISTRY,
+      abi: ipAssetRegistryAbi,
+      functionName: "ipId",
+      args: [BigInt(chainId), tokenContract, BigInt(tokenId)],
+    })) as `0x${string}`;
+  } catch {
+    return null;
+  }
+}
+
+// Fee in the terms' currency token; tokens missing from the list show their address
+export function formatMintingFee(amount: string, currency: `0x${string}`): string {
+  const v = BigInt(amount || "0");
+  if (v === 0n) return "Free";
+  const token = findToken(currency);
+  return `${formatUnits(v, token?.decimals ?? 18)} ${token?.symbol ?? currency}`;
+}
@@ -1,4 +1,5 @@
 // License Terms Configuration for Story Protocol PIL (Programmable IP License)
+import { getNetwork } from "@/lib/chains/networks";
 
 export interface LicenseTermsData {
   terms: PILTerms;
@@ -52,18 +53,24 @@ export interface LicenseSettings {
   licensePrice: number;
 }
 
-// Story Protocol contract addresses for Aeneid testnet
+// Story Protocol contract addresses for the active network (see lib/chains/networks)
+const { contracts } = getNetwork();
 export const STORY_CONTRACTS = {
   // Royalty policies
   LAP_ROYALTY_POLICY: "0x0000000000000000000000000000000000000000" as `0x${string}`, // For non-commercial
-  ROYALTY_POLICY_LAP: "0xBe54FB168b3c982b7AaE60dB6CF75Bd8447b390E" as `0x${string}`, // For commercial
+  ROYALTY_POLICY_LAP: contracts.royaltyPolicyLap, // For commercial
   
   // Currency contracts
-  STORY_USD: "0x1514000000000000000000000000000000000000" as `0x${string}`,
+  STORY_USD: contracts.wip,
   NULL_ADDRESS: "0x0000000000000000000000000000000000000000" as `0x${string}`,
   
   // SPG NFT Collection
-  SPG_COLLECTION: "0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc" as `0x${string}`,
+  SPG_COLLECTION: contracts.spgCollection,
+
+  // Core registries (used to resolve parent IPs for remixes)
+  IP_ASSET_REGISTRY: contracts.ipAssetRegistry,
+  LICENSE_REGISTRY: contracts.licenseRegistry,
+  PIL_TEMPLATE: contracts.pilTemplate,
 };
 
 export function createLicenseTerms(settings: LicenseSettings): LicenseTermsData {
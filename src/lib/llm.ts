@@ -0,0 +1,171 @@
+// LLM provider layer. Every server-side model call gets its client and model from here.
+import OpenAI from "openai";
+import { FIXTURE_MODE, withFixtures } from "@/lib/llmFixtures";
+
+export type LlmTask = "chat" | "vision" | "embeddings";
+// openai: api.openai.com; compatible: any OpenAI-compatible server (Ollama, llama.cpp, vLLM);
+// mock: deterministic offline responses, no network
+export type LlmProviderName = "openai" | "compatible" | "mock";
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  client: OpenAI;
+  models: Record<LlmTask, string>;
+  // false when the client can't stream (mock, fixtures); streamChat then yields one chunk
+  streaming: boolean;
+};
+
+const PROVIDER = (process.env.LLM_PROVIDER || "openai").toLowerCase() as LlmProviderName;
+const BASE_URL = process.env.LLM_BASE_URL || "";
+const TIMEOUT_MS = Number.parseInt(process.env.LLM_TIMEOUT_MS || "30000", 10);
+const MAX_RETRIES = Number.parseInt(process.env.LLM_MAX_RETRIES || "2", 10);
+// Set to false when images must not leave the deployment
+const VISION_ENABLED = (process.env.LLM_VISION_ENABLED ?? "true") === "true";
+
+const MODELS: Record<LlmTask, string> = {
+  chat: process.env.LLM_MODEL_CHAT || "gpt-4o-mini",
+  vision: process.env.LLM_MODEL_VISION || process.env.LLM_MODEL_CHAT || "gpt-4o-mini",
+  embeddings: process.env.LLM_MODEL_EMBEDDINGS || "text-embedding-3-small",
+};
+
+const MOCK_DIMENSIONS = 256;
+
+let provider: LlmProvider | null | undefined;
+
+function createProvider(): LlmProvider | null {
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+  switch (PROVIDER) {
+    case "openai":
+      if (!apiKey) return null;
+      return {
+        name: "openai",
+        client: new OpenAI({ apiKey, baseURL: BASE_URL || undefined, timeout: TIMEOUT_MS, maxRetries: MAX_RETRIES }),
+        models: MODELS,
+        streaming: true,
+      };
+    case "compatible":
+      if (!BASE_URL) return null;
+      // local servers usually ignore the key, but the SDK requires one
+      return {
+        name: "compatible",
+        client: new OpenAI({ apiKey: apiKey || "local", baseURL: BASE_URL, timeout: TIMEOUT_MS, maxRetries: MAX_RETRIES }),
+        models: MODELS,
+        streaming: true,
+      };
+    case "mock":
+      return { name: "mock", client: createMockClient(), models: MODELS, streaming: false };
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${PROVIDER}"`);
+      return null;
+  }
+}
+
+/**
+ * Configured provider for a task, or null when there is none (browser, missing key/base URL,
+ * or vision disabled). Callers treat null as "AI unavailable" and fall back.
+ * LLM_FIXTURES=record|replay routes every call through llmFixtures.
+ */
+export function getLlm(task: LlmTask = "chat"): LlmProvider | null {
+  if (typeof window !== "undefined") return null;
+  if (provider === undefined) {
+    try {
+      provider = createProvider();
+    } catch {
+      provider = null;
+    }
+    // replay needs no key or network; record wraps the real provider
+    if (FIXTURE_MODE === "replay") {
+      provider = { name: provider?.name ?? PROVIDER, client: withFixtures(null, "replay"), models: MODELS, streaming: false };
+    } else if (FIXTURE_MODE === "record" && provider) {
+      provider = { ...provider, client: withFixtures(provider.client, "record"), streaming: false };
+    }
+  }
+  if (task === "vision" && !VISION_ENABLED) return null;
+  return provider;
+}
+
+export function isLlmAvailable(task: LlmTask = "chat"): boolean {
+  return !!getLlm(task);
+}
+
+/**
+ * Chat completion as text deltas. Providers without streaming yield the whole reply once,
+ * so callers have a single code path.
+ */
+export async function* streamChat(
+  llm: LlmProvider,
+  params: Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, "stream">,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  if (!llm.streaming) {
+    const res = await llm.client.chat.completions.create(params, { signal });
+    const text = res.choices[0]?.message?.content;
+    if (text) yield text;
+    return;
+  }
+  const stream = await llm.client.chat.completions.create({ ...params, stream: true }, { signal });
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) yield delta;
+  }
+}
+
+// FNV-1a, so mock output is stable across runs and runtimes
+function hash32(input: string, seed = 0x811c9dc5): number {
+  let h = seed >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) return content.map((p: any) => (p?.type === "text" ? p.text : "")).join(" ");
+  return "";
+}
+
+function mockEmbedding(text: string, dimensions = MOCK_DIMENSIONS): number[] {
+  const v = Array.from({ length: dimensions }, (_, i) => (hash32(text, hash32(String(i))) / 0xffffffff) * 2 - 1);
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0)) || 1;
+  return v.map((x) => x / norm);
+}
+
+/**
+ * Offline stand-in for the subset of the OpenAI client the app uses.
+ * JSON requests get `{}` (every caller has defaults for missing fields), tool requests get
+ * no tool calls (the engine falls back to its rules), plain chat gets a fixed echo.
+ */
+function createMockClient(): OpenAI {
+  const chatCreate = async (params: any) => {
+    const messages: any[] = params?.messages || [];
+    const prompt = messages.map((m) => textOf(m?.content)).join("\n");
+    const lastUser = textOf([...messages].reverse().find((m) => m?.role === "user")?.content);
+    const wantsJson = params?.response_format?.type === "json_object" || /json/i.test(prompt);
+    const content = params?.tools?.length ? null : wantsJson ? "{}" : `[mock] ${lastUser.slice(0, 120)}`;
+    return {
+      id: `mock-${hash32(prompt).toString(16)}`,
+      object: "chat.completion",
+      created: 0,
+      model: params?.model,
+      choices: [{ index: 0, finish_reason: "stop", logprobs: null, message: { role: "assistant", content, refusal: null } }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+  };
+
+  const embeddingsCreate = async (params: any) => {
+    const inputs: string[] = Array.isArray(params?.input) ? params.input : [String(params?.input ?? "")];
+    return {
+      object: "list",
+      model: params?.model,
+      data: inputs.map((text, index) => ({ object: "embedding", index, embedding: mockEmbedding(String(text), params?.dimensions) })),
+      usage: { prompt_tokens: 0, total_tokens: 0 },
+    };
+  };
+
+  return {
+    chat: { completions: { create: chatCreate } },
+    embeddings: { create: embeddingsCreate },
+  } as unknown as OpenAI;
+}
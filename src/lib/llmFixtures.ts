@@ -0,0 +1,114 @@
+// Record/replay of LLM calls. Responses are stored as JSON files keyed by a hash of the request,
+// so AI-dependent flows can be reproduced offline (LLM_FIXTURES=record|replay).
+import type OpenAI from "openai";
+
+export type FixtureMode = "off" | "record" | "replay";
+export type FixtureKind = "chat" | "embeddings";
+
+export type Fixture = {
+  key: string;
+  kind: FixtureKind;
+  request: unknown;
+  response: unknown;
+  recordedAt: string;
+};
+
+export const FIXTURE_MODE = (process.env.LLM_FIXTURES || "off").toLowerCase() as FixtureMode;
+const FIXTURE_DIR = process.env.LLM_FIXTURES_DIR || "fixtures/llm";
+
+export class FixtureMissError extends Error {
+  constructor(public key: string, kind: FixtureKind) {
+    super(`No ${kind} fixture for request ${key}`);
+    this.name = "FixtureMissError";
+  }
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Sorted keys, so property order never changes the hash
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Request as it is hashed and stored: the model is dropped (fixtures survive model changes)
+ * and inline images are replaced by their hash so files stay small.
+ */
+async function normalizeRequest(params: any): Promise<unknown> {
+  const { model: _model, stream: _stream, ...rest } = params || {};
+  const walk = async (v: unknown): Promise<unknown> => {
+    if (typeof v === "string" && v.startsWith("data:")) return `data:sha256:${await sha256(v)}`;
+    if (Array.isArray(v)) return Promise.all(v.map(walk));
+    if (v && typeof v === "object") {
+      const out: Record<string, unknown> = {};
+      for (const [k, val] of Object.entries(v)) out[k] = await walk(val);
+      return out;
+    }
+    return v;
+  };
+  return walk(rest);
+}
+
+function fixturePath(key: string): string {
+  return `${process.cwd()}/${FIXTURE_DIR}/${key}.json`;
+}
+
+async function readFixture(key: string): Promise<Fixture | null> {
+  const { promises: fs } = await import("fs");
+  try {
+    return JSON.parse(await fs.readFile(fixturePath(key), "utf8")) as Fixture;
+  } catch {
+    return null;
+  }
+}
+
+async function writeFixture(fixture: Fixture): Promise<void> {
+  const { promises: fs } = await import("fs");
+  try {
+    await fs.mkdir(`${process.cwd()}/${FIXTURE_DIR}`, { recursive: true });
+    await fs.writeFile(fixturePath(fixture.key), JSON.stringify(fixture, null, 2) + "\n");
+  } catch (e) {
+    console.warn("Fixture write failed:", e);
+  }
+}
+
+/**
+ * Wrap the chat and embeddings calls of a client. In replay mode `client` may be null:
+ * every call is answered from disk and a missing fixture throws FixtureMissError,
+ * which routes treat like any other provider failure.
+ */
+export function withFixtures(client: OpenAI | null, mode: Exclude<FixtureMode, "off">): OpenAI {
+  const wrap = (kind: FixtureKind, call: ((params: any, options?: any) => Promise<any>) | null) =>
+    async (params: any, options?: any) => {
+      const request = await normalizeRequest(params);
+      const key = await sha256(`${kind}:${canonical(request)}`);
+
+      if (mode === "replay") {
+        const fixture = await readFixture(key);
+        if (!fixture) {
+          console.warn(`LLM replay miss (${kind}): ${key}`);
+          throw new FixtureMissError(key, kind);
+        }
+        return fixture.response;
+      }
+
+      const response = await call!(params, options);
+      await writeFixture({ key, kind, request, response, recordedAt: new Date().toISOString() });
+      return response;
+    };
+
+  return {
+    chat: { completions: { create: wrap("chat", client ? (p, o) => client.chat.completions.create(p, o) : null) } },
+    embeddings: { create: wrap("embeddings", client ? (p, o) => client.embeddings.create(p, o) : null) },
+  } as unknown as OpenAI;
+}
@@ -0,0 +1,113 @@
+// Registering an NFT the user already holds (their own ERC-721) as an IP asset
+import { erc721Abi, isAddress } from "viem";
+import { networkPublicClient } from "@/lib/chains/networks";
+import { ipIdForToken, isIpRegistered } from "@/lib/license/derivative";
+import { toHttps } from "@/lib/utils/ipfs";
+
+const publicClient = networkPublicClient();
+
+export type NftRef = { contract: `0x${string}`; tokenId: string };
+
+// Serializable summary kept in engine context and plan intent (no bigint)
+export type ExistingNft = NftRef & {
+  tokenURI: string;
+  name?: string;
+  description?: string;
+  image?: string;      // https gateway URL
+  animationUrl?: string;
+};
+
+export type NftCheck =
+  | { ok: true; nft: ExistingNft }
+  | { ok: false; reason: string };
+
+/** "0xabc…#12", "0xabc… #12" or "0xabc… 12" → contract + tokenId */
+export function parseNftRef(text: string): NftRef | null {
+  const m = text.match(/(0x[a-fA-F0-9]{40})\s*(?:#|\s+(?:token\s*)?#?)(\d+)\b/i);
+  if (!m || !isAddress(m[1])) return null;
+  return { contract: m[1] as `0x${string}`, tokenId: m[2] };
+}
+
+// ipfs:// and gateway paths go through our gateway; http(s) and data: URIs are kept
+export function gatewayUrl(uri?: string): string | undefined {
+  if (!uri) return undefined;
+  if (uri.startsWith("ipfs://") || /\/ipfs\//i.test(uri)) return toHttps(uri);
+  return uri;
+}
+
+/** Bytes a tokenURI serves (data: URIs decoded); what an on-chain nftMetadataHash commits to. */
+export async function fetchTokenURIBytes(tokenURI: string): Promise<Uint8Array | null> {
+  try {
+    if (tokenURI.startsWith("data:")) {
+      const comma = tokenURI.indexOf(",");
+      if (comma === -1) return null;
+      const payload = tokenURI.slice(comma + 1);
+      return /;base64$/i.test(tokenURI.slice(0, comma))
+        ? Uint8Array.from(atob(payload), c => c.charCodeAt(0))
+        : new TextEncoder().encode(decodeURIComponent(payload));
+    }
+    const url = gatewayUrl(tokenURI);
+    if (!url) return null;
+    const res = await fetch(url);
+    return res.ok ? new Uint8Array(await res.arrayBuffer()) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchTokenMetadata(tokenURI: string): Promise<any | null> {
+  const bytes = await fetchTokenURIBytes(tokenURI);
+  try {
+    return bytes ? JSON.parse(new TextDecoder().decode(bytes)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function ownerOfToken(ref: NftRef, pc: any = publicClient): Promise<`0x${string}`> {
+  return (await pc.readContract({
+    address: ref.contract,
+    abi: erc721Abi,
+    functionName: "ownerOf",
+    args: [BigInt(ref.tokenId)],
+  })) as `0x${string}`;
+}
+
+/**
+ * Check that the token exists and is not an IP yet, and read its tokenURI metadata.
+ * Ownership is checked again against the connected wallet right before registering.
+ */
+export async function resolveExistingNft(ref: NftRef, pc: any = publicClient): Promise<NftCheck> {
+  try {
+    await ownerOfToken(ref, pc);
+  } catch {
+    return { ok: false, reason: `Token #${ref.tokenId} does not exist on ${ref.contract} (ownerOf failed).` };
+  }
+  try {
+    const ipId = await ipIdForToken(pc, ref.contract, ref.tokenId);
+    if (ipId && (await isIpRegistered(ipId, pc))) {
+      return { ok: false, reason: `This NFT is already registered as IP ${ipId}.` };
+    }
+
+    const tokenURI = (await pc.readContract({
+      address: ref.contract,
+      abi: erc721Abi,
+      functionName: "tokenURI",
+      args: [BigInt(ref.tokenId)],
+    })) as string;
+    const meta = await fetchTokenMetadata(tokenURI);
+    return {
+      ok: true,
+      nft: {
+        ...ref,
+        tokenURI,
+        name: typeof meta?.name === "string" ? meta.name : undefined,
+        description: typeof meta?.description === "string" ? meta.description : undefined,
+        image: gatewayUrl(meta?.image || meta?.image_url),
+        animationUrl: gatewayUrl(meta?.animation_url),
+      },
+    };
+  } catch (e: any) {
+    return { ok: false, reason: e?.shortMessage || e?.message || "Failed to read the NFT." };
+  }
+}
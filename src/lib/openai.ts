@@ -1,22 +1,6 @@
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI | null {
-  // Only create server-side client
-  if (typeof window !== 'undefined') return null;
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return null;
-    try {
-      openaiClient = new OpenAI({ apiKey });
-    } catch {
-      return null;
-    }
-  }
-  return openaiClient;
-}
+import { zodFunction } from 'openai/helpers/zod';
+import { AGENT_TOOLS, type RawToolCall } from '@/lib/agent/tools';
+import { getLlm, streamChat, type LlmProvider } from '@/lib/llm';
 
 // Types for OpenAI responses
 export interface AICommandParsing {
@@ -40,16 +24,16 @@ export interface AIImageDescription {
 
 // Parse user command with natural language understanding
 export async function parseCommandWithAI(message: string): Promise<AICommandParsing | null> {
-  const client = getOpenAIClient();
+  const llm = getLlm();
   try {
-    if (!client) {
+    if (!llm) {
       const r = await fetch('/api/ai/parse', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ message }) });
       const j = await r.json();
       if (j?.ok && j?.data) return j.data as AICommandParsing;
       return null;
     }
-    const response = await client.chat.completions.create({
-      model: 'gpt-3.5-turbo',
+    const response = await llm.client.chat.completions.create({
+      model: llm.models.chat,
       messages: [
         {
           role: 'system',
@@ -85,26 +69,71 @@ For register commands, extract: title, description, license type if mentioned`
   }
 }
 
-// Generate smart conversational responses
-export async function generateContextualResponse(
-  userMessage: string,
-  context: string,
-  intent?: string
-): Promise<string | null> {
-  const client = getOpenAIClient();
+export interface AIToolPlan {
+  text: string | null;
+  toolCalls: RawToolCall[];
+}
+
+/**
+ * One tool-calling turn. Used directly on the server and by /api/ai/agent for the browser.
+ */
+export async function runAgentTools(llm: LlmProvider, message: string, state: string): Promise<AIToolPlan> {
+  const response = await llm.client.chat.completions.create({
+    model: llm.models.chat,
+    messages: [
+      {
+        role: 'system',
+        content: `You are SuperLee, an assistant for registering and licensing IP on Story Protocol.
+Call a tool whenever the user asks for something a tool can do; otherwise answer briefly.
+Never invent ipIds, titles or license values the user did not give.
+Current conversation state: ${state}`
+      },
+      { role: 'user', content: message }
+    ],
+    tools: (Object.keys(AGENT_TOOLS) as (keyof typeof AGENT_TOOLS)[]).map((name) =>
+      zodFunction({ name, description: AGENT_TOOLS[name].description, parameters: AGENT_TOOLS[name].parameters })
+    ),
+    tool_choice: 'auto',
+    temperature: 0.2,
+    max_tokens: 300,
+  });
+
+  const msg = response.choices[0]?.message;
+  return {
+    text: msg?.content || null,
+    toolCalls: (msg?.tool_calls || [])
+      .filter((c) => c.type === 'function')
+      .map((c) => ({ name: c.function.name, arguments: c.function.arguments })),
+  };
+}
+
+// Set once the server reports no API key, so the rule-based path is used without a round trip
+let agentUnavailable = false;
+
+// Ask the LLM which tools to call for a message (null when AI is unavailable)
+export async function planAgentTools(message: string, state: string): Promise<AIToolPlan | null> {
+  if (agentUnavailable) return null;
+  const llm = getLlm();
   try {
-    if (!client) {
-      const r = await fetch('/api/ai/respond', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ userMessage, context, intent }) });
+    if (!llm) {
+      const r = await fetch('/api/ai/agent', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ message, state }) });
       const j = await r.json();
-      if (j?.ok && typeof j?.data === 'string') return j.data as string;
+      if (j?.available === false) agentUnavailable = true;
+      if (j?.ok && j?.data) return j.data as AIToolPlan;
       return null;
     }
-    const response = await client.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: `You are SuperLee, a friendly and helpful AI assistant for a DeFi/IP platform. 
+    return await runAgentTools(llm, message, state);
+  } catch (error) {
+    console.error('OpenAI tool planning error:', error);
+    return null;
+  }
+}
+
+function contextualMessages(userMessage: string, context: string, intent?: string) {
+  return [
+    {
+      role: 'system' as const,
+      content: `You are SuperLee, a friendly and helpful AI assistant for a DeFi/IP platform. 
           
 Your personality:
 - Casual and approachable (use Indonesian slang occasionally)
@@ -116,12 +145,31 @@ Context: ${context}
 Intent: ${intent || 'general conversation'}
 
 Respond naturally in a conversational way. If user needs clarification, ask specific questions.`
-        },
-        {
-          role: 'user',
-          content: userMessage
-        }
-      ],
+    },
+    {
+      role: 'user' as const,
+      content: userMessage
+    }
+  ];
+}
+
+// Generate smart conversational responses
+export async function generateContextualResponse(
+  userMessage: string,
+  context: string,
+  intent?: string
+): Promise<string | null> {
+  const llm = getLlm();
+  try {
+    if (!llm) {
+      const r = await fetch('/api/ai/respond', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ userMessage, context, intent }) });
+      const j = await r.json();
+      if (j?.ok && typeof j?.data === 'string') return j.data as string;
+      return null;
+    }
+    const response = await llm.client.chat.completions.create({
+      model: llm.models.chat,
+      messages: contextualMessages(userMessage, context, intent),
       temperature: 0.7,
       max_tokens: 200
     });
@@ -133,18 +181,77 @@ Respond naturally in a conversational way. If user needs clarification, ask spec
   }
 }
 
+/**
+ * Same as generateContextualResponse, token by token (SSE from /api/ai/respond in the browser).
+ * Resolves with the full text. If the stream breaks before any token arrives it falls back to
+ * the JSON path; after that (including `signal` aborts) it resolves with what was received.
+ */
+export async function streamContextualResponse(
+  userMessage: string,
+  context: string,
+  intent: string | undefined,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const llm = getLlm();
+  let text = '';
+  const push = (delta: string) => { text += delta; onDelta(delta); };
+  try {
+    if (llm) {
+      const params = { model: llm.models.chat, messages: contextualMessages(userMessage, context, intent), temperature: 0.7, max_tokens: 200 };
+      for await (const delta of streamChat(llm, params, signal)) push(delta);
+      return text || null;
+    }
+
+    const r = await fetch('/api/ai/respond', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ userMessage, context, intent, stream: true }), signal });
+    if (!r.body || !(r.headers.get('content-type') || '').includes('text/event-stream')) {
+      // AI unavailable or a server without streaming
+      const j = await r.json().catch(() => null);
+      if (j?.ok && typeof j?.data === 'string') { push(j.data); return j.data; }
+      return null;
+    }
+
+    const reader = r.body.getReader();
+    const decoder = new TextDecoder();
+    let buf = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buf += decoder.decode(value, { stream: true });
+      let end: number;
+      while ((end = buf.indexOf('\n\n')) >= 0) {
+        const event = buf.slice(0, end);
+        buf = buf.slice(end + 2);
+        for (const line of event.split('\n')) {
+          if (!line.startsWith('data:')) continue;
+          const data = JSON.parse(line.slice(5).trim());
+          if (typeof data.delta === 'string') push(data.delta);
+          if (data.error) throw new Error(data.error);
+        }
+      }
+    }
+    return text || null;
+  } catch (error) {
+    if (text) return text;
+    if (signal?.aborted) return null;
+    console.error('OpenAI response streaming error:', error);
+    return generateContextualResponse(userMessage, context, intent);
+  }
+}
+
 // Analyze uploaded images for IP registration
 export async function analyzeImageForIP(imageBase64: string): Promise<AIImageDescription | null> {
-  const client = getOpenAIClient();
+  const llm = getLlm('vision');
   try {
-    if (!client) {
+    if (typeof window !== 'undefined') {
       const r = await fetch('/api/ai/analyze', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ imageBase64 }) });
       const j = await r.json();
       if (j?.ok && j?.data) return j.data as AIImageDescription;
       return null;
     }
-    const response = await client.chat.completions.create({
-      model: 'gpt-4-vision-preview',
+    if (!llm) return null;
+    const response = await llm.client.chat.completions.create({
+      model: llm.models.vision,
       messages: [
         {
           role: 'system',
@@ -205,13 +312,13 @@ export async function imageToBase64(file: File): Promise<string> {
 
 // Check if OpenAI is available
 export function isOpenAIAvailable(): boolean {
-  // Heuristic: if running on server and key exists, or on client assume server endpoint is available
-  if (typeof window === 'undefined') return !!process.env.OPENAI_API_KEY;
+  // Heuristic: if running on server and a provider is configured, or on client assume server endpoint is available
+  if (typeof window === 'undefined') return !!getLlm();
   return true;
 }
 
 // Get OpenAI status for debugging
 export function getOpenAIStatus(): { available: boolean; error?: string } {
-  const available = typeof window === 'undefined' ? !!process.env.OPENAI_API_KEY : true;
-  return available ? { available: true } : { available: false, error: 'API key not configured' };
+  const available = typeof window === 'undefined' ? !!getLlm() : true;
+  return available ? { available: true } : { available: false, error: 'LLM provider not configured' };
 }
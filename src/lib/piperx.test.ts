@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { applySlippage, guardQuote } from "@/lib/piperx";
+
+describe("guardQuote", () => {
+  it("quotes the sum of the route minimums when an uneven split rounds down", () => {
+    const amountOut = 1_000_000_000_000_000_003n;
+    const quote = guardQuote(
+      { amountOut: amountOut.toString(), universalRoutes: [{ amountIn: "1" }, { amountIn: "2" }] },
+      3n,
+      50,
+    );
+    const mins = quote.universalRoutes.map(r => BigInt(r.amountOutMinimum));
+
+    expect(mins).toEqual([331_666_666_666_666_667n, 663_333_333_333_333_334n]);
+    expect(quote.minAmountOutRaw).toBe(995_000_000_000_000_001n);
+    // one wei under the slippage-adjusted total, which the swap used to refuse
+    expect(applySlippage(amountOut, 50) - quote.minAmountOutRaw).toBe(1n);
+  });
+
+  it("refuses routes whose outputs fall short of the quoted total", () => {
+    const json = { amountOut: "1000", universalRoutes: [{ amountIn: "1", amountOut: "400" }, { amountIn: "1", amountOut: "400" }] };
+    expect(() => guardQuote(json, 2n, 50)).toThrow("Route outputs fall short");
+  });
+});
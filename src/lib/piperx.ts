@@ -1,17 +1,38 @@
 import { erc20Abi } from "@/lib/abi/erc20";
 import { aggregatorAbi } from "@/lib/abi/aggregator_abi";
-import { createPublicClient, http } from "viem";
-import { storyAeneid } from "@/lib/chains/story";
+import { getNetwork, networkPublicClient } from "@/lib/chains/networks";
 import { BrowserProvider, Contract } from "ethers";
+import { SwapIntent as SwapIntentSchema } from "@/lib/agent/schema";
+import { getTokenMeta } from "@/lib/tokenlist";
 
-const AGGREGATOR = (process.env.NEXT_PUBLIC_PIPERX_AGGREGATOR || "") as `0x${string}`;
-const API = process.env.NEXT_PUBLIC_PIPERX_AGGREGATOR_API || "";
-export const WIP = (process.env.NEXT_PUBLIC_PIPERX_WIP || "0x1514000000000000000000000000000000000000") as `0x${string}`;
+const { piperx } = getNetwork();
+export const AGGREGATOR = piperx.aggregator;
+const API = piperx.api;
+export const WIP = piperx.wip;
 
-const publicClient = createPublicClient({ chain: storyAeneid, transport: http(process.env.NEXT_PUBLIC_STORY_RPC) });
+// Swap guards (override per deployment)
+const DEFAULT_SLIPPAGE_BPS = Number.parseInt(process.env.NEXT_PUBLIC_SWAP_SLIPPAGE_BPS || '50', 10);
+export const MAX_PRICE_IMPACT_PCT = Number.parseFloat(process.env.NEXT_PUBLIC_SWAP_MAX_PRICE_IMPACT_PCT || '5');
+const QUOTE_TTL_MS = Number.parseInt(process.env.NEXT_PUBLIC_SWAP_QUOTE_TTL_MS || '30000', 10);
+
+export type GuardedQuote = {
+  universalRoutes: any[];     // routes with amountOutMinimum/deadline enforced
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+  minAmountOutRaw: bigint;    // sum of the route minimums, i.e. what the chain enforces
+  slippageBps: number;
+  priceImpactPct: number | null;
+  expiresAt: number;          // ms epoch
+};
+
+const publicClient = networkPublicClient();
 
 export async function getDecimals(token: `0x${string}`) {
-  return await publicClient.readContract({ address: token, abi: erc20Abi, functionName: "decimals" });
+  return (await getTokenMeta(token)).decimals;
+}
+
+export async function getAllowance(token: `0x${string}`, owner: `0x${string}`) {
+  return await publicClient.readContract({ address: token, abi: erc20Abi, functionName: "allowance", args: [owner, AGGREGATOR] });
 }
 
 // src/lib/piperx.ts
@@ -21,7 +42,7 @@ export async function getQuote({
   tokenIn: string; tokenOut: string; amountInRaw: string; slippagePct?: number;
 }) {
   const base = `${API}/api/swap/swapExactToken?tokenIn=${tokenIn}&tokenOut=${tokenOut}&amount=${amountInRaw}&type=exactInput&isAggregator=true`;
-  const url = base; // + (slippagePct != null ? `&slippage=${slippagePct}` : "");
+  const url = base + (slippagePct != null ? `&slippage=${slippagePct}` : "");
   const res = await fetch(url);
   if (!res.ok) throw new Error("Failed to fetch quote");
   return res.json();
@@ -36,10 +57,124 @@ export async function approveForAggregator(token: `0x${string}`, amount: bigint)
   return await tx.wait();
 }
 
-export async function swapViaAggregator(universalRoutes: any[]) {
+export async function swapViaAggregator(quote: GuardedQuote) {
+  assertQuoteSafe(quote);
+  let minTotal = 0n;
+  for (const r of quote.universalRoutes) {
+    const min = BigInt(r?.amountOutMinimum ?? 0);
+    if (min <= 0n) throw new Error("Route has no minimum amount out");
+    minTotal += min;
+  }
+  if (minTotal !== quote.minAmountOutRaw) throw new Error("Route minimums do not add up to the quoted minimum amount out");
+
   const provider = new BrowserProvider((window as any).ethereum);
   const signer = await provider.getSigner();
   const contract = new Contract(AGGREGATOR, aggregatorAbi as any, signer);
-  const tx = await contract.executeMultiPath(universalRoutes);
+  const tx = await contract.executeMultiPath(quote.universalRoutes);
   return await tx.wait();
-}
\ No newline at end of file
+}
+
+/**
+ * Slippage in basis points. `slippageBps` (zod intent) wins over `slippagePct`
+ * (engine intent); both fall back to NEXT_PUBLIC_SWAP_SLIPPAGE_BPS.
+ */
+export function resolveSlippageBps({ slippagePct, slippageBps }: { slippagePct?: number; slippageBps?: number }): number {
+  const bps = slippageBps ?? (slippagePct != null ? Math.round(slippagePct * 100) : DEFAULT_SLIPPAGE_BPS);
+  const parsed = SwapIntentSchema.shape.slippageBps.safeParse(bps);
+  if (!parsed.success || parsed.data == null) throw new Error("Slippage must be between 0.01% and 50%");
+  return parsed.data;
+}
+
+export function applySlippage(amount: bigint, bps: number): bigint {
+  return (amount * BigInt(10_000 - bps)) / 10_000n;
+}
+
+/**
+ * Attach min amount out, price impact and expiry to a raw quote response.
+ * Each route gets its own amountOutMinimum (never lowered below what the API sent)
+ * and an on-chain deadline equal to the quote expiry. Per-route rounding can leave the
+ * sum a few wei under the slippage-adjusted total, so the quoted minimum is that sum.
+ */
+export function guardQuote(json: any, amountInRaw: bigint, slippageBps: number, now = Date.now()): GuardedQuote {
+  const { universalRoutes, amountOutRaw } = readQuote(json);
+  if (amountOutRaw <= 0n) throw new Error("Quote returned no output");
+
+  const body = json?.data ?? json ?? {};
+  const impact = Number(body.priceImpact ?? body.priceImpactPct);
+  const expiresAt = now + QUOTE_TTL_MS;
+  const deadline = BigInt(Math.floor(expiresAt / 1000)).toString();
+
+  let totalIn = 0n;
+  for (const r of universalRoutes) totalIn += BigInt(r?.amountIn ?? 0);
+
+  let minAmountOutRaw = 0n;
+  const guardedRoutes = universalRoutes.map((r) => {
+    // expected out per route; split the total by amountIn when the API only gives a total
+    const expected = r?.amountOut != null
+      ? BigInt(r.amountOut)
+      : totalIn > 0n ? (amountOutRaw * BigInt(r?.amountIn ?? 0)) / totalIn : amountOutRaw;
+    const min = applySlippage(expected, slippageBps);
+    const current = BigInt(r?.amountOutMinimum ?? 0);
+    const guarded = current > min ? current : min;
+    minAmountOutRaw += guarded;
+    return { ...r, amountOutMinimum: guarded.toString(), deadline };
+  });
+  // the split and the slippage each round down by under 1 wei per route; anything more is a short route
+  const shortfall = applySlippage(amountOutRaw, slippageBps) - minAmountOutRaw;
+  if (shortfall >= 2n * BigInt(guardedRoutes.length)) throw new Error("Route outputs fall short of the quoted amount out");
+
+  return {
+    universalRoutes: guardedRoutes,
+    amountInRaw,
+    amountOutRaw,
+    minAmountOutRaw,
+    slippageBps,
+    priceImpactPct: Number.isFinite(impact) ? Math.abs(impact) : null,
+    expiresAt,
+  };
+}
+
+// Reference trade for impactFromReference: 1/1000 of the input, small enough to sit at spot
+export function referenceAmount(amountInRaw: bigint): bigint {
+  const ref = amountInRaw / 1000n;
+  return ref > 0n ? ref : 1n;
+}
+
+/**
+ * Price impact in percent when the API does not report one: how much worse the quoted rate is
+ * than the rate of a tiny reference quote for the same pair.
+ */
+export function impactFromReference(amountInRaw: bigint, amountOutRaw: bigint, refInRaw: bigint, refOutRaw: bigint): number | null {
+  if (amountInRaw <= 0n || refInRaw <= 0n || refOutRaw <= 0n) return null;
+  // (out/in) / (refOut/refIn) in parts per million
+  const ratioPpm = (amountOutRaw * refInRaw * 1_000_000n) / (amountInRaw * refOutRaw);
+  return Math.max(0, Number(1_000_000n - ratioPpm) / 10_000);
+}
+
+export function assertQuoteSafe(quote: GuardedQuote, now = Date.now()) {
+  if (now > quote.expiresAt) throw new Error("Quote expired, fetch a new one");
+  // the max-impact guard is never skipped: no impact means no swap
+  if (quote.priceImpactPct == null) throw new Error("Price impact could not be determined for this pair");
+  if (quote.priceImpactPct > MAX_PRICE_IMPACT_PCT) {
+    throw new Error(`Price impact ${quote.priceImpactPct.toFixed(2)}% is above the ${MAX_PRICE_IMPACT_PCT}% limit`);
+  }
+  if (quote.minAmountOutRaw <= 0n) throw new Error("Minimum amount out is zero");
+}
+
+/**
+ * Pull the executable routes and expected output out of a quote response.
+ * The API has returned both `{ universalRoutes, amountOut }` and a `data` wrapper.
+ */
+export function readQuote(json: any): { universalRoutes: any[]; amountOutRaw: bigint } {
+  const body = json?.data ?? json ?? {};
+  const universalRoutes: any[] = body.universalRoutes ?? body.routes ?? [];
+  if (!Array.isArray(universalRoutes) || universalRoutes.length === 0) throw new Error("No route found for this pair");
+
+  let amountOutRaw = 0n;
+  if (body.amountOut != null) {
+    amountOutRaw = BigInt(body.amountOut);
+  } else {
+    for (const r of universalRoutes) amountOutRaw += BigInt(r?.amountOut ?? r?.amountOutMinimum ?? 0);
+  }
+  return { universalRoutes, amountOutRaw };
+}
@@ -0,0 +1,325 @@
+// C2PA-style provenance manifest carried inside the registered image file.
+//
+// compressImage re-encodes uploads to WebP and drops whatever provenance they had, so we write
+// our own manifest into the registered rendition: creator wallets, the ipId the mint registers,
+// license summary, AI-generated flag and an AI-training opt-out, signed by the server
+// (/api/provenance/sign). The manifest is embedded before the upload, so the file the IP metadata
+// points at is the one carrying it; the certificate later checks the claim against the chain.
+// Like C2PA's hard binding, the content hash excludes the manifest itself: stripping it gives
+// back the exact bytes whose SHA-256 is on chain as mediaHash.
+//
+// Containers: a "SLPV" RIFF chunk (WebP), a private "slPv" chunk before IEND (PNG) and an APP11
+// segment (JPEG). The payload is canonical JSON, not JUMBF/CBOR, so C2PA tools will not read it.
+import { recoverMessageAddress } from "viem";
+import { canonicalJson, sha256HexOfBytes } from "@/lib/utils/crypto";
+
+export const PROVENANCE_FORMAT = "superlee.provenance";
+
+// IPTC digital source type for generative output, as used by C2PA actions
+const TRAINED_ALGORITHMIC_MEDIA = "http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia";
+
+export type ProvenanceAssertion =
+  | { label: "stds.schema-org.CreativeWork"; data: { name: string; author: { name: string; identifier: string }[] } }
+  | { label: "story.ip"; data: { ipId: `0x${string}`; chainId: number; tokenContract: `0x${string}`; tokenId: string } }
+  | { label: "story.license"; data: { licenses: { licenseTermsId?: string; title: string; terms: string[] }[] } }
+  | { label: "c2pa.actions"; data: { actions: { action: "c2pa.created"; digitalSourceType?: string }[]; aiGenerated: boolean; confidence?: number } }
+  | { label: "c2pa.training-mining"; data: { entries: Record<string, { use: "allowed" | "notAllowed" }> } };
+
+export type ProvenanceClaim = {
+  format: typeof PROVENANCE_FORMAT;
+  version: 1;
+  claimGenerator: string;
+  createdAt: string;
+  mimeType: string;
+  // SHA-256 of the file with the manifest removed (= the registered mediaHash)
+  hardBinding: { alg: "sha256"; hash: `0x${string}` };
+  assertions: ProvenanceAssertion[];
+};
+
+export type ProvenanceManifest = {
+  claim: ProvenanceClaim;
+  // EIP-191 personal_sign over canonicalJson(claim)
+  signature: { alg: "eip191-secp256k1"; signer: `0x${string}`; value: `0x${string}` };
+};
+
+export type ProvenanceReport = {
+  manifest: ProvenanceManifest;
+  contentHash: `0x${string}`;
+  bindingOk: boolean;
+  signatureOk: boolean;
+  // signed by this app's key (as opposed to any key that produced a valid signature)
+  trusted: boolean;
+};
+
+export class ProvenanceFormatError extends Error {
+  constructor(public mimeType: string) {
+    super(`Provenance manifests cannot be embedded in ${mimeType || "this file type"}`);
+    this.name = "ProvenanceFormatError";
+  }
+}
+
+type AssertionData = { [A in ProvenanceAssertion as A["label"]]: A["data"] };
+
+export function assertionOf<L extends keyof AssertionData>(claim: ProvenanceClaim, label: L): AssertionData[L] | undefined {
+  return claim.assertions.find(a => a.label === label)?.data as AssertionData[L] | undefined;
+}
+
+// What a claim states about the work. It is signed before the mint, so `ip` names the token the
+// mint is about to create (see nextMintIpId); verifyProofBundle checks it all against the chain.
+export type ProvenanceSubject = {
+  title: string;
+  creators: { name: string; address: string }[];
+  licenses: { licenseTermsId?: string; title: string; terms: string[] }[];
+  ai?: { aiGenerated: boolean; confidence?: number };
+  ip?: { ipId: `0x${string}`; chainId: number; tokenContract: `0x${string}`; tokenId: string };
+};
+
+export function provenanceClaim(
+  subject: ProvenanceSubject,
+  opts: { mimeType: string; contentHash: `0x${string}` },
+): ProvenanceClaim {
+  const { ai, ip } = subject;
+  return {
+    format: PROVENANCE_FORMAT,
+    version: 1,
+    claimGenerator: "SuperLee",
+    createdAt: new Date().toISOString(),
+    mimeType: opts.mimeType,
+    hardBinding: { alg: "sha256", hash: opts.contentHash },
+    assertions: [
+      {
+        label: "stds.schema-org.CreativeWork",
+        data: {
+          name: subject.title,
+          author: subject.creators.map(c => ({ name: c.name, identifier: c.address })),
+        },
+      },
+      ...(ip ? [{ label: "story.ip" as const, data: ip }] : []),
+      { label: "story.license", data: { licenses: subject.licenses } },
+      ...(ai ? [{
+        label: "c2pa.actions" as const,
+        data: {
+          actions: [{ action: "c2pa.created" as const, ...(ai.aiGenerated ? { digitalSourceType: TRAINED_ALGORITHMIC_MEDIA } : {}) }],
+          aiGenerated: ai.aiGenerated,
+          confidence: ai.confidence,
+        },
+      }] : []),
+      {
+        label: "c2pa.training-mining",
+        data: {
+          entries: {
+            "c2pa.ai_training": { use: "notAllowed" },
+            "c2pa.ai_generative_training": { use: "notAllowed" },
+            "c2pa.data_mining": { use: "notAllowed" },
+            "c2pa.ai_inference": { use: "allowed" },
+          },
+        },
+      },
+    ],
+  };
+}
+
+// ---- containers ----
+
+const WEBP_CHUNK = "SLPV";
+const PNG_CHUNK = "slPv"; // ancillary, private, safe-to-copy
+const JPEG_APP11 = 0xeb;
+const JPEG_ID = "SLPROV\0";
+
+const ascii = (bytes: Uint8Array, at: number, len: number) => String.fromCharCode(...Array.from(bytes.subarray(at, at + len)));
+const u32be = (b: Uint8Array, at: number) => ((b[at] << 24) | (b[at + 1] << 16) | (b[at + 2] << 8) | b[at + 3]) >>> 0;
+const u32le = (b: Uint8Array, at: number) => (b[at] | (b[at + 1] << 8) | (b[at + 2] << 16) | (b[at + 3] << 24)) >>> 0;
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) { out.set(p, at); at += p.length; }
+  return out;
+}
+
+let crcTable: Uint32Array | null = null;
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let c = 0xffffffff;
+  for (const b of bytes) c = crcTable[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+type Container = "webp" | "png" | "jpeg";
+
+function containerOf(bytes: Uint8Array): Container | null {
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "webp";
+  if (bytes.length >= 8 && bytes[0] === 0x89 && ascii(bytes, 1, 3) === "PNG") return "png";
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg";
+  return null;
+}
+
+export function supportsProvenance(mimeType: string): boolean {
+  return ["image/webp", "image/png", "image/jpeg"].includes(mimeType.toLowerCase());
+}
+
+// Byte range of our manifest inside the file, if any
+function locate(bytes: Uint8Array): { kind: Container; start: number; end: number; payload: Uint8Array } | null {
+  const kind = containerOf(bytes);
+  if (kind === "webp") {
+    for (let at = 12; at + 8 <= bytes.length;) {
+      const size = u32le(bytes, at + 4);
+      const end = Math.min(bytes.length, at + 8 + size + (size & 1));
+      if (ascii(bytes, at, 4) === WEBP_CHUNK) return { kind, start: at, end, payload: bytes.subarray(at + 8, at + 8 + size) };
+      at = end;
+    }
+  } else if (kind === "png") {
+    for (let at = 8; at + 12 <= bytes.length;) {
+      const len = u32be(bytes, at);
+      const end = at + 12 + len;
+      if (ascii(bytes, at + 4, 4) === PNG_CHUNK) return { kind, start: at, end, payload: bytes.subarray(at + 8, at + 8 + len) };
+      at = end;
+    }
+  } else if (kind === "jpeg") {
+    // header segments only; our APP11 sits before the first scan
+    for (let at = 2; at + 4 <= bytes.length && bytes[at] === 0xff;) {
+      const marker = bytes[at + 1];
+      if (marker === 0xda || marker === 0xd9) break;
+      const end = at + 2 + ((bytes[at + 2] << 8) | bytes[at + 3]);
+      if (marker === JPEG_APP11 && ascii(bytes, at + 4, JPEG_ID.length) === JPEG_ID) {
+        return { kind, start: at, end, payload: bytes.subarray(at + 4 + JPEG_ID.length, end) };
+      }
+      at = end;
+    }
+  }
+  return null;
+}
+
+/** The file without our manifest (any earlier one is replaced, not stacked). */
+export function stripProvenance(bytes: Uint8Array): Uint8Array {
+  const found = locate(bytes);
+  if (!found) return bytes;
+  const out = concat(bytes.subarray(0, found.start), bytes.subarray(found.end));
+  if (found.kind === "webp") new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+}
+
+export function embedProvenance(bytes: Uint8Array, manifest: ProvenanceManifest): Uint8Array {
+  const base = stripProvenance(bytes);
+  const payload = new TextEncoder().encode(canonicalJson(manifest));
+  const kind = containerOf(base);
+
+  if (kind === "webp") {
+    const header = new Uint8Array(8);
+    header.set(new TextEncoder().encode(WEBP_CHUNK));
+    new DataView(header.buffer).setUint32(4, payload.length, true);
+    const out = concat(base, header, payload, new Uint8Array(payload.length & 1));
+    new DataView(out.buffer).setUint32(4, out.length - 8, true);
+    return out;
+  }
+  if (kind === "png") {
+    const body = concat(new TextEncoder().encode(PNG_CHUNK), payload);
+    const chunk = new Uint8Array(12 + payload.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, payload.length);
+    chunk.set(body, 4);
+    view.setUint32(8 + payload.length, crc32(body));
+    // ancillary chunks may go anywhere after IHDR; just before IEND keeps the original layout intact
+    let iend = 8;
+    while (iend + 12 <= base.length && ascii(base, iend + 4, 4) !== "IEND") iend += 12 + u32be(base, iend);
+    if (iend + 12 > base.length) throw new Error("PNG has no IEND chunk");
+    return concat(base.subarray(0, iend), chunk, base.subarray(iend));
+  }
+  if (kind === "jpeg") {
+    const body = concat(new TextEncoder().encode(JPEG_ID), payload);
+    if (body.length + 2 > 0xffff) throw new Error("Provenance manifest is too large for a JPEG APP11 segment");
+    const segment = concat(new Uint8Array([0xff, JPEG_APP11, (body.length + 2) >> 8, (body.length + 2) & 0xff]), body);
+    // after SOI and any APP0/APP1 (JFIF/Exif expect to come first)
+    let at = 2;
+    while (at + 4 <= base.length && base[at] === 0xff && (base[at + 1] === 0xe0 || base[at + 1] === 0xe1)) {
+      at += 2 + ((base[at + 2] << 8) | base[at + 3]);
+    }
+    return concat(base.subarray(0, at), segment, base.subarray(at));
+  }
+  throw new ProvenanceFormatError("");
+}
+
+let appSigner: Promise<`0x${string}` | null> | null = null;
+function provenanceSigner(): Promise<`0x${string}` | null> {
+  if (!appSigner) {
+    appSigner = fetch("/api/provenance/sign")
+      .then(r => (r.ok ? r.json() : null))
+      .then(j => j?.signer ?? null)
+      .catch(() => null);
+  }
+  return appSigner;
+}
+
+/**
+ * Parse and check the manifest in any file. Returns null when the file carries none (or an
+ * unreadable one); otherwise reports whether the content and signature still match.
+ */
+export async function readProvenance(file: Blob): Promise<ProvenanceReport | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const found = locate(bytes);
+  if (!found) return null;
+
+  let manifest: ProvenanceManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(found.payload));
+  } catch {
+    return null;
+  }
+  if (manifest?.claim?.format !== PROVENANCE_FORMAT || !manifest.signature?.value) return null;
+
+  const contentHash = await sha256HexOfBytes(stripProvenance(bytes));
+  let signatureOk = false;
+  try {
+    const recovered = await recoverMessageAddress({ message: canonicalJson(manifest.claim), signature: manifest.signature.value });
+    signatureOk = recovered.toLowerCase() === manifest.signature.signer.toLowerCase();
+  } catch {}
+  const signer = await provenanceSigner();
+
+  return {
+    manifest,
+    contentHash,
+    bindingOk: contentHash.toLowerCase() === manifest.claim.hardBinding.hash.toLowerCase(),
+    signatureOk,
+    trusted: signatureOk && !!signer && signer.toLowerCase() === manifest.signature.signer.toLowerCase(),
+  };
+}
+
+/**
+ * Before the upload: have the server sign the claim for the next mint into `spgNftContract` and
+ * check it is about these bytes and that token. Null when the server has no signing key.
+ */
+export async function requestProvenanceManifest(req: {
+  chainId: number;
+  spgNftContract: `0x${string}`;
+  // the ipId the client predicted for the same mint
+  ipId: `0x${string}`;
+  mimeType: string;
+  contentHash: `0x${string}`;
+  subject: Omit<ProvenanceSubject, "ip">;
+}): Promise<ProvenanceManifest | null> {
+  if (!supportsProvenance(req.mimeType)) throw new ProvenanceFormatError(req.mimeType);
+  const signed = await fetch("/api/provenance/sign", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ chainId: req.chainId, spgNftContract: req.spgNftContract, mimeType: req.mimeType, contentHash: req.contentHash, subject: req.subject }),
+  });
+  if (signed.status === 503) return null;
+  const j = await signed.json().catch(() => ({}));
+  if (!signed.ok) throw new Error(j?.error || `Signing failed (${signed.status})`);
+  const manifest = j.manifest as ProvenanceManifest;
+  if (manifest?.claim?.hardBinding?.hash?.toLowerCase() !== req.contentHash.toLowerCase() || manifest.claim.mimeType !== req.mimeType) {
+    throw new Error("The signed claim is about a different file");
+  }
+  // another mint may have moved the collection on between our read and the server's
+  if (assertionOf(manifest.claim, "story.ip")?.ipId?.toLowerCase() !== req.ipId.toLowerCase()) {
+    throw new Error("The signed claim names a different ipId; try again");
+  }
+  return manifest;
+}
@@ -4,10 +4,10 @@ import { useMemo } from "react";
 import { useWalletClient } from "wagmi";
 import { custom } from "viem";
 import { StoryClient, type StoryConfig } from "@story-protocol/core-sdk";
+import { getNetwork } from "@/lib/chains/networks";
 
 /**
- * Story SDK terikat ke chain Aeneid (testnet).
- * Saat production, ganti chainId ke "mainnet" + RPC yang sesuai.
+ * Story SDK terikat ke network aktif (Aeneid atau mainnet, lihat lib/chains/networks).
  */
 export function useStoryClient() {
   const { data: wallet } = useWalletClient();
@@ -19,7 +19,7 @@ export function useStoryClient() {
       // penting: pakai account + transport dari wagmi
       account: wallet.account,
       transport: custom(wallet.transport),
-      chainId: "aeneid", // "mainnet" saat rilis
+      chainId: getNetwork().sdkChainId,
     } as any;
 
     return StoryClient.newClient(cfg);
@@ -0,0 +1,171 @@
+// Chain-scoped token list (Uniswap token list format) shared by the agent and swap UI
+import { createPublicClient, http } from "viem";
+import { erc20Abi } from "@/lib/abi/erc20";
+import { NETWORKS, getNetwork, networkByChainId } from "@/lib/chains/networks";
+import bundledList from "@/lib/tokenlists/story.tokenlist.json";
+
+export type TokenInfo = {
+  chainId: number;
+  address: `0x${string}`;
+  symbol: string;
+  name?: string;
+  decimals?: number;
+  logoURI?: string;
+  aliases?: string[]; // lowercase
+};
+
+// https://github.com/Uniswap/token-lists (aliases live under `extensions`)
+export type TokenListJson = {
+  name: string;
+  tokens: {
+    chainId: number;
+    address: string;
+    symbol: string;
+    name?: string;
+    decimals?: number;
+    logoURI?: string;
+    extensions?: { aliases?: string[] };
+  }[];
+};
+
+export const DEFAULT_CHAIN_ID = getNetwork().chain.id;
+// may contain `{chainId}`, e.g. https://example.com/tokens/{chainId}.json
+const LIST_URL = process.env.NEXT_PUBLIC_TOKEN_LIST_URL || "";
+
+const clients = new Map<number, any>();
+
+// chainId -> lowercase address -> token
+const registry = new Map<number, Map<string, TokenInfo>>();
+const remoteLoads = new Map<number, Promise<void>>();
+const metaLoads = new Map<string, Promise<TokenInfo>>();
+
+const isAddr = (s: string): s is `0x${string}` => /^0x[a-fA-F0-9]{40}$/.test(s);
+
+function tokensOf(chainId: number) {
+  let m = registry.get(chainId);
+  if (!m) { m = new Map(); registry.set(chainId, m); }
+  return m;
+}
+
+function clientFor(chainId: number) {
+  let c = clients.get(chainId);
+  if (!c) {
+    const network = networkByChainId(chainId);
+    if (!network) throw new Error(`Unsupported chain ${chainId}`);
+    c = createPublicClient({ chain: network.chain, transport: http(network.rpcUrl) });
+    clients.set(chainId, c);
+  }
+  return c;
+}
+
+/**
+ * Merge a token into the registry. Later entries override earlier ones field by field,
+ * aliases are unioned.
+ */
+export function addToken(token: TokenInfo) {
+  const m = tokensOf(token.chainId);
+  const key = token.address.toLowerCase();
+  const prev = m.get(key);
+  const aliases = Array.from(new Set([...(prev?.aliases || []), ...(token.aliases || [])].map(a => a.toLowerCase())));
+  m.set(key, { ...prev, ...token, address: token.address, aliases });
+}
+
+export function addTokenList(list: TokenListJson) {
+  for (const t of list.tokens || []) {
+    if (!isAddr(t.address)) continue;
+    addToken({
+      chainId: t.chainId,
+      address: t.address,
+      symbol: t.symbol,
+      name: t.name,
+      decimals: t.decimals,
+      logoURI: t.logoURI,
+      aliases: t.extensions?.aliases,
+    });
+  }
+}
+
+// Bundled list first, then WIP of every network and legacy env overrides for the default chain
+addTokenList(bundledList as TokenListJson);
+for (const network of Object.values(NETWORKS)) {
+  addToken({ chainId: network.chain.id, address: network.piperx.wip, symbol: "WIP", aliases: ["ip", "native", "wrap ip", "wrapped ip", "wip"] });
+}
+const ENV_TOKENS: [string | undefined, string, string[]][] = [
+  [process.env.NEXT_PUBLIC_TOKEN_USDC, "USDC", ["usdc", "usd c", "stable", "dollar"]],
+  [process.env.NEXT_PUBLIC_TOKEN_WETH, "WETH", ["eth", "weth", "wrapped eth"]],
+];
+for (const [address, symbol, aliases] of ENV_TOKENS) {
+  if (address && isAddr(address)) addToken({ chainId: DEFAULT_CHAIN_ID, address, symbol, aliases });
+}
+
+export function getTokens(chainId = DEFAULT_CHAIN_ID): TokenInfo[] {
+  return Array.from(tokensOf(chainId).values());
+}
+
+/**
+ * Resolve a symbol, alias or address against the list for a chain.
+ * Unknown addresses are returned as a bare entry so callers can still use them.
+ */
+export function findToken(input: string, chainId = DEFAULT_CHAIN_ID): TokenInfo | null {
+  const s = input.trim().toLowerCase();
+  const m = tokensOf(chainId);
+  if (isAddr(s)) return m.get(s) || { chainId, address: s as `0x${string}`, symbol: s };
+
+  for (const t of m.values()) {
+    if (t.symbol.toLowerCase() === s) return t;
+    if (t.aliases?.some(a => a === s)) return t;
+  }
+  return null;
+}
+
+/**
+ * Fetch the remote list for a chain once (NEXT_PUBLIC_TOKEN_LIST_URL).
+ * Failures keep the bundled list.
+ */
+export function loadTokenList(chainId = DEFAULT_CHAIN_ID): Promise<void> {
+  if (!LIST_URL) return Promise.resolve();
+  let p = remoteLoads.get(chainId);
+  if (!p) {
+    p = (async () => {
+      try {
+        const res = await fetch(LIST_URL.replace("{chainId}", String(chainId)));
+        if (!res.ok) return;
+        const json = (await res.json()) as TokenListJson;
+        addTokenList({ ...json, tokens: (json.tokens || []).filter(t => t.chainId === chainId) });
+      } catch (e) {
+        console.warn("Token list load failed:", e);
+      }
+    })();
+    remoteLoads.set(chainId, p);
+  }
+  return p;
+}
+
+/**
+ * Decimals and symbol for a token. Uses the list when it has both,
+ * otherwise reads them on-chain and caches the result in the registry.
+ */
+export function getTokenMeta(address: `0x${string}`, chainId = DEFAULT_CHAIN_ID): Promise<TokenInfo & { decimals: number }> {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  const known = tokensOf(chainId).get(address.toLowerCase());
+  if (known?.decimals != null && known.symbol && !isAddr(known.symbol)) {
+    return Promise.resolve(known as TokenInfo & { decimals: number });
+  }
+
+  let p = metaLoads.get(key);
+  if (!p) {
+    p = (async () => {
+      const pc = clientFor(chainId);
+      const [decimals, symbol] = await Promise.all([
+        pc.readContract({ address, abi: erc20Abi, functionName: "decimals" }) as Promise<number>,
+        (pc.readContract({ address, abi: erc20Abi, functionName: "symbol" }) as Promise<string>).catch(() => known?.symbol || address),
+      ]);
+      addToken({ chainId, address, symbol: known?.symbol && !isAddr(known.symbol) ? known.symbol : symbol, decimals: Number(decimals) });
+      return tokensOf(chainId).get(address.toLowerCase())!;
+    })();
+    // drop failed lookups so they can be retried
+    p.catch(() => metaLoads.delete(key));
+    metaLoads.set(key, p);
+  }
+  return p as Promise<TokenInfo & { decimals: number }>;
+}
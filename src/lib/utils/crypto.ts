@@ -8,10 +8,36 @@ export function bytesKeccak(data: Uint8Array): `0x${string}` {
 }
 
 /**
- * Hash JSON object using Keccak256
+ * Serialize JSON canonically (RFC 8785 style): object keys sorted by UTF-16 code units,
+ * no whitespace, ES number formatting. `undefined` members are dropped like JSON.stringify does.
+ * Used for both hashing and upload so the on-chain hash always matches the pinned bytes.
+ */
+export function canonicalJson(value: any): string {
+  if (value && typeof value.toJSON === "function") value = value.toJSON();
+  if (value === null || typeof value === "boolean" || typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Cannot serialize ${value} as canonical JSON`);
+    return JSON.stringify(value);
+  }
+  if (typeof value === "bigint") throw new Error("Cannot serialize a bigint as canonical JSON; convert it to a string first");
+  if (Array.isArray(value)) {
+    return `[${value.map(v => (v === undefined || typeof v === "function" ? "null" : canonicalJson(v))).join(",")}]`;
+  }
+  if (typeof value === "object") {
+    const members = Object.keys(value)
+      .sort()
+      .filter(k => value[k] !== undefined && typeof value[k] !== "function")
+      .map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`);
+    return `{${members.join(",")}}`;
+  }
+  throw new Error(`Cannot serialize ${typeof value} as canonical JSON`);
+}
+
+/**
+ * Hash JSON object using Keccak256 over its canonical serialization
  */
 export async function keccakOfJson(obj: any): Promise<`0x${string}`> {
-  return bytesKeccak(new TextEncoder().encode(JSON.stringify(obj)));
+  return bytesKeccak(new TextEncoder().encode(canonicalJson(obj)));
 }
 
 /**
@@ -22,3 +48,11 @@ export async function sha256HexOfFile(file: File): Promise<`0x${string}`> {
   const hash = await crypto.subtle.digest("SHA-256", buf);
   return toHex(new Uint8Array(hash), { size: 32 });
 }
+
+/**
+ * Calculate SHA-256 hash of raw bytes (fetched media, files with an embedded manifest)
+ */
+export async function sha256HexOfBytes(bytes: Uint8Array): Promise<`0x${string}`> {
+  const hash = await crypto.subtle.digest("SHA-256", bytes.slice().buffer);
+  return toHex(new Uint8Array(hash), { size: 32 });
+}
@@ -1,3 +1,16 @@
+import { bytesKeccak, canonicalJson } from "./crypto";
+
+/**
+ * The upload route hashed different bytes than the client did, so the on-chain
+ * metadata hash would not match the pinned JSON.
+ */
+export class MetadataHashMismatchError extends Error {
+  constructor(public expected: `0x${string}`, public received?: string) {
+    super(`Uploaded JSON hash ${received || "(missing)"} does not match the local hash ${expected}`);
+    this.name = "MetadataHashMismatchError";
+  }
+}
+
 /**
  * Extract CID from various IPFS URL formats
  */
@@ -57,12 +70,17 @@ export async function uploadFile(file: File) {
 }
 
 /**
- * Upload JSON to IPFS via API route
+ * Upload JSON to IPFS via API route. The body is the canonical serialization and the
+ * route's keccak of the bytes it pinned must equal ours, otherwise this throws.
  */
 export async function uploadJSON(obj: any) {
-  return await fetchJSON("/api/ipfs/json", {
+  const body = canonicalJson(obj);
+  const keccak = bytesKeccak(new TextEncoder().encode(body));
+  const res = await fetchJSON("/api/ipfs/json", {
     method: "POST",
     headers: { "content-type": "application/json" },
-    body: JSON.stringify(obj),
+    body,
   });
+  if (res?.keccak?.toLowerCase() !== keccak) throw new MetadataHashMismatchError(keccak, res?.keccak);
+  return { ...res, keccak };
 }
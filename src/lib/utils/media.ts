@@ -0,0 +1,341 @@
+import { compressImage } from "./image";
+import { sha256HexOfFile } from "./crypto";
+
+/**
+ * Media kinds the registration pipeline understands. Everything that isn't an image gets a
+ * generated cover (waveform, video frame or text card) for the metadata `image` field, while
+ * `mediaUrl`/`mediaHash` always point at the original bytes.
+ */
+export type MediaKind = "image" | "audio" | "video" | "document" | "text";
+
+// Browsers leave File.type empty for some extensions (.md, .flac on some platforms)
+const EXTENSION_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+};
+
+// `accept` for file inputs
+export const MEDIA_ACCEPT = "image/*,audio/*,video/*,application/pdf,text/plain,text/markdown,.md,.txt";
+
+export const MAX_MEDIA_BYTES = Number.parseInt(process.env.NEXT_PUBLIC_MAX_MEDIA_MB || "50", 10) * 1024 * 1024;
+
+export function mediaTypeOf(file: File): string {
+  if (file.type) return file.type;
+  const ext = file.name.split(".").pop()?.toLowerCase() || "";
+  return EXTENSION_TYPES[ext] || "application/octet-stream";
+}
+
+export function mediaKindOf(file: File): MediaKind | null {
+  const type = mediaTypeOf(file);
+  if (type.startsWith("image/")) return "image";
+  if (type.startsWith("audio/")) return "audio";
+  if (type.startsWith("video/")) return "video";
+  if (type === "application/pdf") return "document";
+  if (type === "text/plain" || type === "text/markdown") return "text";
+  return null;
+}
+
+export function isSupportedMedia(file: File): boolean {
+  return mediaKindOf(file) !== null;
+}
+
+/**
+ * The file that is registered as the work: images are compressed first (as before),
+ * every other kind keeps its original bytes.
+ */
+export async function registeredMediaFile(file: File): Promise<File> {
+  return mediaKindOf(file) === "image" ? compressImage(file) : file;
+}
+
+/** sha256 of the registered bytes; what duplicate checks compare against `mediaHash`. */
+export async function mediaHashOf(file: File): Promise<`0x${string}`> {
+  return sha256HexOfFile(await registeredMediaFile(file));
+}
+
+/** ===== Text ===== */
+
+/**
+ * Plain text of a text or PDF file (trimmed to `maxChars`); "" for other kinds and for PDFs
+ * whose text can't be read. Callers must not treat "" from a document as "no duplicates".
+ */
+export async function extractText(file: File, maxChars = 20_000): Promise<string> {
+  const kind = mediaKindOf(file);
+  let text = "";
+  if (kind === "text") text = await file.text();
+  else if (kind === "document") text = await extractPdfText(file);
+  return text.replace(/\r\n?/g, "\n").replace(/[ \t]+/g, " ").trim().slice(0, maxChars);
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+function unescapePdfString(s: string): string {
+  return s.replace(/\\(\d{1,3}|.)/g, (_, c: string) => {
+    if (/^\d+$/.test(c)) return String.fromCharCode(parseInt(c, 8));
+    return ({ n: "\n", r: "", t: " ", b: "", f: "" } as Record<string, string>)[c] ?? c;
+  });
+}
+
+// Share of letters, digits, whitespace and punctuation; glyph ids decoded as bytes score low
+function readableRatio(text: string): number {
+  if (!text) return 0;
+  const readable = text.match(/[\p{L}\p{N}\p{P}\s]/gu)?.length ?? 0;
+  return readable / text.length;
+}
+
+function hexPdfString(hex: string): string {
+  const digits = hex.replace(/\s+/g, "");
+  let s = "";
+  for (let i = 0; i < digits.length; i += 2) s += String.fromCharCode(parseInt(digits.slice(i, i + 2).padEnd(2, "0"), 16));
+  return s;
+}
+
+/**
+ * Best-effort PDF text: inflates the content streams and collects Tj/TJ string operands
+ * (literal and hex). Text drawn with custom-encoded fonts decodes to glyph ids, so a result
+ * that doesn't read as text is dropped and "" is returned.
+ */
+async function extractPdfText(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // latin1 keeps one char per byte, so string offsets are byte offsets
+  const raw = new TextDecoder("latin1").decode(bytes);
+  const out: string[] = [];
+
+  let pos = 0;
+  while ((pos = raw.indexOf("stream", pos)) !== -1) {
+    const start = raw[pos + 6] === "\r" ? pos + 8 : pos + 7;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) break;
+    // stream dictionary: from the object header to the `stream` keyword
+    const dict = raw.slice(Math.max(0, raw.lastIndexOf("obj", pos)), pos);
+    const body = bytes.subarray(start, end);
+    const decoded = /FlateDecode/.test(dict) ? await inflate(body) : body;
+    pos = end + 9;
+    if (!decoded) continue;
+
+    const content = new TextDecoder("latin1").decode(decoded);
+    if (!/\bBT\b/.test(content)) continue;
+    for (const block of content.match(/BT[\s\S]*?ET/g) || []) {
+      const strings = block.match(/\((?:\\.|[^\\)])*\)|<[0-9A-Fa-f\s]+>/g) || [];
+      out.push(strings.map(s => s.startsWith("<") ? hexPdfString(s.slice(1, -1)) : unescapePdfString(s.slice(1, -1))).join(""));
+    }
+  }
+  const text = out.join("\n");
+  return readableRatio(text) >= 0.9 ? text : "";
+}
+
+// FNV-1a with a seed, one hash function per signature slot
+function hash32(input: string, seed: number): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * MinHash signature over 3-word shingles. Stored in the IP metadata of text works so
+ * near-duplicates (reformatted or lightly edited copies) can be found, not only exact bytes.
+ */
+export function textSignature(text: string, size = 64): number[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const shingles = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) shingles.add(words.slice(i, i + 3).join(" "));
+  if (shingles.size === 0 && words.length) shingles.add(words.join(" "));
+  if (shingles.size === 0) return [];
+
+  const signature = new Array<number>(size).fill(0xffffffff);
+  for (const s of shingles) {
+    for (let i = 0; i < size; i++) {
+      const h = hash32(s, i);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+/** Estimated Jaccard similarity (0..1) of two signatures. */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (!a.length || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
+
+/** ===== Covers ===== */
+
+const COVER_W = 1200;
+const COVER_H = 630;
+
+function canvasToFile(canvas: HTMLCanvasElement, name: string): Promise<File | null> {
+  return new Promise((resolve) =>
+    canvas.toBlob((b) => resolve(b ? new File([b], name, { type: "image/webp" }) : null), "image/webp", 0.85)
+  );
+}
+
+function coverName(file: File): string {
+  return `${file.name.replace(/\.\w+$/, "") || "cover"}-cover.webp`;
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number, fallback: T): Promise<T> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(fallback), ms);
+    p.then((v) => { clearTimeout(timer); resolve(v); }).catch(() => { clearTimeout(timer); resolve(fallback); });
+  });
+}
+
+async function waveformCover(file: File): Promise<File | null> {
+  const ctx = new AudioContext();
+  try {
+    const audio = await ctx.decodeAudioData(await file.arrayBuffer());
+    const data = audio.getChannelData(0);
+    const canvas = document.createElement("canvas");
+    canvas.width = COVER_W;
+    canvas.height = COVER_H;
+    const g = canvas.getContext("2d")!;
+    g.fillStyle = "#0b1220";
+    g.fillRect(0, 0, COVER_W, COVER_H);
+
+    // Peak per bar, drawn mirrored around the middle
+    const bars = 200;
+    const step = Math.max(1, Math.floor(data.length / bars));
+    const barW = COVER_W / bars;
+    g.fillStyle = "#38bdf8";
+    for (let i = 0; i < bars; i++) {
+      let peak = 0;
+      for (let j = i * step; j < Math.min(data.length, (i + 1) * step); j++) peak = Math.max(peak, Math.abs(data[j]));
+      const h = Math.max(2, peak * (COVER_H * 0.7));
+      g.fillRect(i * barW + 1, (COVER_H - h) / 2, Math.max(1, barW - 2), h);
+    }
+    g.fillStyle = "rgba(255,255,255,0.8)";
+    g.font = "28px sans-serif";
+    g.fillText(file.name.slice(0, 60), 32, COVER_H - 32);
+    return await canvasToFile(canvas, coverName(file));
+  } finally {
+    ctx.close().catch(() => {});
+  }
+}
+
+async function videoFrameCover(file: File): Promise<File | null> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.src = url;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error("video decode failed"));
+    });
+    // 1s in (or the middle of short clips) avoids black intro frames
+    video.currentTime = Math.min(1, (video.duration || 0) / 2);
+    await new Promise<void>((resolve) => { video.onseeked = () => resolve(); });
+    const scale = Math.min(1, 1600 / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext("2d")!.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return await canvasToFile(canvas, coverName(file));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function textCover(file: File, text: string): Promise<File | null> {
+  const canvas = document.createElement("canvas");
+  canvas.width = COVER_W;
+  canvas.height = COVER_H;
+  const g = canvas.getContext("2d")!;
+  g.fillStyle = "#f8fafc";
+  g.fillRect(0, 0, COVER_W, COVER_H);
+  g.fillStyle = "#0f172a";
+  g.font = "bold 40px serif";
+  g.fillText(file.name.replace(/\.\w+$/, "").slice(0, 48), 64, 96);
+
+  // Word-wrapped opening lines of the work
+  g.font = "26px serif";
+  g.fillStyle = "#334155";
+  const maxW = COVER_W - 128;
+  let line = "";
+  let y = 160;
+  for (const word of text.replace(/\s+/g, " ").split(" ")) {
+    const next = line ? `${line} ${word}` : word;
+    if (g.measureText(next).width > maxW) {
+      g.fillText(line, 64, y);
+      line = word;
+      y += 38;
+      if (y > COVER_H - 48) break;
+    } else {
+      line = next;
+    }
+  }
+  if (line && y <= COVER_H - 48) g.fillText(line, 64, y);
+  return canvasToFile(canvas, coverName(file));
+}
+
+/**
+ * Image for the metadata `image` field and chat previews: the compressed image itself,
+ * an audio waveform, a video frame, or a text card. Null when the browser can't decode the file.
+ */
+export async function generateCover(file: File): Promise<File | null> {
+  const kind = mediaKindOf(file);
+  try {
+    switch (kind) {
+      case "image":
+        return await compressImage(file);
+      case "audio":
+        return await withTimeout(waveformCover(file), 15_000, null);
+      case "video":
+        return await withTimeout(videoFrameCover(file), 15_000, null);
+      case "document":
+      case "text":
+        return await textCover(file, await extractText(file, 2_000));
+      default:
+        return null;
+    }
+  } catch (e) {
+    console.warn("Cover generation failed:", e);
+    return null;
+  }
+}
+
+/** Duration in seconds of an audio or video file, or null. */
+export async function mediaDuration(file: File): Promise<number | null> {
+  const kind = mediaKindOf(file);
+  if (kind !== "audio" && kind !== "video") return null;
+  const url = URL.createObjectURL(file);
+  const el = document.createElement(kind);
+  el.preload = "metadata";
+  el.src = url;
+  try {
+    return await withTimeout(new Promise<number | null>((resolve) => {
+      el.onloadedmetadata = () => resolve(Number.isFinite(el.duration) ? el.duration : null);
+      el.onerror = () => resolve(null);
+    }), 10_000, null);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
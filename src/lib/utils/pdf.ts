@@ -0,0 +1,143 @@
+// Minimal text-only PDF 1.4 writer (A4, standard Type1 fonts, automatic page breaks).
+// Enough for certificates and reports without pulling a PDF library into the bundle.
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+const FONT_REF: Record<PdfFont, string> = { regular: "F1", bold: "F2", mono: "F3" };
+// average glyph width as a fraction of the font size, used for wrapping
+const FONT_WIDTH: Record<PdfFont, number> = { regular: 0.5, bold: 0.55, mono: 0.6 };
+
+const PAGE_W = 595.28;
+const PAGE_H = 841.89;
+const MARGIN = 50;
+
+// Standard fonts only cover WinAnsi; map common typography to ASCII and drop the rest
+function winAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/•/g, "*")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+function escapeText(text: string): string {
+  return winAnsi(text).replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      // hashes and URLs are longer than a line: hard-break them
+      while (word.length > maxChars) {
+        if (line) { lines.push(line); line = ""; }
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+      }
+      if (!line) line = word;
+      else if (line.length + 1 + word.length <= maxChars) line += ` ${word}`;
+      else { lines.push(line); line = word; }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export function createPdfWriter() {
+  const pages: string[][] = [[]];
+  let y = PAGE_H - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      pages.push([]);
+      y = PAGE_H - MARGIN;
+    }
+  };
+
+  const write = (x: number, size: number, font: PdfFont, line: string, rgb = "0 0 0") => {
+    pages[pages.length - 1].push(`BT ${rgb} rg /${FONT_REF[font]} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(line)}) Tj ET`);
+  };
+
+  const writer = {
+    /** Wrapped text block; `indent` shifts it right (e.g. values under a label). */
+    text(value: string, opts: { size?: number; font?: PdfFont; indent?: number; color?: string } = {}) {
+      const size = opts.size ?? 10;
+      const font = opts.font ?? "regular";
+      const x = MARGIN + (opts.indent ?? 0);
+      const maxChars = Math.floor((PAGE_W - MARGIN - x) / (size * FONT_WIDTH[font]));
+      for (const line of wrap(value, maxChars)) {
+        ensureSpace(size * 1.4);
+        y -= size * 1.4;
+        write(x, size, font, line, opts.color);
+      }
+      return writer;
+    },
+    heading(value: string, size = 14) {
+      writer.gap(size * 0.4);
+      return writer.text(value, { size, font: "bold" });
+    },
+    /** Label on its own line, value below it (monospace for hashes and addresses). */
+    field(label: string, value: string, mono = false) {
+      writer.text(label, { size: 8, font: "bold", color: "0.35 0.35 0.35" });
+      return writer.text(value || "-", { size: mono ? 8.5 : 10, font: mono ? "mono" : "regular", indent: 8 });
+    },
+    gap(height = 8) {
+      y -= height;
+      return writer;
+    },
+    rule() {
+      ensureSpace(12);
+      y -= 6;
+      pages[pages.length - 1].push(`0.8 0.8 0.8 RG 0.5 w ${MARGIN} ${y.toFixed(2)} m ${(PAGE_W - MARGIN).toFixed(2)} ${y.toFixed(2)} l S`);
+      y -= 6;
+      return writer;
+    },
+    toBlob(): Blob {
+      const objects: string[] = [];
+      const add = (body: string) => objects.push(body);
+      add("<< /Type /Catalog /Pages 2 0 R >>");
+      add(""); // pages tree, filled once page refs are known
+      add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+      add("<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>");
+      const pageRefs: string[] = [];
+      pages.forEach((ops) => {
+        const stream = ops.join("\n");
+        add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+        const contentRef = objects.length;
+        add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] /Contents ${contentRef} 0 R /Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> >>`);
+        pageRefs.push(`${objects.length} 0 R`);
+      });
+      objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`;
+
+      // every character is single-byte after winAnsi(), so string offsets are byte offsets
+      let out = "%PDF-1.4\n";
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        offsets.push(out.length);
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      });
+      const xref = out.length;
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      out += offsets.map(o => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+      out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+      const bytes = new Uint8Array(out.length);
+      for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i) & 0xff;
+      return new Blob([bytes], { type: "application/pdf" });
+    },
+  };
+  return writer;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
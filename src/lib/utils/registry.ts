@@ -1,4 +1,7 @@
 import { erc721Abi, parseAbiItem } from "viem";
+import { signatureSimilarity } from "./media";
+import { ipAssetRegistryAbi } from "@/lib/abi/ip_asset_registry";
+import { getNetwork, type NetworkConfig } from "@/lib/chains/networks";
 
 function ipfsToHttps(url?: string) {
   if (!url) return "";
@@ -19,9 +22,42 @@ export type DuplicateMatch = {
   tokenId?: string;
   tokenURI?: string;
   ipMetadataURI?: string;
+  similarity?: number; // set by findSimilarText
 };
 
+// Hash of the registered work: mediaHash is the original bytes (non-image works carry a
+// generated cover in `image`); older records only had imageHash, which was the same file
+function registeredHash(ipMeta: any): string {
+  return (ipMeta?.mediaHash || ipMeta?.imageHash || '').toLowerCase();
+}
+
 export async function checkDuplicateQuick(pc: any, spg: `0x${string}`, targetImageHash: string): Promise<DuplicateMatch> {
+  const target = targetImageHash.toLowerCase();
+  return scanRecentIpMetadata(pc, spg, (ipMeta) => {
+    const hash = registeredHash(ipMeta);
+    return hash && hash === target ? {} : null;
+  });
+}
+
+/**
+ * Nearest text work among the recent registrations, compared by MinHash signature
+ * (see textSignature). Found when the estimated similarity reaches `threshold`.
+ */
+export async function findSimilarText(pc: any, spg: `0x${string}`, signature: number[], threshold = 0.8): Promise<DuplicateMatch> {
+  if (!signature.length) return { found: false };
+  return scanRecentIpMetadata(pc, spg, (ipMeta) => {
+    if (!Array.isArray(ipMeta?.textSignature)) return null;
+    const similarity = signatureSimilarity(signature, ipMeta.textSignature);
+    return similarity >= threshold ? { similarity } : null;
+  });
+}
+
+// Walks the last NEXT_PUBLIC_REGISTRY_CHECK_LAST tokens, newest first, until `match` accepts one
+async function scanRecentIpMetadata(
+  pc: any,
+  spg: `0x${string}`,
+  match: (ipMeta: any) => Partial<DuplicateMatch> | null
+): Promise<DuplicateMatch> {
   try {
     const lastN = Number.parseInt(process.env.NEXT_PUBLIC_REGISTRY_CHECK_LAST || '300', 10);
     // Try totalSupply (ERC721Enumerable)
@@ -59,9 +95,9 @@ export async function checkDuplicateQuick(pc: any, spg: `0x${string}`, targetIma
         return t === 'ip_metadata_uri' || t === 'ipmetadatauri';
       })?.value;
       const ipMeta = await fetchJsonSafe(ipfsToHttps(ipMetaUri));
-      const imgHash = (ipMeta?.imageHash || ipMeta?.mediaHash || '').toLowerCase();
-      if (imgHash && imgHash === targetImageHash.toLowerCase()) {
-        return { found: true, tokenId: tokenId?.toString(), tokenURI, ipMetadataURI: ipMetaUri };
+      const hit = ipMeta ? match(ipMeta) : null;
+      if (hit) {
+        return { found: true, tokenId: tokenId?.toString(), tokenURI, ipMetadataURI: ipMetaUri, ...hit };
       }
 
       if (i === 0n) break;
@@ -93,7 +129,7 @@ export async function checkDuplicateByImageHash(pc: any, spg: `0x${string}`, tar
     }
   }
 
-  // For each token, fetch tokenURI -> metadata -> ipMetadataURI -> ipMeta to compare imageHash
+  // For each token, fetch tokenURI -> metadata -> ipMetadataURI -> ipMeta to compare the media hash
   for (const tid of tokenIds) {
     let tokenURI: string | undefined;
     try {
@@ -107,11 +143,76 @@ export async function checkDuplicateByImageHash(pc: any, spg: `0x${string}`, tar
     })?.value;
 
     const ipMeta = await fetchJsonSafe(ipfsToHttps(ipMetaUri));
-    const imgHash = (ipMeta?.imageHash || ipMeta?.mediaHash || '').toLowerCase();
-    if (imgHash && imgHash === targetImageHash.toLowerCase()) {
+    const hash = registeredHash(ipMeta);
+    if (hash && hash === targetImageHash.toLowerCase()) {
       return { found: true, tokenId: tid, tokenURI, ipMetadataURI: ipMetaUri };
     }
   }
 
   return { found: false };
 }
+
+const spgMetadataHashAbi = [
+  { type: 'function', name: 'getTokenIdByMetadataHash', stateMutability: 'view', inputs: [{ name: 'nftMetadataHash', type: 'bytes32' }], outputs: [{ type: 'uint256' }] },
+] as const;
+
+/**
+ * Token an earlier mint of this NFT metadata produced in an SPG collection, with the tx that
+ * minted it (searched from `fromBlock`). Null when nothing landed or the collection can't tell.
+ */
+export async function findMintByMetadataHash(
+  pc: any,
+  spg: `0x${string}`,
+  nftMetadataHash: `0x${string}`,
+  fromBlock: bigint
+): Promise<{ tokenId: string; txHash: `0x${string}` } | null> {
+  const tokenId = (await pc.readContract({
+    address: spg,
+    abi: spgMetadataHashAbi,
+    functionName: 'getTokenIdByMetadataHash',
+    args: [nftMetadataHash],
+  }).catch(() => 0n)) as bigint;
+  if (!tokenId) return null;
+
+  const [mint] = await pc.getLogs({
+    address: spg,
+    event: parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"),
+    args: { from: "0x0000000000000000000000000000000000000000" as `0x${string}`, tokenId },
+    fromBlock,
+    toBlock: 'latest',
+  });
+  return mint?.transactionHash ? { tokenId: tokenId.toString(), txHash: mint.transactionHash } : null;
+}
+
+/**
+ * ipId the next mint into an SPG collection will register. SPG collections number tokens
+ * 1, 2, 3…, so this holds until someone else mints first; callers compare it with the ipId
+ * the mint actually returns.
+ */
+export async function nextMintIpId(
+  pc: any,
+  spg: `0x${string}`,
+  network: NetworkConfig = getNetwork()
+): Promise<{ tokenId: string; ipId: `0x${string}` }> {
+  const supply = (await pc.readContract({
+    address: spg,
+    abi: [{ type: 'function', name: 'totalSupply', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] }] as const,
+    functionName: 'totalSupply',
+    args: [],
+  })) as bigint;
+  const tokenId = supply + 1n;
+  const ipId = (await pc.readContract({
+    address: network.contracts.ipAssetRegistry,
+    abi: ipAssetRegistryAbi,
+    functionName: 'ipId',
+    args: [BigInt(network.chain.id), spg, tokenId],
+  })) as `0x${string}`;
+  const taken = await pc.readContract({
+    address: network.contracts.ipAssetRegistry,
+    abi: ipAssetRegistryAbi,
+    functionName: 'isRegistered',
+    args: [ipId],
+  });
+  if (taken) throw new Error(`Token ${tokenId} of ${spg} is already registered; its ipId can't be predicted`);
+  return { tokenId: tokenId.toString(), ipId };
+}
@@ -0,0 +1,95 @@
+import { BaseError, InsufficientFundsError, decodeErrorResult, erc20Abi, formatUnits, parseAbi, type Hex } from "viem";
+
+// Reverts a registration can hit, decoded into i18n keys under `simulate.revert.*`
+const REVERT_ABI = parseAbi([
+  "error SPGNFT__MintingDenied()",
+  "error SPGNFT__MintingClosed()",
+  "error SPGNFT__MaxSupplyReached()",
+  "error SPGNFT__DuplicatedNFTMetadataHash(address spgNftContract, uint256 tokenId, bytes32 nftMetadataHash)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error LicensingModule__MintingFeeExceedMaxMintingFee(uint256 mintingFee, uint256 maxMintingFee)",
+  "error LicenseRegistry__ParentIpHasNoLicenseTerms(address ipId, uint256 licenseTermsId)",
+  "error LicenseRegistry__LicenseTermsAlreadyAttached(address ipId, address licenseTemplate, uint256 licenseTermsId)",
+  "error AccessController__PermissionDenied(address ipAccount, address signer, address to, bytes4 func)",
+]);
+
+const REVERT_KEYS: Record<string, string> = {
+  SPGNFT__MintingDenied: "simulate.revert.notPublic",
+  SPGNFT__MintingClosed: "simulate.revert.mintingClosed",
+  SPGNFT__MaxSupplyReached: "simulate.revert.maxSupply",
+  SPGNFT__DuplicatedNFTMetadataHash: "simulate.revert.duplicate",
+  ERC20InsufficientBalance: "simulate.revert.insufficientWip",
+  ERC20InsufficientAllowance: "simulate.revert.allowance",
+  LicensingModule__MintingFeeExceedMaxMintingFee: "simulate.revert.mintingFeeTooHigh",
+  LicenseRegistry__ParentIpHasNoLicenseTerms: "simulate.revert.parentTerms",
+  LicenseRegistry__LicenseTermsAlreadyAttached: "simulate.revert.alreadyAttached",
+  AccessController__PermissionDenied: "simulate.revert.notIpOwner",
+};
+
+const SPG_FEE_ABI = parseAbi([
+  "function mintFee() view returns (uint256)",
+  "function mintFeeToken() view returns (address)",
+]);
+
+export type DecodedRevert = {
+  // custom error name, or "InsufficientFunds" when the wallet cannot pay gas
+  name?: string;
+  // i18n key of a readable message; undefined when the revert is unknown
+  key?: string;
+  message: string;
+};
+
+function revertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const found = error.walk((e: any) => typeof e?.data === "string" && e.data.startsWith("0x")) as any;
+  return found?.data;
+}
+
+/** Turns an RPC/simulation error into a known revert when possible. */
+export function decodeRevert(error: unknown): DecodedRevert {
+  const message = (error as any)?.shortMessage || (error as any)?.message || String(error);
+  if (error instanceof BaseError && error.walk((e) => e instanceof InsufficientFundsError)) {
+    return { name: "InsufficientFunds", key: "simulate.revert.insufficientGas", message };
+  }
+  const data = revertData(error);
+  if (data && data.length >= 10) {
+    try {
+      const { errorName } = decodeErrorResult({ abi: REVERT_ABI, data });
+      return { name: errorName, key: REVERT_KEYS[errorName], message };
+    } catch {
+      // selector not in REVERT_ABI
+    }
+  }
+  // the SDK rethrows plain Errors whose message still names the decoded revert
+  const name = Object.keys(REVERT_KEYS).find(n => message.includes(n));
+  if (name) return { name, key: REVERT_KEYS[name], message };
+  return { message };
+}
+
+export type SpgMintFee = {
+  fee: bigint;
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+};
+
+export async function readSpgMintFee(pc: any, spg: `0x${string}`): Promise<SpgMintFee> {
+  const [fee, token] = await Promise.all([
+    pc.readContract({ address: spg, abi: SPG_FEE_ABI, functionName: "mintFee" }) as Promise<bigint>,
+    pc.readContract({ address: spg, abi: SPG_FEE_ABI, functionName: "mintFeeToken" }) as Promise<`0x${string}`>,
+  ]);
+  if (fee === BigInt(0)) return { fee, token, symbol: "", decimals: 18 };
+  const [symbol, decimals] = await Promise.all([
+    pc.readContract({ address: token, abi: erc20Abi, functionName: "symbol" }).catch(() => "WIP") as Promise<string>,
+    pc.readContract({ address: token, abi: erc20Abi, functionName: "decimals" }).catch(() => 18) as Promise<number>,
+  ]);
+  return { fee, token, symbol, decimals };
+}
+
+export function formatFee(amount: bigint, decimals = 18): string {
+  // 6 decimals is plenty for a preview
+  const [whole, frac = ""] = formatUnits(amount, decimals).split(".");
+  const trimmed = frac.slice(0, 6).replace(/0+$/, "");
+  return trimmed ? `${whole}.${trimmed}` : whole;
+}
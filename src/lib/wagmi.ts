@@ -7,16 +7,14 @@ import {
   coinbaseWallet,
   rabbyWallet,
 } from "@rainbow-me/rainbowkit/wallets";
-import { storyAeneid } from "@/lib/chains/story";
+import { NETWORKS, getNetwork, relayUrl } from "@/lib/chains/networks";
 
 // WalletConnect Project ID (set di .env lokal & Vercel)
 const projectId = process.env.NEXT_PUBLIC_WC_PROJECT_ID ?? "demo";
 
-// RPC Story (boleh override)
-const rpcUrl =
-  process.env.NEXT_PUBLIC_RPC_URL ||
-  storyAeneid.rpcUrls?.default?.http?.[0] ||
-  "https://aeneid.storyrpc.io";
+// Network aktif duluan: wagmi/RainbowKit memakai chain pertama sebagai default
+const active = getNetwork();
+const others = Object.values(NETWORKS).filter((n) => n.key !== active.key);
 
 // ✅ RainbowKit v2: pass fungsi wallet (CreateWalletFn), bukan hasil pemanggilan
 const connectors = connectorsForWallets(
@@ -39,10 +37,10 @@ const connectors = connectorsForWallets(
 
 // Wagmi config
 export const wagmiConfig = createConfig({
-  chains: [storyAeneid],
+  chains: [active.chain, ...others.map((n) => n.chain)],
   connectors,
-  transports: {
-    [storyAeneid.id]: http('/api/rpc/relay'),
-  },
+  transports: Object.fromEntries(
+    [active, ...others].map((n) => [n.chain.id, http(relayUrl(n.key))])
+  ),
   ssr: true,
 });
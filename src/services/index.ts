@@ -40,15 +40,26 @@ export async function uploadToIPFS(data: Buffer | string, filename?: string): Pr
 
 // OpenAI IP status check
 import { compressImage } from "@/lib/utils/image";
+import { extractText, generateCover, mediaKindOf } from "@/lib/utils/media";
 export async function detectIPStatus(file: File): Promise<{ result: string }> {
   try {
-    const maxW = 1024;
-    const maxH = 1024;
-    const quality = 0.8;
-    const compressed = await compressImage(file, maxW, maxH, quality);
-
+    const kind = mediaKindOf(file);
     const formData = new FormData();
-    formData.append('file', compressed);
+    if (kind === 'text' || kind === 'document') {
+      // Documents are assessed on their text
+      const text = await extractText(file);
+      if (!text) throw new Error('No extractable text');
+      formData.append('file', new File([text], `${file.name}.txt`, { type: 'text/plain' }));
+    } else if (kind === 'image' || kind === 'video') {
+      // Videos are assessed on a representative frame
+      const image = kind === 'image'
+        ? await compressImage(file, { maxDim: 1024, quality: 0.8 })
+        : await generateCover(file);
+      if (!image) throw new Error('No frame to analyze');
+      formData.append('file', image);
+    } else {
+      return { result: 'Status: No automated check for audio\nRisk: Medium\nTolerance: Proceed with caution, manual review recommended' };
+    }
 
     const response = await fetch('/api/ip-status', {
       method: 'POST',
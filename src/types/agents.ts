@@ -1,11 +1,43 @@
-import type { RegisterIntent } from "@/lib/agent/engine";
+import type { RegisterIntent, SwapIntent } from "@/lib/agent/engine";
+import type { ChatAction } from "@/lib/agent/actions";
+import type { ProofBundle } from "@/lib/certificate";
+
+// Structured content rendered under the message text. Plain JSON, so it persists with the chat.
+// Blocks with an `id` can be patched in place (useChatAgent.updateBlock).
+export type MessageBlock =
+  | {
+      type: "analysis";
+      title: string;
+      subtitle?: string;
+      tone: "ok" | "warn" | "danger";
+      scores: { label: string; value: number; max: number }[];
+      details?: { label: string; value: string }[];
+    }
+  | { type: "terms_table"; title?: string; columns: string[]; rows: string[][] }
+  | {
+      type: "form";
+      id: string;
+      fields: { name: "name" | "description"; label: string; value: string; multiline?: boolean }[];
+      submitted?: boolean;
+    }
+  | {
+      type: "tx_status";
+      id: string;
+      label: string;
+      // unknown: no receipt before the wait gave up; the tx may still land
+      status: "pending" | "confirmed" | "failed" | "unknown";
+      txHash?: string;
+      url?: string;
+      error?: string;
+    }
+  | { type: "certificate"; id: string; bundle: ProofBundle };
 
 // Message types for chat
 export type Message = {
   role: "you" | "agent";
   text: string;
   ts: number;
-  buttons?: string[];
+  buttons?: ChatAction[];
   image?: {
     url: string;
     alt?: string;
@@ -14,22 +46,85 @@ export type Message = {
     text: string;
     url: string;
   }[];
+  blocks?: MessageBlock[];
   isLoading?: boolean;
+  streaming?: boolean;     // AI reply still arriving token by token
 };
 
 // Plan types
-export type Plan = {
-  type: "register";
-  steps: string[];
-  intent: RegisterIntent;
-};
+export type Plan =
+  | {
+      type: "register";
+      steps: string[];
+      intent: RegisterIntent;
+    }
+  | {
+      type: "swap";
+      steps: string[];
+      intent: SwapIntent;
+    };
 
 
 // Register IP agent state
+// Checkpointed steps of a registration; finished ones are skipped on retry
+export type RegisterStep = 'compress' | 'upload-media' | 'ip-metadata' | 'nft-metadata' | 'mint';
+
+// Pre-sign dry run of the mint transaction, shown in PlanBox as go/no-go
+export type RegisterSimulation = {
+  status: 'simulating' | 'ok' | 'revert' | 'unavailable';
+  gas?: string;           // estimated gas units
+  gasCost?: string;       // IP, human units
+  mintFee?: string;       // SPG mint fee, human units
+  mintFeeSymbol?: string;
+  totalCost?: string;     // gas + mint fee, only when the fee is paid in (W)IP
+  approximate?: boolean;  // royalty split flows can't be encoded, the plain mint was simulated
+  reasonKey?: string;     // i18n key of a decoded revert
+  reason?: string;        // raw message when the revert is unknown
+};
+
 export type RegisterState = {
-  status: 'idle' | 'compressing' | 'uploading-image' | 'creating-metadata' | 'uploading-metadata' | 'minting' | 'success' | 'error';
+  status: 'idle' | 'compressing' | 'preparing-media' | 'uploading-image' | 'creating-metadata' | 'uploading-metadata' | 'minting' | 'success' | 'error';
+  progress: number;
+  error: any | null;
+  // step that threw when status is 'error'; confirming again resumes there
+  failedStep?: RegisterStep;
+  simulation?: RegisterSimulation;
+  ipId?: string;
+  txHash?: string;
+};
+
+// Swap agent state (PiperX aggregator)
+export type SwapQuote = {
+  amountIn: string;        // human units
+  amountOut: string;       // human units, best route
+  symbolIn: string;
+  symbolOut: string;
+  minAmountOut: string;    // human units, after slippage
+  slippageBps: number;
+  priceImpactPct: number | null;
+  expiresAt: number;       // ms epoch
+};
+
+export type SwapState = {
+  status: 'idle' | 'quoting' | 'quoted' | 'checking-allowance' | 'approving' | 'swapping' | 'success' | 'error';
   progress: number;
   error: any | null;
+  quote?: SwapQuote;
+  txHash?: string;
+};
+
+// Batch registration item (one per queued file)
+export type BatchItem = {
+  id: string;
+  file: File;
+  title: string;
+  description: string;
+  pilType: 'open_use' | 'commercial_remix';
+  revShare: number;
+  licensePrice: number;
+  status: 'analyzing' | 'ready' | 'duplicate' | 'registering' | 'success' | 'error' | 'skipped';
+  error?: string;
+  duplicateTokenId?: string;
   ipId?: string;
   txHash?: string;
 };